@@ -9,6 +9,8 @@ import { SettingsProvider } from "@/contexts/SettingsContext";
 import Chat from "@/pages/Chat";
 import Settings from "@/pages/Settings";
 import Usage from "@/pages/Usage";
+import Apps from "@/pages/Apps";
+import AppRunner from "@/pages/AppRunner";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -18,6 +20,7 @@ function Router() {
       <Route path="/chat/:id" component={Chat} />
       <Route path="/settings" component={Settings} />
       <Route path="/usage" component={Usage} />
+      <Route path="/apps" component={Apps} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -33,14 +36,20 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <SettingsProvider>
         <TooltipProvider>
-          <SidebarProvider style={style as React.CSSProperties}>
-            <div className="flex h-screen w-full">
-              <AppSidebar />
-              <main className="flex flex-col flex-1 min-w-0 overflow-hidden">
-                <Router />
-              </main>
-            </div>
-          </SidebarProvider>
+          <Switch>
+            {/* Promoted apps take the whole window */}
+            <Route path="/apps/:slug" component={AppRunner} />
+            <Route>
+              <SidebarProvider style={style as React.CSSProperties}>
+                <div className="flex h-screen w-full">
+                  <AppSidebar />
+                  <main className="flex flex-col flex-1 min-w-0 overflow-hidden">
+                    <Router />
+                  </main>
+                </div>
+              </SidebarProvider>
+            </Route>
+          </Switch>
           <Toaster />
         </TooltipProvider>
       </SettingsProvider>
@@ -0,0 +1,346 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Pencil, Ban, PlugZap } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useApiKeys } from "@/hooks/use-api-keys";
+import { type ApiKey, MODEL_PROVIDERS } from "@shared/schema";
+
+const PROVIDER_LABELS: Record<(typeof MODEL_PROVIDERS)[number], string> = {
+  anthropic: "Anthropic",
+  openai: "OpenAI-compatible",
+};
+
+const formSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  provider: z.enum(MODEL_PROVIDERS),
+  // Required when adding; blank when editing keeps the current secret
+  key: z.string().trim(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+interface ApiKeyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Renaming or rotating an existing key; omitted when adding one
+  apiKey?: ApiKey;
+}
+
+function ApiKeyDialog({ open, onOpenChange, apiKey }: ApiKeyDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(
+      apiKey ? formSchema : formSchema.extend({ key: z.string().trim().min(8, "Key is too short") }),
+    ),
+    defaultValues: { label: "", provider: "anthropic", key: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ label: apiKey?.label ?? "", provider: apiKey?.provider ?? "anthropic", key: "" });
+    }
+  }, [open, apiKey, form]);
+
+  const saveKeyMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      if (apiKey) {
+        return await apiRequest(`/api/api-keys/${apiKey.id}`, {
+          method: "PATCH",
+          body: JSON.stringify({ label: data.label, ...(data.key ? { key: data.key } : {}) }),
+        });
+      }
+      return await apiRequest("/api/api-keys", {
+        method: "POST",
+        body: JSON.stringify(data),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      toast({
+        title: "Success",
+        description: apiKey ? "API key updated" : "API key added",
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save API key (is API_KEY_MASTER_SECRET set on the server?)",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold uppercase tracking-wider">
+            {apiKey ? "Edit API Key" : "Add API Key"}
+          </DialogTitle>
+          <DialogDescription>
+            {apiKey
+              ? "Enter a new key to rotate it; leave it blank to only rename."
+              : "Keys are encrypted on the server and can't be viewed again after saving."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveKeyMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="label"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-semibold uppercase text-xs tracking-wider">Label</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="Personal"
+                      className="border-2 border-border font-mono"
+                      data-testid="input-api-key-label"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="provider"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-semibold uppercase text-xs tracking-wider">Provider</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange} disabled={!!apiKey}>
+                    <FormControl>
+                      <SelectTrigger className="border-2 border-border font-mono" data-testid="select-api-key-provider">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MODEL_PROVIDERS.map((provider) => (
+                        <SelectItem key={provider} value={provider} className="font-mono">
+                          {PROVIDER_LABELS[provider]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="key"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-semibold uppercase text-xs tracking-wider">
+                    {apiKey ? "New Key" : "Key"}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="password"
+                      autoComplete="off"
+                      placeholder={apiKey ? `Current key ends ${apiKey.keyHint}` : "sk-..."}
+                      className="border-2 border-border font-mono"
+                      data-testid="input-api-key-secret"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="font-mono uppercase tracking-wider"
+                data-testid="button-cancel-api-key"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveKeyMutation.isPending}
+                className="font-mono uppercase tracking-wider"
+                data-testid="button-save-api-key"
+              >
+                {apiKey ? "Save Changes" : "Add Key"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function keyStatus(apiKey: ApiKey): string {
+  if (apiKey.revokedAt) return `Revoked ${new Date(apiKey.revokedAt).toLocaleDateString()}`;
+  if (!apiKey.lastTestedAt) return "Untested";
+  const testedAt = new Date(apiKey.lastTestedAt).toLocaleString();
+  return apiKey.lastTestError ? `Test failed ${testedAt}` : `Working • tested ${testedAt}`;
+}
+
+// Settings section for bring-your-own keys: add, rename, rotate, test and revoke
+export function ApiKeyManager() {
+  const { toast } = useToast();
+  const { apiKeys, isLoading } = useApiKeys();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingKey, setEditingKey] = useState<ApiKey | undefined>(undefined);
+
+  const testKeyMutation = useMutation({
+    mutationFn: async (id: number): Promise<ApiKey> => {
+      return await apiRequest(`/api/api-keys/${id}/test`, { method: "POST" });
+    },
+    onSuccess: (apiKey) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      toast({
+        title: apiKey.lastTestError ? "Error" : "Success",
+        description: apiKey.lastTestError ?? `${apiKey.label} is working`,
+        variant: apiKey.lastTestError ? "destructive" : undefined,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to test API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/api-keys/${id}/revoke`, { method: "POST" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+      // Projects and conversations that used the key fall back to the next one
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      toast({
+        title: "Success",
+        description: "API key revoked",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke API key",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (apiKey?: ApiKey) => {
+    setEditingKey(apiKey);
+    setDialogOpen(true);
+  };
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    if (confirm(`Revoke ${apiKey.label}? Projects and conversations using it switch to their default key.`)) {
+      revokeKeyMutation.mutate(apiKey.id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <div className="font-mono text-xs text-muted-foreground uppercase tracking-wider">Loading...</div>
+      ) : apiKeys.length === 0 ? (
+        <div className="font-mono text-xs text-muted-foreground">
+          No keys yet. Requests use the server's environment keys.
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {apiKeys.map((apiKey) => (
+            <div
+              key={apiKey.id}
+              className={`flex items-center justify-between gap-3 border-2 border-border p-3 ${apiKey.revokedAt ? "opacity-60" : ""}`}
+              data-testid={`api-key-row-${apiKey.id}`}
+            >
+              <div className="min-w-0 space-y-1">
+                <div className="font-mono text-sm uppercase tracking-wider truncate">{apiKey.label}</div>
+                <div className="font-mono text-xs text-muted-foreground truncate">
+                  {PROVIDER_LABELS[apiKey.provider] ?? apiKey.provider} • {apiKey.keyHint}
+                </div>
+                <div
+                  className={`font-mono text-[10px] uppercase tracking-wider ${apiKey.lastTestError && !apiKey.revokedAt ? "text-destructive" : "text-muted-foreground"}`}
+                  title={apiKey.lastTestError ?? undefined}
+                  data-testid={`text-api-key-status-${apiKey.id}`}
+                >
+                  {keyStatus(apiKey)}
+                </div>
+              </div>
+              {!apiKey.revokedAt && (
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={testKeyMutation.isPending}
+                    onClick={() => testKeyMutation.mutate(apiKey.id)}
+                    title="Test key"
+                    data-testid={`button-test-api-key-${apiKey.id}`}
+                  >
+                    <PlugZap className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => openDialog(apiKey)}
+                    title="Rename or rotate key"
+                    data-testid={`button-edit-api-key-${apiKey.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => handleRevoke(apiKey)}
+                    title="Revoke key"
+                    data-testid={`button-revoke-api-key-${apiKey.id}`}
+                  >
+                    <Ban className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      <Button
+        variant="outline"
+        className="w-full font-mono text-xs uppercase tracking-wider"
+        onClick={() => openDialog()}
+        data-testid="button-add-api-key"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add API Key
+      </Button>
+      <ApiKeyDialog open={dialogOpen} onOpenChange={setDialogOpen} apiKey={editingKey} />
+    </div>
+  );
+}
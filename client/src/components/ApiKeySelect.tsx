@@ -0,0 +1,42 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useApiKeys } from "@/hooks/use-api-keys";
+
+const INHERIT_VALUE = "inherit";
+
+const PROVIDER_LABELS: Record<string, string> = {
+  anthropic: "Anthropic",
+  openai: "OpenAI",
+};
+
+interface ApiKeySelectProps {
+  value: number | null;
+  onChange: (value: number | null) => void;
+  // What an unset choice falls back to, e.g. the project key or the environment key
+  inheritLabel: string;
+  testId: string;
+}
+
+export function ApiKeySelect({ value, onChange, inheritLabel, testId }: ApiKeySelectProps) {
+  const { activeKeys } = useApiKeys();
+
+  return (
+    <Select
+      value={value ? String(value) : INHERIT_VALUE}
+      onValueChange={(next) => onChange(next === INHERIT_VALUE ? null : Number(next))}
+    >
+      <SelectTrigger className="border-2 border-border font-mono" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={INHERIT_VALUE} className="font-mono">
+          {inheritLabel}
+        </SelectItem>
+        {activeKeys.map((key) => (
+          <SelectItem key={key.id} value={String(key.id)} className="font-mono">
+            {key.label} {key.keyHint} • {PROVIDER_LABELS[key.provider] ?? key.provider}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,9 +1,11 @@
 import { useState, useRef, useEffect } from "react";
-import { Paperclip, X, File, Image, FileText, FileCode, Library, GitBranch, ArrowUp } from "lucide-react";
+import { Paperclip, X, File, Image, FileText, FileCode, Library, GitBranch, ArrowUp, Square, Columns2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import type { FileAttachment } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
+import { type FileAttachment, type LedgerAttachment, type MessageLedgerRef, MIN_COMPARE_MODELS, MAX_COMPARE_MODELS, MAX_ATTACHED_LEDGERS } from "@shared/schema";
+import { LedgerPicker } from "./LedgerPicker";
 
 const ACCEPTED_FILE_TYPES = {
   images: [".png", ".jpg", ".jpeg", ".gif", ".webp"],
@@ -23,13 +25,30 @@ const ALL_ACCEPTED_EXTENSIONS = [
   ...ACCEPTED_FILE_TYPES.config,
 ];
 
+// `@ledger` or `@ledger:query` right before the caret opens the ledger picker
+const LEDGER_MENTION_PATTERN = /(^|\s)@ledger(?::(\S*))?$/;
+
 interface ChatInputProps {
-  onSend: (message: string, files?: FileAttachment[]) => void;
+  onSend: (message: string, files?: FileAttachment[], ledgers?: LedgerAttachment[]) => void;
   disabled: boolean;
   placeholder?: string;
   testIdPrefix?: string;
   initialValue?: string;
   onDraftChange?: (draft: string) => void;
+  onStop?: () => void;
+  // Enables compare mode, which sends the message to several models at once
+  onCompare?: (message: string, models: string[], files?: FileAttachment[], ledgers?: LedgerAttachment[]) => void;
+  // Preselected when compare mode is switched on
+  currentModel?: string;
+  // Scope tabs offered by the ledger picker
+  conversationId?: number | null;
+  projectId?: number | null;
+}
+
+interface LedgerMention {
+  start: number;
+  end: number;
+  query: string;
 }
 
 interface PendingFile {
@@ -97,9 +116,16 @@ function formatFileSize(bytes: number): string {
 
 const COCKPIT_BTN_SIZE = 52;
 
-export function ChatInput({ onSend, disabled, placeholder = "Type your message here...", testIdPrefix = "", initialValue = "", onDraftChange }: ChatInputProps) {
+export function ChatInput({ onSend, disabled, placeholder = "Type your message here...", testIdPrefix = "", initialValue = "", onDraftChange, onStop, onCompare, currentModel, conversationId = null, projectId = null }: ChatInputProps) {
   const [message, setMessage] = useState(initialValue);
   const [pendingFiles, setPendingFiles] = useState<PendingFile[]>([]);
+  const [pendingLedgers, setPendingLedgers] = useState<MessageLedgerRef[]>([]);
+  const [ledgerPickerOpen, setLedgerPickerOpen] = useState(false);
+  // The mention being typed; kept after the picker is dismissed so it doesn't reopen on every keystroke
+  const [ledgerMention, setLedgerMention] = useState<LedgerMention | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<string[]>([]);
+  const { enabledModels } = useModels();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const lastInitialValueRef = useRef(initialValue);
@@ -124,9 +150,35 @@ export function ChatInput({ onSend, disabled, placeholder = "Type your message h
     }
   }, [message]);
 
-  const handleMessageChange = (newMessage: string) => {
+  const handleMessageChange = (newMessage: string, caret: number = newMessage.length) => {
     setMessage(newMessage);
     onDraftChange?.(newMessage);
+
+    const match = LEDGER_MENTION_PATTERN.exec(newMessage.slice(0, caret));
+    if (!match) {
+      setLedgerMention(null);
+      return;
+    }
+    const mention = { start: match.index + match[1].length, end: caret, query: match[2] ?? "" };
+    if (!ledgerMention && pendingLedgers.length < MAX_ATTACHED_LEDGERS) {
+      setLedgerPickerOpen(true);
+    }
+    setLedgerMention(mention);
+  };
+
+  const attachLedger = (ref: MessageLedgerRef) => {
+    setPendingLedgers((prev) => [...prev, ref].slice(0, MAX_ATTACHED_LEDGERS));
+    // A mention only opens the picker, so it's taken out of the message once it has done that
+    if (ledgerMention) {
+      handleMessageChange(message.slice(0, ledgerMention.start) + message.slice(ledgerMention.end), ledgerMention.start);
+      setLedgerMention(null);
+    }
+    setLedgerPickerOpen(false);
+    textareaRef.current?.focus();
+  };
+
+  const removeLedger = (index: number) => {
+    setPendingLedgers((prev) => prev.filter((_, i) => i !== index));
   };
 
   const readFileAsBase64 = (file: File): Promise<string> => {
@@ -181,9 +233,28 @@ export function ChatInput({ onSend, disabled, placeholder = "Type your message h
     });
   };
 
+  const toggleCompareMode = () => {
+    if (!compareMode && compareModels.length === 0 && currentModel) {
+      setCompareModels([currentModel]);
+    }
+    setCompareMode(!compareMode);
+  };
+
+  const toggleCompareModel = (id: string) => {
+    setCompareModels((prev) => {
+      if (prev.includes(id)) return prev.filter((m) => m !== id);
+      if (prev.length >= MAX_COMPARE_MODELS) return prev;
+      return [...prev, id];
+    });
+  };
+
+  const isComparing = compareMode && !!onCompare;
+  const hasContent = !!message.trim() || pendingFiles.length > 0 || pendingLedgers.length > 0;
+  const compareReady = !isComparing || compareModels.length >= MIN_COMPARE_MODELS;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!message.trim() && pendingFiles.length === 0) || disabled) return;
+    if (!hasContent || disabled || !compareReady) return;
 
     const fileAttachments: FileAttachment[] = pendingFiles.map(pf => ({
       filename: pf.file.name,
@@ -193,12 +264,24 @@ export function ChatInput({ onSend, disabled, placeholder = "Type your message h
       data: pf.base64 || "",
     }));
 
-    onSend(message.trim() || "Please analyze the attached file(s).", fileAttachments.length > 0 ? fileAttachments : undefined);
+    const text = message.trim()
+      || (pendingFiles.length > 0 ? "Please analyze the attached file(s)." : "Please review the attached ledger(s).");
+    const attachments = fileAttachments.length > 0 ? fileAttachments : undefined;
+    const ledgers = pendingLedgers.length > 0
+      ? pendingLedgers.map(({ ledgerId, versionNumber }) => ({ ledgerId, versionNumber }))
+      : undefined;
+    if (isComparing) {
+      onCompare(text, compareModels, attachments, ledgers);
+    } else {
+      onSend(text, attachments, ledgers);
+    }
     setMessage("");
     pendingFiles.forEach(pf => {
       if (pf.preview) URL.revokeObjectURL(pf.preview);
     });
     setPendingFiles([]);
+    setPendingLedgers([]);
+    setLedgerMention(null);
     if (textareaRef.current) {
       textareaRef.current.style.height = "auto";
     }
@@ -250,6 +333,59 @@ export function ChatInput({ onSend, disabled, placeholder = "Type your message h
         </div>
       )}
 
+      {/* Attached ledger versions */}
+      {pendingLedgers.length > 0 && (
+        <div className="flex flex-wrap gap-2" data-testid={`${testIdPrefix}ledger-attachments`}>
+          {pendingLedgers.map((ref, index) => (
+            <div
+              key={`${ref.ledgerId}-${ref.versionNumber}`}
+              className="flex items-center gap-2 border-2 border-border bg-card px-3 py-2 font-mono text-xs"
+              style={{ boxShadow: "2px 2px 0px hsl(var(--border))" }}
+              data-testid={`${testIdPrefix}ledger-attachment-${ref.ledgerId}-${ref.versionNumber}`}
+            >
+              <Library className="w-4 h-4" />
+              <span className="truncate max-w-[180px] font-semibold">{ref.title}</span>
+              <span className="text-muted-foreground">v{ref.versionNumber}</span>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="h-5 w-5 p-0 hover:bg-destructive/20"
+                onClick={() => removeLedger(index)}
+                data-testid={`${testIdPrefix}button-remove-ledger-${index}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Compare picker: each selected model answers in its own column */}
+      {isComparing && (
+        <div className="flex flex-wrap items-center gap-2" data-testid={`${testIdPrefix}compare-picker`}>
+          <span className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+            Compare {MIN_COMPARE_MODELS}-{MAX_COMPARE_MODELS}:
+          </span>
+          {enabledModels.map((model) => {
+            const selected = compareModels.includes(model.id);
+            return (
+              <button
+                key={model.id}
+                type="button"
+                onClick={() => toggleCompareModel(model.id)}
+                disabled={!selected && compareModels.length >= MAX_COMPARE_MODELS}
+                className={`border-2 px-2 py-1 font-mono text-xs uppercase tracking-wider hover-elevate active-elevate-2 disabled:opacity-40 disabled:cursor-not-allowed ${selected ? "border-foreground bg-foreground text-background" : "border-border bg-card text-card-foreground"}`}
+                aria-pressed={selected}
+                data-testid={`${testIdPrefix}compare-model-${model.id}`}
+              >
+                {model.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Cockpit form: [Left Col] [Textarea] [Right Col] */}
       <form onSubmit={handleSubmit} className="flex gap-3 items-start">
         <input
@@ -279,27 +415,38 @@ export function ChatInput({ onSend, disabled, placeholder = "Type your message h
           >
             <Paperclip className="w-5 h-5" />
           </button>
-          <button
-            type="button"
-            disabled
-            className="border-2 border-border bg-card text-muted-foreground flex items-center justify-center opacity-35 cursor-not-allowed"
-            style={{
-              boxShadow: "2px 2px 0px hsl(var(--border))",
-              width: `${COCKPIT_BTN_SIZE}px`,
-              height: `${COCKPIT_BTN_SIZE}px`,
-            }}
-            data-testid={`${testIdPrefix}button-library`}
-            title="Library (coming soon)"
+          <LedgerPicker
+            open={ledgerPickerOpen}
+            onOpenChange={setLedgerPickerOpen}
+            conversationId={conversationId}
+            projectId={projectId}
+            initialQuery={ledgerMention?.query}
+            attached={pendingLedgers}
+            onPick={attachLedger}
+            testIdPrefix={testIdPrefix}
           >
-            <Library className="w-4 h-4" />
-          </button>
+            <button
+              type="button"
+              disabled={disabled || pendingLedgers.length >= MAX_ATTACHED_LEDGERS}
+              className="border-2 border-border bg-card text-card-foreground flex items-center justify-center hover-elevate active-elevate-2 disabled:opacity-60 disabled:cursor-not-allowed"
+              style={{
+                boxShadow: "4px 4px 0px hsl(var(--border))",
+                width: `${COCKPIT_BTN_SIZE}px`,
+                height: `${COCKPIT_BTN_SIZE}px`,
+              }}
+              data-testid={`${testIdPrefix}button-library`}
+              title="Attach ledger (or type @ledger)"
+            >
+              <Library className="w-4 h-4" />
+            </button>
+          </LedgerPicker>
         </div>
 
         {/* Center — auto-growing textarea */}
         <textarea
           ref={textareaRef}
           value={message}
-          onChange={(e) => handleMessageChange(e.target.value)}
+          onChange={(e) => handleMessageChange(e.target.value, e.target.selectionStart)}
           onKeyDown={handleKeyDown}
           placeholder={placeholder}
           disabled={disabled}
@@ -337,21 +484,57 @@ export function ChatInput({ onSend, disabled, placeholder = "Type your message h
             </Tooltip>
           )}
           <div className="flex gap-2">
-            <button
-              type="submit"
-              disabled={disabled || (!message.trim() && pendingFiles.length === 0)}
-              className="border-2 border-border bg-card text-card-foreground flex items-center justify-center hover-elevate active-elevate-2 disabled:opacity-60 disabled:cursor-not-allowed"
-              style={{
-                boxShadow: "4px 4px 0px hsl(var(--border))",
-                width: `${COCKPIT_BTN_SIZE}px`,
-                height: `${COCKPIT_BTN_SIZE}px`,
-              }}
-              data-testid={`${testIdPrefix}button-send`}
-              title="Send message"
-              aria-label="Send message"
-            >
-              <ArrowUp className="w-5 h-5" />
-            </button>
+            {onStop ? (
+              <button
+                type="button"
+                onClick={onStop}
+                className="border-2 border-destructive bg-card text-destructive flex items-center justify-center hover-elevate active-elevate-2"
+                style={{
+                  boxShadow: "4px 4px 0px hsl(var(--destructive))",
+                  width: `${COCKPIT_BTN_SIZE}px`,
+                  height: `${COCKPIT_BTN_SIZE}px`,
+                }}
+                data-testid={`${testIdPrefix}button-stop`}
+                title="Stop generating"
+                aria-label="Stop generating"
+              >
+                <Square className="w-4 h-4 fill-current" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={disabled || !compareReady || !hasContent}
+                className="border-2 border-border bg-card text-card-foreground flex items-center justify-center hover-elevate active-elevate-2 disabled:opacity-60 disabled:cursor-not-allowed"
+                style={{
+                  boxShadow: "4px 4px 0px hsl(var(--border))",
+                  width: `${COCKPIT_BTN_SIZE}px`,
+                  height: `${COCKPIT_BTN_SIZE}px`,
+                }}
+                data-testid={`${testIdPrefix}button-send`}
+                title={isComparing ? "Send to selected models" : "Send message"}
+                aria-label={isComparing ? "Send to selected models" : "Send message"}
+              >
+                <ArrowUp className="w-5 h-5" />
+              </button>
+            )}
+            {onCompare && (
+              <button
+                type="button"
+                onClick={toggleCompareMode}
+                disabled={disabled}
+                className={`border-2 flex items-center justify-center hover-elevate active-elevate-2 disabled:opacity-60 disabled:cursor-not-allowed ${compareMode ? "border-foreground bg-foreground text-background" : "border-border bg-card text-card-foreground"}`}
+                style={{
+                  boxShadow: "4px 4px 0px hsl(var(--border))",
+                  width: `${COCKPIT_BTN_SIZE}px`,
+                  height: `${COCKPIT_BTN_SIZE}px`,
+                }}
+                aria-pressed={compareMode}
+                data-testid={`${testIdPrefix}button-compare`}
+                title={compareMode ? "Compare mode on" : "Compare models side by side"}
+              >
+                <Columns2 className="w-4 h-4" />
+              </button>
+            )}
             <button
               type="button"
               disabled
@@ -1,13 +1,16 @@
 import { useState, memo } from "react";
-import { type Message, type MessageFile, modelOptions } from "@shared/schema";
+import { type Message, type MessageFile, CONTINUABLE_STOP_REASONS } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
 import { MessageActions } from "./MessageActions";
 import { BranchNavigator } from "./BranchNavigator";
+import { ReasoningBlock } from "./ReasoningBlock";
+import { ToolCallBlock } from "./ToolCallBlock";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
-import { Check, X, MessageSquarePlus, File, FileText, FileCode, Image as ImageIcon } from "lucide-react";
+import { Check, X, MessageSquarePlus, File, FileText, FileCode, Image as ImageIcon, Library } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { extractLedgerChips, type LedgerChipInfo } from "@/lib/ledgerParser";
+import { extractLedgerChips, type LedgerChipInfo } from "@shared/ledgerParser";
 
 interface ChatMessageProps {
   message: Message;
@@ -16,10 +19,11 @@ interface ChatMessageProps {
   siblingIndex?: number;
   onEdit?: (messageId: number, newContent: string) => void;
   onRegenerate?: (messageId: number) => void;
+  onContinue?: (messageId: number) => void;
   onDelete?: (messageId: number) => void;
   onBranchNavigate?: (parentId: number | null, direction: "prev" | "next") => void;
   onOpenThread?: (messageId: number) => void;
-  onLedgerChipClick?: (ledgerId: number, title: string) => void;
+  onLedgerChipClick?: (ledgerId: number, title: string, version?: number) => void;
 }
 
 const LEDGER_TYPE_LABEL: Record<string, string> = {
@@ -28,9 +32,25 @@ const LEDGER_TYPE_LABEL: Record<string, string> = {
   code: "CODE",
   note: "NOTE",
   draft: "DRAFT",
+  diagram: "DIAGRAM",
+  table: "TABLE",
+  html: "HTML",
+  chart: "CHART",
 };
 
-function LedgerChip({ chip, onClick }: { chip: LedgerChipInfo; onClick: () => void }) {
+export function LedgerChip({ chip, onClick }: { chip: LedgerChipInfo; onClick: () => void }) {
+  if (chip.deleted) {
+    return (
+      <div
+        className="flex items-center gap-2 border-2 border-dashed border-border px-3 py-2 font-mono text-xs text-muted-foreground"
+        data-testid={`ledger-chip-deleted-${chip.title}`}
+      >
+        <span className="whitespace-nowrap">Ledger Deleted:</span>
+        <span className="font-bold truncate max-w-[200px] line-through">{chip.title}</span>
+      </div>
+    );
+  }
+
   return (
     <button
       onClick={onClick}
@@ -38,8 +58,17 @@ function LedgerChip({ chip, onClick }: { chip: LedgerChipInfo; onClick: () => vo
       style={{ boxShadow: "3px 3px 0px hsl(var(--border))" }}
       data-testid={`ledger-chip-${chip.title}`}
     >
-      <span className="text-muted-foreground whitespace-nowrap">Ledger Generated:</span>
-      <span className="font-bold truncate max-w-[200px] text-foreground">{chip.title}</span>
+      {chip.version !== undefined && chip.version > 1 ? (
+        <>
+          <span className="text-muted-foreground whitespace-nowrap">Ledger Revised:</span>
+          <span className="font-bold truncate max-w-[200px] text-foreground">v{chip.version} of {chip.title}</span>
+        </>
+      ) : (
+        <>
+          <span className="text-muted-foreground whitespace-nowrap">Ledger Generated:</span>
+          <span className="font-bold truncate max-w-[200px] text-foreground">{chip.title}</span>
+        </>
+      )}
     </button>
   );
 }
@@ -80,6 +109,7 @@ export const ChatMessage = memo(function ChatMessage({
   siblingIndex = 0,
   onEdit, 
   onRegenerate, 
+  onContinue,
   onDelete,
   onBranchNavigate,
   onOpenThread,
@@ -114,11 +144,7 @@ export const ChatMessage = memo(function ChatMessage({
     }
   };
   
-  const getModelLabel = (modelValue?: string | null) => {
-    if (!modelValue) return "";
-    const model = modelOptions.find(m => m.value === modelValue);
-    return model ? model.label : modelValue;
-  };
+  const { getModelLabel } = useModels();
 
   const handleEdit = () => {
     setIsEditing(true);
@@ -143,6 +169,14 @@ export const ChatMessage = memo(function ChatMessage({
     }
   };
 
+  const canContinue = !isUser && !!onContinue && CONTINUABLE_STOP_REASONS.includes(message.stopReason ?? "");
+
+  const handleContinue = () => {
+    if (onContinue) {
+      onContinue(message.id);
+    }
+  };
+
   const handleDelete = () => {
     if (onDelete && confirm("Delete this message?")) {
       onDelete(message.id);
@@ -151,6 +185,7 @@ export const ChatMessage = memo(function ChatMessage({
 
   return (
     <div
+      id={`message-${message.id}`}
       className={`flex ${isUser ? "justify-end" : "justify-start"} mb-4 group px-4`}
       data-testid={`message-${message.role}-${message.id}`}
     >
@@ -163,6 +198,21 @@ export const ChatMessage = memo(function ChatMessage({
                 • {getModelLabel(message.model)}
               </span>
             )}
+            {message.stopReason === "stopped" && !isUser && (
+              <span className="text-[10px] text-destructive" data-testid={`stopped-label-${message.id}`}>
+                • Stopped
+              </span>
+            )}
+            {message.stopReason === "max_tokens" && !isUser && (
+              <span className="text-[10px] text-destructive" data-testid={`cutoff-label-${message.id}`}>
+                • Cut off
+              </span>
+            )}
+            {message.stopReason === "error" && !isUser && (
+              <span className="text-[10px] text-destructive" data-testid={`failed-label-${message.id}`}>
+                • Failed
+              </span>
+            )}
             {hasBranches && (
               <BranchNavigator
                 currentIndex={siblingIndex}
@@ -191,6 +241,7 @@ export const ChatMessage = memo(function ChatMessage({
                 onEdit={handleEdit}
                 onRegenerate={handleRegenerate}
                 onDelete={handleDelete}
+                onContinue={canContinue ? handleContinue : undefined}
               />
             )}
           </div>
@@ -267,6 +318,33 @@ export const ChatMessage = memo(function ChatMessage({
           </div>
         )}
         
+        {message.attachedLedgers && message.attachedLedgers.length > 0 && (
+          <div className="mb-3 flex flex-wrap gap-2" data-testid={`attached-ledgers-${message.id}`}>
+            {message.attachedLedgers.map((ref) => (
+              <button
+                key={`${ref.ledgerId}-${ref.versionNumber}`}
+                onClick={() => onLedgerChipClick?.(ref.ledgerId, ref.title, ref.versionNumber)}
+                className="flex items-center gap-2 border-2 border-border bg-card px-3 py-2 font-mono text-xs hover-elevate active-elevate-2"
+                style={{ boxShadow: "2px 2px 0px hsl(var(--border))" }}
+                title={`Sent ${ref.title} as it was at v${ref.versionNumber}`}
+                data-testid={`attached-ledger-${message.id}-${ref.ledgerId}`}
+              >
+                <Library className="w-4 h-4" />
+                <span className="font-semibold truncate max-w-[180px]">{ref.title}</span>
+                <span className="text-muted-foreground">v{ref.versionNumber}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!isUser && message.thinking && (
+          <ReasoningBlock thinking={message.thinking} testId={`reasoning-${message.id}`} />
+        )}
+
+        {!isUser && message.toolCalls?.map((toolCall) => (
+          <ToolCallBlock key={toolCall.id} toolCall={toolCall} />
+        ))}
+
         <div 
           className="break-words leading-relaxed prose prose-sm dark:prose-invert max-w-none prose-headings:font-mono prose-headings:uppercase prose-headings:tracking-wider prose-code:before:content-none prose-code:after:content-none prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-muted prose-pre:border-2 prose-pre:border-border"
           data-testid={`text-message-content-${message.id}`}
@@ -304,7 +382,7 @@ export const ChatMessage = memo(function ChatMessage({
               <LedgerChip
                 key={`${chip.id}-${idx}`}
                 chip={chip}
-                onClick={() => onLedgerChipClick?.(chip.id, chip.title)}
+                onClick={() => onLedgerChipClick?.(chip.id, chip.title, chip.version)}
               />
             ))}
           </div>
@@ -1,7 +1,13 @@
-import { useEffect, useRef, useCallback, useMemo } from "react";
-import { type Message, type MessageFile } from "@shared/schema";
-import { ChatMessage } from "./ChatMessage";
+import { Fragment, useEffect, useRef, useCallback, useMemo } from "react";
+import { type Message, type MessageFile, type ToolCallRecord, type CompactionInfo, type ProjectContextInfo } from "@shared/schema";
+import { ChatMessage, LedgerChip } from "./ChatMessage";
+import { ReasoningBlock } from "./ReasoningBlock";
+import { ToolCallBlock } from "./ToolCallBlock";
+import { CompactionMarker } from "./CompactionMarker";
+import { ProjectContextMarker } from "./ProjectContextMarker";
+import { CompareColumns, compareColumnFromMessage, type CompareColumn } from "./CompareColumns";
 import { getSiblings, type BranchSelection } from "@/lib/messageTree";
+import { type LedgerChipInfo } from "@shared/ledgerParser";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 
@@ -13,13 +19,25 @@ interface ChatWindowProps {
   branchSelections: BranchSelection;
   isStreaming: boolean;
   streamingContent: string;
+  streamingThinking?: string;
+  streamingToolCalls?: ToolCallRecord[];
+  streamingCompaction?: CompactionInfo | null;
+  streamingProjectContext?: ProjectContextInfo | null;
+  // Per-model columns while a compare send is streaming
+  streamingCompare?: CompareColumn[] | null;
+  // Ledgers the server saved from the streaming reply so far
+  streamingLedgers?: LedgerChipInfo[];
   pendingUserMessage?: string | null;
+  // Reply being extended in place; the streaming block renders it instead
+  continuingMessageId?: number | null;
   onEditMessage?: (messageId: number, newContent: string) => void;
   onRegenerateMessage?: (messageId: number) => void;
+  onContinueMessage?: (messageId: number) => void;
   onDeleteMessage?: (messageId: number) => void;
   onBranchNavigate?: (parentId: number | null, direction: "prev" | "next") => void;
+  onSelectBranch?: (messageId: number) => void;
   onOpenThread?: (messageId: number) => void;
-  onLedgerChipClick?: (ledgerId: number, title: string) => void;
+  onLedgerChipClick?: (ledgerId: number, title: string, version?: number) => void;
 }
 
 export function ChatWindow({
@@ -30,11 +48,20 @@ export function ChatWindow({
   branchSelections,
   isStreaming,
   streamingContent,
+  streamingThinking = "",
+  streamingToolCalls = [],
+  streamingCompaction = null,
+  streamingProjectContext = null,
+  streamingCompare = null,
+  streamingLedgers = [],
   pendingUserMessage,
+  continuingMessageId = null,
   onEditMessage,
   onRegenerateMessage,
+  onContinueMessage,
   onDeleteMessage,
   onBranchNavigate,
+  onSelectBranch,
   onOpenThread,
   onLedgerChipClick,
 }: ChatWindowProps) {
@@ -63,7 +90,7 @@ export function ChatWindow({
   }, [activePath.length, isStreaming, scrollToBottom]);
 
   useEffect(() => {
-    if (isStreaming && streamingContent) {
+    if (isStreaming && (streamingContent || streamingCompare)) {
       scrollToBottom(false);
     }
     
@@ -72,7 +99,7 @@ export function ChatWindow({
     }
     
     wasStreamingRef.current = isStreaming;
-  }, [isStreaming, streamingContent, scrollToBottom]);
+  }, [isStreaming, streamingContent, streamingCompare, scrollToBottom]);
 
   const displayMessages = activePath.length > 0 ? activePath : messages;
 
@@ -114,23 +141,52 @@ export function ChatWindow({
       )}
 
       {displayMessages.map((message) => {
+        if (isStreaming && message.id === continuingMessageId) return null;
         const siblingData = siblingsMap.get(message.id) || { siblings: [], index: 0 };
         const files = filesMap.get(message.id) || [];
+        // Replies from one compare send render side by side; picking a column makes it the active branch
+        const compareGroup = message.compareGroup
+          ? siblingData.siblings.filter((sibling) => sibling.compareGroup === message.compareGroup)
+          : [];
+        if (compareGroup.length > 1) {
+          return (
+            <Fragment key={message.id}>
+              {message.projectContext && (
+                <ProjectContextMarker projectContext={message.projectContext} testId={`project-context-marker-${message.id}`} />
+              )}
+              <CompareColumns
+                columns={compareGroup.map(compareColumnFromMessage)}
+                activeMessageId={message.id}
+                onSelect={onSelectBranch}
+                onLedgerChipClick={onLedgerChipClick}
+                testId={`compare-group-${message.compareGroup}`}
+              />
+            </Fragment>
+          );
+        }
         
         return (
-          <ChatMessage 
-            key={message.id} 
-            message={message}
-            files={files}
-            siblings={siblingData.siblings}
-            siblingIndex={siblingData.index}
-            onEdit={onEditMessage}
-            onRegenerate={onRegenerateMessage}
-            onDelete={onDeleteMessage}
-            onBranchNavigate={onBranchNavigate}
-            onOpenThread={onOpenThread}
-            onLedgerChipClick={onLedgerChipClick}
-          />
+          <Fragment key={message.id}>
+            {message.compaction && (
+              <CompactionMarker compaction={message.compaction} testId={`compaction-marker-${message.id}`} />
+            )}
+            {message.projectContext && (
+              <ProjectContextMarker projectContext={message.projectContext} testId={`project-context-marker-${message.id}`} />
+            )}
+            <ChatMessage 
+              message={message}
+              files={files}
+              siblings={siblingData.siblings}
+              siblingIndex={siblingData.index}
+              onEdit={onEditMessage}
+              onRegenerate={onRegenerateMessage}
+              onContinue={onContinueMessage}
+              onDelete={onDeleteMessage}
+              onBranchNavigate={onBranchNavigate}
+              onOpenThread={onOpenThread}
+              onLedgerChipClick={onLedgerChipClick}
+            />
+          </Fragment>
         );
       })}
 
@@ -147,12 +203,30 @@ export function ChatWindow({
         </div>
       )}
 
-      {isStreaming && (
+      {isStreaming && streamingCompaction && (
+        <CompactionMarker compaction={streamingCompaction} testId="streaming-compaction-marker" />
+      )}
+
+      {isStreaming && streamingProjectContext && (
+        <ProjectContextMarker projectContext={streamingProjectContext} testId="streaming-project-context-marker" />
+      )}
+
+      {isStreaming && streamingCompare && (
+        <CompareColumns columns={streamingCompare} onLedgerChipClick={onLedgerChipClick} testId="streaming-compare" />
+      )}
+
+      {isStreaming && !streamingCompare && (
         <div className="flex justify-start mb-4 px-4" data-testid="streaming-message">
           <div className="max-w-[75%] p-4">
             <div className="flex items-center gap-2 mb-2 text-xs font-semibold uppercase tracking-wider">
               <span>Claude</span>
             </div>
+            {streamingThinking && (
+              <ReasoningBlock thinking={streamingThinking} isStreaming={!streamingContent} testId="streaming-reasoning" />
+            )}
+            {streamingToolCalls.map((toolCall) => (
+              <ToolCallBlock key={toolCall.id} toolCall={toolCall} testId={`streaming-tool-call-${toolCall.id}`} />
+            ))}
             <div className="break-words leading-relaxed prose prose-sm dark:prose-invert max-w-none prose-headings:font-mono prose-headings:uppercase prose-headings:tracking-wider prose-code:before:content-none prose-code:after:content-none prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-muted prose-pre:border-2 prose-pre:border-border">
               <ReactMarkdown remarkPlugins={[remarkGfm]}>
                 {streamingContent}
@@ -161,6 +235,17 @@ export function ChatWindow({
                 <span className="inline-block animate-blink ml-1">▌</span>
               )}
             </div>
+            {streamingLedgers.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3" data-testid="streaming-ledger-chips">
+                {streamingLedgers.map((chip, idx) => (
+                  <LedgerChip
+                    key={`${chip.id}-${idx}`}
+                    chip={chip}
+                    onClick={() => onLedgerChipClick?.(chip.id, chip.title, chip.version)}
+                  />
+                ))}
+              </div>
+            )}
           </div>
         </div>
       )}
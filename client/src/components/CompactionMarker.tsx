@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { ChevronRight, ChevronDown } from "lucide-react";
+import { type CompactionInfo } from "@shared/schema";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+interface CompactionMarkerProps {
+  compaction: CompactionInfo;
+  testId?: string;
+}
+
+function describeCompaction(compaction: CompactionInfo): string {
+  const parts: string[] = [];
+  if (compaction.strippedAttachments > 0) {
+    parts.push(`${compaction.strippedAttachments} ${compaction.strippedAttachments === 1 ? "attachment" : "attachments"} stripped`);
+  }
+  if (compaction.droppedMessages > 0) {
+    const noun = compaction.droppedMessages === 1 ? "message" : "messages";
+    parts.push(compaction.summary
+      ? `${compaction.droppedMessages} earlier ${noun} summarized`
+      : `${compaction.droppedMessages} earlier ${noun} dropped`);
+  }
+  return parts.length > 0 ? parts.join(", ") : "history trimmed";
+}
+
+// Divider shown above a reply whose history was compacted to fit the model's context window
+export function CompactionMarker({ compaction, testId = "compaction-marker" }: CompactionMarkerProps) {
+  const [open, setOpen] = useState(false);
+  const label = `Context compacted: ${describeCompaction(compaction)}`;
+
+  return (
+    <div className="flex flex-col items-center my-2 px-4" data-testid={testId}>
+      <div className="flex items-center gap-2 w-full">
+        <div className="flex-1 border-t-2 border-dashed border-border" />
+        {compaction.summary ? (
+          <Collapsible open={open} onOpenChange={setOpen}>
+            <CollapsibleTrigger
+              className="flex items-center gap-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground hover-elevate px-1 py-0.5"
+              title={`~${compaction.tokensBefore.toLocaleString()} → ~${compaction.tokensAfter.toLocaleString()} tokens`}
+              data-testid={`button-toggle-${testId}`}
+            >
+              {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              <span>{label}</span>
+            </CollapsibleTrigger>
+          </Collapsible>
+        ) : (
+          <span
+            className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground"
+            title={`~${compaction.tokensBefore.toLocaleString()} → ~${compaction.tokensAfter.toLocaleString()} tokens`}
+          >
+            {label}
+          </span>
+        )}
+        <div className="flex-1 border-t-2 border-dashed border-border" />
+      </div>
+      {open && compaction.summary && (
+        <div
+          className="mt-2 max-w-[75%] border-l-2 border-border pl-3 font-mono text-xs text-muted-foreground whitespace-pre-wrap break-words"
+          data-testid={`${testId}-summary`}
+        >
+          {compaction.summary}
+        </div>
+      )}
+    </div>
+  );
+}
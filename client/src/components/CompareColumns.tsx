@@ -0,0 +1,163 @@
+import { type Message, type ToolCallRecord } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
+import { ReasoningBlock } from "./ReasoningBlock";
+import { ToolCallBlock } from "./ToolCallBlock";
+import { Button } from "@/components/ui/button";
+import { extractLedgerChips, type LedgerChipInfo } from "@shared/ledgerParser";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+
+// One model's reply in a compare group, either streaming or saved
+export interface CompareColumn {
+  model: string;
+  content: string;
+  thinking: string;
+  toolCalls: ToolCallRecord[];
+  // Ledgers saved while streaming; saved replies carry them as sentinels in `content`
+  ledgers: LedgerChipInfo[];
+  stopReason: string | null;
+  error: string | null;
+  costUsd: number | null;
+  latencyMs: number | null;
+  // Set once the reply is saved; only saved replies can become the active branch
+  messageId: number | null;
+  isStreaming: boolean;
+}
+
+export function compareColumnFromMessage(message: Message): CompareColumn {
+  return {
+    model: message.model ?? "",
+    content: message.content,
+    thinking: message.thinking ?? "",
+    toolCalls: message.toolCalls ?? [],
+    ledgers: [],
+    stopReason: message.stopReason,
+    error: null,
+    costUsd: message.costUsd,
+    latencyMs: message.latencyMs,
+    messageId: message.id,
+    isStreaming: false,
+  };
+}
+
+// Static class names so Tailwind keeps them
+const GRID_COLUMNS: Record<number, string> = {
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-3",
+  4: "md:grid-cols-2 xl:grid-cols-4",
+};
+
+function formatCost(costUsd: number): string {
+  return costUsd < 0.01 ? `$${costUsd.toFixed(4)}` : `$${costUsd.toFixed(2)}`;
+}
+
+function formatLatency(latencyMs: number): string {
+  return `${(latencyMs / 1000).toFixed(1)}s`;
+}
+
+interface CompareColumnsProps {
+  columns: CompareColumn[];
+  activeMessageId?: number | null;
+  onSelect?: (messageId: number) => void;
+  onLedgerChipClick?: (ledgerId: number, title: string, version?: number) => void;
+  testId?: string;
+}
+
+export function CompareColumns({ columns, activeMessageId = null, onSelect, onLedgerChipClick, testId = "compare-columns" }: CompareColumnsProps) {
+  const { getModelLabel } = useModels();
+
+  return (
+    <div className={`grid grid-cols-1 ${GRID_COLUMNS[columns.length] ?? "md:grid-cols-2"} gap-4 mb-4 px-4`} data-testid={testId}>
+      {columns.map((column) => {
+        const isActive = column.messageId !== null && column.messageId === activeMessageId;
+        const { chips: contentChips, cleanContent } = extractLedgerChips(column.content);
+        const chips = [...contentChips, ...column.ledgers];
+
+        return (
+          <div
+            key={column.model}
+            className={`flex flex-col min-w-0 border-2 bg-card ${isActive ? "border-foreground" : "border-border"}`}
+            style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}
+            data-testid={`${testId}-column-${column.model}`}
+          >
+            <div className="flex items-center justify-between gap-2 border-b-2 border-border px-3 py-2">
+              <span className="font-mono text-xs font-semibold uppercase tracking-wider truncate">
+                {getModelLabel(column.model)}
+              </span>
+              {isActive ? (
+                <span className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground" data-testid={`${testId}-active-${column.model}`}>
+                  Active
+                </span>
+              ) : column.messageId !== null && onSelect ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-6 px-2 font-mono text-[10px] uppercase tracking-wider"
+                  onClick={() => onSelect(column.messageId!)}
+                  data-testid={`${testId}-use-${column.model}`}
+                >
+                  Use this
+                </Button>
+              ) : null}
+            </div>
+
+            <div className="flex-1 p-3 max-h-[480px] overflow-y-auto">
+              {column.thinking && (
+                <ReasoningBlock
+                  thinking={column.thinking}
+                  isStreaming={column.isStreaming && !column.content}
+                  testId={`${testId}-reasoning-${column.model}`}
+                />
+              )}
+              {column.toolCalls.map((toolCall) => (
+                <ToolCallBlock key={toolCall.id} toolCall={toolCall} testId={`${testId}-tool-call-${toolCall.id}`} />
+              ))}
+              <div className="break-words leading-relaxed prose prose-sm dark:prose-invert max-w-none prose-headings:font-mono prose-headings:uppercase prose-headings:tracking-wider prose-code:before:content-none prose-code:after:content-none prose-code:bg-muted prose-code:px-1 prose-code:py-0.5 prose-code:rounded prose-pre:bg-muted prose-pre:border-2 prose-pre:border-border">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>{cleanContent}</ReactMarkdown>
+                {column.isStreaming && <span className="inline-block animate-blink ml-1">▌</span>}
+              </div>
+              {column.error && (
+                <div className="mt-2 font-mono text-xs text-destructive" data-testid={`${testId}-error-${column.model}`}>
+                  {column.error}
+                </div>
+              )}
+              {chips.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {chips.map((chip, idx) => chip.deleted ? (
+                    <span
+                      key={`${chip.id}-${idx}`}
+                      className="border-2 border-dashed border-border px-2 py-1 font-mono text-xs text-muted-foreground line-through truncate max-w-[200px]"
+                      data-testid={`${testId}-ledger-chip-deleted-${chip.title}`}
+                    >
+                      {chip.title}
+                    </span>
+                  ) : (
+                    <button
+                      key={`${chip.id}-${idx}`}
+                      onClick={() => onLedgerChipClick?.(chip.id, chip.title, chip.version)}
+                      className="border-2 border-border bg-card px-2 py-1 font-mono text-xs font-bold truncate max-w-[200px] hover-elevate active-elevate-2"
+                      data-testid={`${testId}-ledger-chip-${chip.title}`}
+                    >
+                      {chip.version !== undefined && chip.version > 1 ? `v${chip.version} of ${chip.title}` : chip.title}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div
+              className="flex items-center gap-3 border-t-2 border-border px-3 py-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground"
+              data-testid={`${testId}-stats-${column.model}`}
+            >
+              <span>{column.costUsd !== null ? formatCost(column.costUsd) : "—"}</span>
+              <span>{column.latencyMs !== null ? formatLatency(column.latencyMs) : column.isStreaming ? "Running..." : "—"}</span>
+              {column.stopReason === "stopped" && <span className="text-destructive">Stopped</span>}
+              {column.stopReason === "max_tokens" && <span className="text-destructive">Cut off</span>}
+              {column.stopReason === "error" && <span className="text-destructive">Failed</span>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
-import { useState, useRef, forwardRef, useImperativeHandle } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { type Ledger } from "@shared/schema";
-import { X } from "lucide-react";
+import { useState, useEffect, useMemo, forwardRef, useImperativeHandle } from "react";
+import { type Ledger, type LedgerType, LEDGER_TYPES } from "@shared/schema";
+import { useLedgers, type LedgerScopeFilter, type LedgerSearchFilter } from "@/hooks/use-ledgers";
+import { Archive, Pin, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { LedgerViewer } from "./LedgerViewer";
 
 export interface ContextDeckHandle {
-  openLedger: (id: number) => void;
+  // `version` opens that version of the ledger instead of the latest
+  openLedger: (id: number, version?: number) => void;
 }
 
 const LEDGER_TYPE_STYLES: Record<string, { border: string; text: string }> = {
@@ -15,6 +17,10 @@ const LEDGER_TYPE_STYLES: Record<string, { border: string; text: string }> = {
   code:   { border: "border-green-500", text: "text-green-500" },
   note:   { border: "border-purple-500", text: "text-purple-500" },
   draft:  { border: "border-muted-foreground", text: "text-muted-foreground" },
+  diagram: { border: "border-cyan-500", text: "text-cyan-500" },
+  table:  { border: "border-orange-500", text: "text-orange-500" },
+  html:   { border: "border-pink-500", text: "text-pink-500" },
+  chart:  { border: "border-red-500", text: "text-red-500" },
 };
 
 function relativeTime(date: string | Date | null): string {
@@ -31,29 +37,89 @@ function relativeTime(date: string | Date | null): string {
   return `${days}d ago`;
 }
 
+type LedgerScopeTab = LedgerScopeFilter["kind"];
+
+const SCOPE_TABS: Array<{ kind: LedgerScopeTab; label: string }> = [
+  { kind: "conversation", label: "This chat" },
+  { kind: "project", label: "This project" },
+  { kind: "all", label: "All" },
+];
+
+type UpdatedRange = "any" | "day" | "week" | "month";
+
+const UPDATED_RANGES: Array<{ range: UpdatedRange; label: string; days: number | null }> = [
+  { range: "any", label: "Any time", days: null },
+  { range: "day", label: "24h", days: 1 },
+  { range: "week", label: "7d", days: 7 },
+  { range: "month", label: "30d", days: 30 },
+];
+
+// Typing pauses this long before the search hits the server
+const SEARCH_DEBOUNCE_MS = 300;
+
+const EMPTY_SCOPE_TITLES: Record<LedgerScopeTab, string> = {
+  conversation: "No ledgers in this chat",
+  project: "No ledgers in this project",
+  all: "No ledgers yet",
+};
+
 interface ContextDeckProps {
+  conversationId: number | null;
+  projectId: number | null;
   onClose: () => void;
+  // Jumps to the chat message that wrote a ledger version
+  onOpenMessage?: (conversationId: number, messageId: number) => void;
 }
 
 export const ContextDeck = forwardRef<ContextDeckHandle, ContextDeckProps>(
-  function ContextDeck({ onClose }, ref) {
+  function ContextDeck({ conversationId, projectId, onClose, onOpenMessage }, ref) {
     const [activeTab, setActiveTab] = useState<"ledgers" | "context">("ledgers");
     const [selectedLedgerId, setSelectedLedgerId] = useState<number | null>(null);
+    const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+
+    const [scopeTab, setScopeTab] = useState<LedgerScopeTab>(conversationId !== null ? "conversation" : "all");
+
+    // A new chat has nothing of its own yet, and a chat outside a project has no project list
+    useEffect(() => {
+      setScopeTab(conversationId !== null ? "conversation" : "all");
+    }, [conversationId]);
+
+    const [searchInput, setSearchInput] = useState("");
+    const [query, setQuery] = useState("");
+    const [types, setTypes] = useState<LedgerType[]>([]);
+    const [updatedRange, setUpdatedRange] = useState<UpdatedRange>("any");
+    const [showArchived, setShowArchived] = useState(false);
 
-    const { data: ledgers = [], isLoading, isError } = useQuery<Ledger[]>({
-      queryKey: ["/api/ledgers"],
-      refetchInterval: 15000,
-    });
+    useEffect(() => {
+      const timer = setTimeout(() => setQuery(searchInput), SEARCH_DEBOUNCE_MS);
+      return () => clearTimeout(timer);
+    }, [searchInput]);
+
+    // Fixed when the range is picked, so polling doesn't get a new query key every render
+    const since = useMemo(() => {
+      const days = UPDATED_RANGES.find(({ range }) => range === updatedRange)?.days;
+      return days ? new Date(Date.now() - days * 86_400_000).toISOString() : undefined;
+    }, [updatedRange]);
+
+    const filter: LedgerSearchFilter = { query, types, since, archived: showArchived };
+    const isFiltered = query.trim() !== "" || types.length > 0 || since !== undefined || showArchived;
+
+    const scope: LedgerScopeFilter = scopeTab === "all"
+      ? { kind: "all" }
+      : { kind: scopeTab, id: scopeTab === "conversation" ? conversationId : projectId };
+    const { ledgers, isLoading, isError } = useLedgers(scope, { refetchInterval: 15000, filter });
 
     useImperativeHandle(ref, () => ({
-      openLedger(id: number) {
+      openLedger(id: number, version?: number) {
         setActiveTab("ledgers");
         setSelectedLedgerId(id);
+        setSelectedVersion(version ?? null);
       },
     }));
 
     const handleLedgerClick = (id: number) => {
       setSelectedLedgerId(id);
+      setSelectedVersion(null);
     };
 
     const handleBack = () => {
@@ -98,10 +164,25 @@ export const ContextDeck = forwardRef<ContextDeckHandle, ContextDeckProps>(
             selectedLedgerId !== null ? (
               <LedgerViewer
                 ledgerId={selectedLedgerId}
+                versionNumber={selectedVersion}
+                onVersionChange={setSelectedVersion}
+                onOpenMessage={onOpenMessage}
                 onBack={handleBack}
               />
             ) : (
               <LedgersPanel
+                scopeTab={scopeTab}
+                onScopeChange={setScopeTab}
+                availableScopes={{ conversation: conversationId !== null, project: projectId !== null, all: true }}
+                searchInput={searchInput}
+                onSearchChange={setSearchInput}
+                types={types}
+                onTypesChange={setTypes}
+                updatedRange={updatedRange}
+                onUpdatedRangeChange={setUpdatedRange}
+                showArchived={showArchived}
+                onShowArchivedChange={setShowArchived}
+                isFiltered={isFiltered}
                 ledgers={ledgers}
                 isLoading={isLoading}
                 isError={isError}
@@ -144,12 +225,96 @@ function TabButton({
   );
 }
 
-function LedgersPanel({
+function LedgersPanel(props: {
+  scopeTab: LedgerScopeTab;
+  onScopeChange: (scope: LedgerScopeTab) => void;
+  availableScopes: Record<LedgerScopeTab, boolean>;
+  searchInput: string;
+  onSearchChange: (value: string) => void;
+  types: LedgerType[];
+  onTypesChange: (types: LedgerType[]) => void;
+  updatedRange: UpdatedRange;
+  onUpdatedRangeChange: (range: UpdatedRange) => void;
+  showArchived: boolean;
+  onShowArchivedChange: (show: boolean) => void;
+  isFiltered: boolean;
+  ledgers: Ledger[];
+  isLoading: boolean;
+  isError: boolean;
+  onLedgerClick: (id: number) => void;
+}) {
+  const { scopeTab, onScopeChange, availableScopes, types, onTypesChange, updatedRange, onUpdatedRangeChange } = props;
+
+  const toggleType = (type: LedgerType) => {
+    onTypesChange(types.includes(type) ? types.filter((t) => t !== type) : [...types, type]);
+  };
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex items-center gap-1 px-3 pt-3" data-testid="ledger-scope-tabs">
+        {SCOPE_TABS.filter(({ kind }) => availableScopes[kind]).map(({ kind, label }) => (
+          <TabButton
+            key={kind}
+            label={label}
+            active={scopeTab === kind}
+            onClick={() => onScopeChange(kind)}
+            testId={`tab-ledger-scope-${kind}`}
+          />
+        ))}
+      </div>
+      <div className="px-3 pt-3 space-y-2" data-testid="ledger-filters">
+        <Input
+          value={props.searchInput}
+          onChange={(e) => props.onSearchChange(e.target.value)}
+          placeholder="Search titles and content..."
+          className="h-8 rounded-none border-2 font-mono text-xs"
+          data-testid="input-ledger-search"
+        />
+        <div className="flex flex-wrap items-center gap-1">
+          {LEDGER_TYPES.map((type) => (
+            <TabButton
+              key={type}
+              label={type}
+              active={types.includes(type)}
+              onClick={() => toggleType(type)}
+              testId={`filter-ledger-type-${type}`}
+            />
+          ))}
+        </div>
+        <div className="flex flex-wrap items-center gap-1">
+          {UPDATED_RANGES.map(({ range, label }) => (
+            <TabButton
+              key={range}
+              label={label}
+              active={updatedRange === range}
+              onClick={() => onUpdatedRangeChange(range)}
+              testId={`filter-ledger-updated-${range}`}
+            />
+          ))}
+          <span className="flex-1" />
+          <TabButton
+            label="Archived"
+            active={props.showArchived}
+            onClick={() => props.onShowArchivedChange(!props.showArchived)}
+            testId="filter-ledger-archived"
+          />
+        </div>
+      </div>
+      <LedgerList {...props} />
+    </div>
+  );
+}
+
+function LedgerList({
+  scopeTab,
+  isFiltered,
   ledgers,
   isLoading,
   isError,
   onLedgerClick,
 }: {
+  scopeTab: LedgerScopeTab;
+  isFiltered: boolean;
   ledgers: Ledger[];
   isLoading: boolean;
   isError: boolean;
@@ -171,6 +336,14 @@ function LedgersPanel({
     );
   }
 
+  if (ledgers.length === 0 && isFiltered) {
+    return (
+      <div className="p-4 font-mono text-xs text-muted-foreground text-center py-10" data-testid="text-no-matching-ledgers">
+        No matching ledgers
+      </div>
+    );
+  }
+
   if (ledgers.length === 0) {
     return (
       <div className="p-4 flex flex-col items-center justify-center py-12 gap-3 font-mono text-center">
@@ -181,7 +354,7 @@ function LedgersPanel({
           ▭
         </div>
         <div className="text-xs text-muted-foreground leading-relaxed">
-          <div className="font-semibold text-foreground mb-1">No ledgers yet</div>
+          <div className="font-semibold text-foreground mb-1">{EMPTY_SCOPE_TITLES[scopeTab]}</div>
           <div className="opacity-70">Claude will save artifacts</div>
           <div className="opacity-70">here as you chat.</div>
         </div>
@@ -201,8 +374,10 @@ function LedgersPanel({
             onClick={() => onLedgerClick(ledger.id)}
             data-testid={`ledger-item-${ledger.id}`}
           >
-            <div className="text-sm font-semibold leading-snug truncate mb-2">
-              {ledger.title}
+            <div className="flex items-center gap-1.5 mb-2">
+              {ledger.pinned && <Pin className="h-3 w-3 flex-shrink-0" data-testid={`icon-ledger-pinned-${ledger.id}`} />}
+              {ledger.archivedAt && <Archive className="h-3 w-3 flex-shrink-0 text-muted-foreground" />}
+              <span className="text-sm font-semibold leading-snug truncate">{ledger.title}</span>
             </div>
             <div className="flex items-center justify-between gap-2">
               <span
@@ -6,7 +6,8 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { type Message, type Conversation, modelOptions } from "@shared/schema";
+import { type Message, type Conversation } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
 
 interface ExportButtonProps {
   conversation?: Conversation | null;
@@ -14,11 +15,7 @@ interface ExportButtonProps {
 }
 
 export function ExportButton({ conversation, messages }: ExportButtonProps) {
-  const getModelLabel = (modelValue?: string | null) => {
-    if (!modelValue) return "Unknown Model";
-    const model = modelOptions.find(m => m.value === modelValue);
-    return model ? model.label : modelValue;
-  };
+  const { getModelLabel } = useModels();
 
   const exportAsMarkdown = () => {
     if (!conversation) return;
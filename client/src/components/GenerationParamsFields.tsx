@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { type GenerationParams, DEFAULT_MAX_TOKENS, MAX_OUTPUT_TOKENS } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+type NumericKey = "temperature" | "topP" | "topK" | "maxTokens";
+
+const NUMERIC_FIELDS: { key: NumericKey; label: string; min: number; max: number; step: number; integer: boolean }[] = [
+  { key: "temperature", label: "Temperature", min: 0, max: 1, step: 0.05, integer: false },
+  { key: "topP", label: "Top P", min: 0, max: 1, step: 0.05, integer: false },
+  { key: "topK", label: "Top K", min: 1, max: 500, step: 1, integer: true },
+  { key: "maxTokens", label: "Max Tokens", min: 1, max: MAX_OUTPUT_TOKENS, step: 256, integer: true },
+];
+
+interface GenerationParamsFieldsProps {
+  value: GenerationParams;
+  onChange: (value: GenerationParams) => void;
+  // Values this level falls back to, shown as placeholders
+  inherited?: GenerationParams;
+  testIdPrefix?: string;
+}
+
+function toDrafts(value: GenerationParams): Record<NumericKey | "stopSequences", string> {
+  return {
+    temperature: value.temperature?.toString() ?? "",
+    topP: value.topP?.toString() ?? "",
+    topK: value.topK?.toString() ?? "",
+    maxTokens: value.maxTokens?.toString() ?? "",
+    stopSequences: value.stopSequences?.join("\n") ?? "",
+  };
+}
+
+// Blank fields inherit. Edits are committed on blur so typing a value doesn't save every keystroke.
+export function GenerationParamsFields({ value, onChange, inherited = {}, testIdPrefix = "" }: GenerationParamsFieldsProps) {
+  const [drafts, setDrafts] = useState(() => toDrafts(value));
+  const valueKey = JSON.stringify(value);
+
+  useEffect(() => {
+    setDrafts(toDrafts(value));
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reset only when the stored value changes
+  }, [valueKey]);
+
+  const commitNumber = (field: typeof NUMERIC_FIELDS[number]) => {
+    const raw = drafts[field.key].trim();
+    const next: GenerationParams = { ...value };
+    if (raw === "") {
+      delete next[field.key];
+    } else {
+      const parsed = field.integer ? parseInt(raw, 10) : parseFloat(raw);
+      if (Number.isNaN(parsed)) {
+        setDrafts(toDrafts(value));
+        return;
+      }
+      next[field.key] = Math.min(field.max, Math.max(field.min, parsed));
+    }
+    if (JSON.stringify(next) !== valueKey) onChange(next);
+    else setDrafts(toDrafts(value));
+  };
+
+  const commitStopSequences = () => {
+    const sequences = drafts.stopSequences.split("\n").filter((s) => s.length > 0).slice(0, 8);
+    const next: GenerationParams = { ...value };
+    if (sequences.length > 0) {
+      next.stopSequences = sequences;
+    } else {
+      delete next.stopSequences;
+    }
+    if (JSON.stringify(next) !== valueKey) onChange(next);
+  };
+
+  const placeholderFor = (key: NumericKey) => {
+    const fallback = inherited[key] ?? (key === "maxTokens" ? DEFAULT_MAX_TOKENS : undefined);
+    return fallback !== undefined ? `${fallback}` : "Model default";
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <label className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+              {field.label}
+            </label>
+            <Input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={drafts[field.key]}
+              placeholder={placeholderFor(field.key)}
+              onChange={(e) => setDrafts((d) => ({ ...d, [field.key]: e.target.value }))}
+              onBlur={() => commitNumber(field)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+              }}
+              className="border-2 border-border font-mono"
+              data-testid={`${testIdPrefix}input-${field.key}`}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-1">
+        <label className="font-mono text-xs uppercase tracking-wider text-muted-foreground">
+          Stop Sequences (one per line)
+        </label>
+        <Textarea
+          value={drafts.stopSequences}
+          placeholder={inherited.stopSequences?.join("\n") ?? "None"}
+          onChange={(e) => setDrafts((d) => ({ ...d, stopSequences: e.target.value }))}
+          onBlur={commitStopSequences}
+          className="border-2 border-border font-mono min-h-[60px]"
+          data-testid={`${testIdPrefix}input-stopSequences`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { SlidersHorizontal } from "lucide-react";
+import { type GenerationParams } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { GenerationParamsFields } from "./GenerationParamsFields";
+import { ApiKeySelect } from "./ApiKeySelect";
+
+interface GenerationSettingsPanelProps {
+  value: GenerationParams;
+  inherited: GenerationParams;
+  onChange: (value: GenerationParams) => void;
+  apiKeyId: number | null;
+  // Shown when the conversation doesn't pick a key, e.g. the project's key
+  inheritedKeyLabel: string;
+  onApiKeyChange: (apiKeyId: number | null) => void;
+}
+
+export function GenerationSettingsPanel({
+  value,
+  inherited,
+  onChange,
+  apiKeyId,
+  inheritedKeyLabel,
+  onApiKeyChange,
+}: GenerationSettingsPanelProps) {
+  const hasOverrides = Object.keys(value).length > 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className={hasOverrides ? "border-primary" : ""}
+          data-testid="button-generation-settings"
+          title="Generation Settings"
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        <div className="space-y-3">
+          <h4 className="font-bold tracking-[0.05em] text-sm">
+            ══ GENERATION ══
+          </h4>
+          <p className="text-xs text-muted-foreground">
+            Saved with this conversation. Blank fields use the project or global defaults.
+          </p>
+          <GenerationParamsFields
+            value={value}
+            inherited={inherited}
+            onChange={onChange}
+            testIdPrefix="conversation-"
+          />
+          {hasOverrides && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full font-mono text-xs uppercase tracking-wider"
+              onClick={() => onChange({})}
+              data-testid="button-reset-generation-settings"
+            >
+              Reset to defaults
+            </Button>
+          )}
+          <div className="space-y-1 border-t-2 border-border pt-3">
+            <label className="font-mono text-xs uppercase tracking-wider">API Key</label>
+            <ApiKeySelect
+              value={apiKeyId}
+              onChange={onApiKeyChange}
+              inheritLabel={`Default (${inheritedKeyLabel})`}
+              testId="select-conversation-api-key"
+            />
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type LedgerVersion, type LedgerVersionWithSource } from "@shared/schema";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { sideBySideRows, diffWords, type DiffLine, type DiffRow, type WordSegment } from "@/lib/textDiff";
+
+type DiffMode = "lines" | "words";
+
+interface LedgerHistoryProps {
+  ledgerId: number;
+  onViewVersion: (versionNumber: number) => void;
+  onOpenMessage?: (conversationId: number, messageId: number) => void;
+}
+
+// Version timeline for one ledger, with a side-by-side diff between any two versions
+export function LedgerHistory({ ledgerId, onViewVersion, onOpenMessage }: LedgerHistoryProps) {
+  const { toast } = useToast();
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [mode, setMode] = useState<DiffMode>("lines");
+
+  // Newest first
+  const { data, isLoading, isError } = useQuery<LedgerVersionWithSource[]>({
+    queryKey: ["/api/ledgers", ledgerId, "versions"],
+  });
+  const versions = data ?? [];
+
+  // Default to what changed most recently, again whenever a new version arrives
+  useEffect(() => {
+    setToVersion(data?.[0]?.versionNumber ?? null);
+    setFromVersion(data?.[1]?.versionNumber ?? null);
+  }, [data]);
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionNumber: number): Promise<LedgerVersion> => {
+      return await apiRequest(`/api/ledgers/${ledgerId}/versions/${versionNumber}/restore`, { method: "POST" });
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ledgers"] });
+      toast({
+        title: "Success",
+        description: `Restored v${version.metadataJson.restoredFrom} as v${version.versionNumber}`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore version",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const compareWithPrevious = (versionNumber: number) => {
+    const previous = versions.find((v) => v.versionNumber < versionNumber);
+    setToVersion(versionNumber);
+    setFromVersion(previous?.versionNumber ?? null);
+  };
+
+  const fromContent = versions.find((v) => v.versionNumber === fromVersion)?.content ?? "";
+  const toContent = versions.find((v) => v.versionNumber === toVersion)?.content ?? "";
+  const rows = useMemo(() => sideBySideRows(fromContent, toContent), [fromContent, toContent]);
+
+  if (isLoading) {
+    return (
+      <div className="p-4 font-mono text-xs text-muted-foreground text-center py-10">
+        Loading...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="p-4 font-mono text-xs text-destructive text-center py-10">
+        Failed to load version history.
+      </div>
+    );
+  }
+
+  const latestNumber = versions[0]?.versionNumber;
+
+  return (
+    <div className="flex flex-col" data-testid={`ledger-history-${ledgerId}`}>
+      {/* Timeline */}
+      <div className="p-3 space-y-2 border-b-2 border-border">
+        {versions.map((version) => {
+          const isSelected = version.versionNumber === toVersion;
+          return (
+            <div
+              key={version.id}
+              className={`border-2 bg-card p-2 font-mono ${isSelected ? "border-foreground" : "border-border"}`}
+              data-testid={`ledger-version-${version.versionNumber}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <button
+                  onClick={() => compareWithPrevious(version.versionNumber)}
+                  className="text-xs font-bold hover-elevate"
+                  title="Compare with the previous version"
+                  data-testid={`button-compare-version-${version.versionNumber}`}
+                >
+                  v{version.versionNumber}
+                  {version.versionNumber === latestNumber && (
+                    <span className="ml-2 text-[9px] uppercase tracking-wider text-muted-foreground">Latest</span>
+                  )}
+                </button>
+                <span className="text-[10px] text-muted-foreground truncate">
+                  {new Date(version.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-2 mt-1 text-[10px] uppercase tracking-wider text-muted-foreground">
+                <VersionSource version={version} onOpenMessage={onOpenMessage} />
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => onViewVersion(version.versionNumber)}
+                    className="underline hover-elevate"
+                    data-testid={`button-view-version-${version.versionNumber}`}
+                  >
+                    View
+                  </button>
+                  {version.versionNumber !== latestNumber && (
+                    <button
+                      onClick={() => restoreMutation.mutate(version.versionNumber)}
+                      disabled={restoreMutation.isPending}
+                      className="underline hover-elevate"
+                      data-testid={`button-restore-version-${version.versionNumber}`}
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </div>
+              {version.metadataJson.note && (
+                <div className="mt-1 text-[11px] italic text-muted-foreground break-words" data-testid={`text-version-note-${version.versionNumber}`}>
+                  {version.metadataJson.note}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Diff controls */}
+      <div className="px-3 py-2 border-b-2 border-border flex items-center gap-2 flex-wrap">
+        <VersionSelect versions={versions} value={fromVersion} onChange={setFromVersion} testId="select-diff-from" />
+        <span className="font-mono text-[10px] text-muted-foreground">→</span>
+        <VersionSelect versions={versions} value={toVersion} onChange={setToVersion} testId="select-diff-to" />
+        <div className="flex items-center gap-1 ml-auto">
+          {(["lines", "words"] as const).map((option) => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={[
+                "font-mono text-[10px] uppercase tracking-wider px-2 py-1 border-2",
+                mode === option ? "border-border bg-card text-foreground" : "border-transparent text-muted-foreground hover-elevate",
+              ].join(" ")}
+              data-testid={`button-diff-mode-${option}`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {versions.length < 2 ? (
+        <div className="p-4 font-mono text-xs text-muted-foreground text-center py-8">
+          Only one version so far.
+        </div>
+      ) : (
+        <DiffTable rows={rows} mode={mode} />
+      )}
+    </div>
+  );
+}
+
+function VersionSource({
+  version,
+  onOpenMessage,
+}: {
+  version: LedgerVersionWithSource;
+  onOpenMessage?: (conversationId: number, messageId: number) => void;
+}) {
+  if (version.metadataJson.restoredFrom !== undefined) {
+    return <span className="truncate">Restored from v{version.metadataJson.restoredFrom}</span>;
+  }
+  const { createdFromMessageId: messageId, conversationId } = version;
+  if (messageId !== null && conversationId !== null && onOpenMessage) {
+    return (
+      <button
+        onClick={() => onOpenMessage(conversationId, messageId)}
+        className="underline hover-elevate truncate"
+        data-testid={`button-version-message-${version.versionNumber}`}
+      >
+        From message #{messageId}
+      </button>
+    );
+  }
+  return <span className="truncate">Manual</span>;
+}
+
+function VersionSelect({
+  versions,
+  value,
+  onChange,
+  testId,
+}: {
+  versions: LedgerVersionWithSource[];
+  value: number | null;
+  onChange: (value: number) => void;
+  testId: string;
+}) {
+  return (
+    <Select value={value !== null ? String(value) : undefined} onValueChange={(next) => onChange(Number(next))}>
+      <SelectTrigger className="h-7 w-20 border-2 border-border font-mono text-xs" data-testid={testId}>
+        <SelectValue placeholder="—" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={String(version.versionNumber)} className="font-mono text-xs">
+            v{version.versionNumber}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+const ROW_STYLES: Record<DiffRow["type"], { left: string; right: string }> = {
+  equal:  { left: "", right: "" },
+  change: { left: "bg-red-500/10", right: "bg-green-500/10" },
+  delete: { left: "bg-red-500/10", right: "bg-muted/40" },
+  insert: { left: "bg-muted/40", right: "bg-green-500/10" },
+};
+
+function DiffTable({ rows, mode }: { rows: DiffRow[]; mode: DiffMode }) {
+  if (rows.every((row) => row.type === "equal")) {
+    return (
+      <div className="p-4 font-mono text-xs text-muted-foreground text-center py-8">
+        No differences.
+      </div>
+    );
+  }
+
+  return (
+    <div className="font-mono text-[11px] leading-relaxed" data-testid="ledger-diff">
+      {rows.map((row, index) => {
+        const words = mode === "words" && row.type === "change" ? diffWords(row.left!.text, row.right!.text) : null;
+        const style = ROW_STYLES[row.type];
+        return (
+          <div key={index} className="grid grid-cols-2 divide-x-2 divide-border">
+            <DiffCell line={row.left} className={style.left} segments={words?.left} changedClassName="bg-red-500/30" />
+            <DiffCell line={row.right} className={style.right} segments={words?.right} changedClassName="bg-green-500/30" />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function DiffCell({
+  line,
+  className,
+  segments,
+  changedClassName,
+}: {
+  line: DiffLine | null;
+  className: string;
+  // Word highlights in words mode; otherwise the whole line is shown as is
+  segments?: WordSegment[];
+  changedClassName: string;
+}) {
+  return (
+    <div className={`flex min-w-0 ${className}`}>
+      <span className="w-8 flex-shrink-0 pr-1 text-right text-muted-foreground select-none">
+        {line?.lineNumber ?? ""}
+      </span>
+      <span className="flex-1 min-w-0 px-1 whitespace-pre-wrap break-all">
+        {segments
+          ? segments.map((segment, i) => (
+              <span key={i} className={segment.changed ? changedClassName : undefined}>{segment.text}</span>
+            ))
+          : line?.text ?? ""}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { type Ledger, type LedgerVersionWithSource, type MessageLedgerRef } from "@shared/schema";
+import { useLedgers, type LedgerScopeFilter } from "@/hooks/use-ledgers";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+
+type PickerScope = LedgerScopeFilter["kind"];
+
+const SCOPE_TABS: Array<{ kind: PickerScope; label: string }> = [
+  { kind: "conversation", label: "This chat" },
+  { kind: "project", label: "This project" },
+  { kind: "all", label: "All" },
+];
+
+interface LedgerPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: number | null;
+  projectId: number | null;
+  // Prefills the search, e.g. from an `@ledger:query` mention
+  initialQuery?: string;
+  // Versions already attached to the draft
+  attached: MessageLedgerRef[];
+  onPick: (ref: MessageLedgerRef) => void;
+  testIdPrefix?: string;
+  // The button the popover opens from
+  children: ReactNode;
+}
+
+// Chooses a ledger, then one of its versions, to attach to the next message
+export function LedgerPicker({
+  open,
+  onOpenChange,
+  conversationId,
+  projectId,
+  initialQuery = "",
+  attached,
+  onPick,
+  testIdPrefix = "",
+  children,
+}: LedgerPickerProps) {
+  const [scopeTab, setScopeTab] = useState<PickerScope>(conversationId !== null ? "conversation" : "all");
+  const [query, setQuery] = useState(initialQuery);
+  const [selectedLedger, setSelectedLedger] = useState<Ledger | null>(null);
+
+  // Start from the list each time the picker opens
+  useEffect(() => {
+    if (open) {
+      setQuery(initialQuery);
+      setSelectedLedger(null);
+    }
+  }, [open, initialQuery]);
+
+  const availableScopes: Record<PickerScope, boolean> = {
+    conversation: conversationId !== null,
+    project: projectId !== null,
+    all: true,
+  };
+  const activeScope = availableScopes[scopeTab] ? scopeTab : "all";
+  const scope: LedgerScopeFilter = activeScope === "conversation"
+    ? { kind: "conversation", id: conversationId }
+    : activeScope === "project"
+      ? { kind: "project", id: projectId }
+      : { kind: "all" };
+  const { ledgers, isLoading } = useLedgers(scope);
+
+  const needle = query.trim().toLowerCase();
+  const matches = needle ? ledgers.filter((ledger) => ledger.title.toLowerCase().includes(needle)) : ledgers;
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent
+        side="top"
+        align="start"
+        className="w-80 p-0 rounded-none border-2 border-border font-mono"
+        data-testid={`${testIdPrefix}ledger-picker`}
+      >
+        {selectedLedger ? (
+          <VersionList
+            ledger={selectedLedger}
+            attached={attached}
+            onBack={() => setSelectedLedger(null)}
+            onPick={onPick}
+            testIdPrefix={testIdPrefix}
+          />
+        ) : (
+          <>
+            <div className="p-2 border-b-2 border-border space-y-2">
+              <Input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search ledgers..."
+                className="h-8 rounded-none border-2 font-mono text-xs"
+                autoFocus
+                data-testid={`${testIdPrefix}input-ledger-search`}
+              />
+              <div className="flex items-center gap-1">
+                {SCOPE_TABS.filter(({ kind }) => availableScopes[kind]).map(({ kind, label }) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => setScopeTab(kind)}
+                    className={[
+                      "font-mono text-[10px] uppercase tracking-wider px-2 py-1 border-2",
+                      activeScope === kind ? "border-border bg-card text-foreground" : "border-transparent text-muted-foreground hover-elevate",
+                    ].join(" ")}
+                    data-testid={`${testIdPrefix}tab-picker-scope-${kind}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="max-h-64 overflow-y-auto p-2 space-y-1">
+              {isLoading ? (
+                <div className="py-6 text-center text-xs text-muted-foreground">Loading...</div>
+              ) : matches.length === 0 ? (
+                <div className="py-6 text-center text-xs text-muted-foreground">
+                  {needle ? "No matching ledgers" : "No ledgers here yet"}
+                </div>
+              ) : (
+                matches.map((ledger) => (
+                  <button
+                    key={ledger.id}
+                    type="button"
+                    onClick={() => setSelectedLedger(ledger)}
+                    className="w-full flex items-center justify-between gap-2 border-2 border-border bg-card px-2 py-1.5 text-left hover-elevate active-elevate-2"
+                    data-testid={`${testIdPrefix}picker-ledger-${ledger.id}`}
+                  >
+                    <span className="text-xs font-semibold truncate">{ledger.title}</span>
+                    <span className="text-[9px] uppercase tracking-wider text-muted-foreground whitespace-nowrap">{ledger.type}</span>
+                  </button>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function VersionList({
+  ledger,
+  attached,
+  onBack,
+  onPick,
+  testIdPrefix,
+}: {
+  ledger: Ledger;
+  attached: MessageLedgerRef[];
+  onBack: () => void;
+  onPick: (ref: MessageLedgerRef) => void;
+  testIdPrefix: string;
+}) {
+  // Newest first
+  const { data: versions = [], isLoading, isError } = useQuery<LedgerVersionWithSource[]>({
+    queryKey: ["/api/ledgers", ledger.id, "versions"],
+  });
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2 p-2 border-b-2 border-border">
+        <span className="text-xs font-semibold truncate">{ledger.title}</span>
+        <button
+          type="button"
+          onClick={onBack}
+          className="text-[10px] uppercase tracking-wider underline text-muted-foreground hover-elevate flex-shrink-0"
+          data-testid={`${testIdPrefix}button-picker-back`}
+        >
+          Back
+        </button>
+      </div>
+      <div className="max-h-64 overflow-y-auto p-2 space-y-1">
+        {isLoading ? (
+          <div className="py-6 text-center text-xs text-muted-foreground">Loading...</div>
+        ) : isError ? (
+          <div className="py-6 text-center text-xs text-destructive">Failed to load versions.</div>
+        ) : (
+          versions.map((version, index) => {
+            const isAttached = attached.some(
+              (ref) => ref.ledgerId === ledger.id && ref.versionNumber === version.versionNumber,
+            );
+            return (
+              <button
+                key={version.id}
+                type="button"
+                disabled={isAttached}
+                onClick={() => onPick({ ledgerId: ledger.id, versionNumber: version.versionNumber, title: ledger.title, type: ledger.type })}
+                className="w-full flex items-center justify-between gap-2 border-2 border-border bg-card px-2 py-1.5 text-left hover-elevate active-elevate-2 disabled:opacity-40 disabled:cursor-not-allowed"
+                data-testid={`${testIdPrefix}picker-version-${version.versionNumber}`}
+              >
+                <span className="text-xs font-bold">
+                  v{version.versionNumber}
+                  {index === 0 && (
+                    <span className="ml-2 text-[9px] uppercase tracking-wider text-muted-foreground">Latest</span>
+                  )}
+                  {isAttached && (
+                    <span className="ml-2 text-[9px] uppercase tracking-wider text-muted-foreground">Attached</span>
+                  )}
+                </span>
+                <span className="text-[10px] text-muted-foreground truncate">
+                  {new Date(version.createdAt).toLocaleString()}
+                </span>
+              </button>
+            );
+          })
+        )}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,282 @@
+import { useEffect, useMemo, useState } from "react";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import { chartLedgerSpecSchema, type ChartLedgerSpec } from "@shared/schema";
+import { parseDelimited } from "@/lib/delimited";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+function EmptyContent() {
+  return (
+    <div className="p-4 font-mono text-xs text-muted-foreground text-center py-8">
+      No content yet.
+    </div>
+  );
+}
+
+function RenderError({ title, detail }: { title: string; detail: string }) {
+  return (
+    <div className="m-3 border-2 border-destructive p-2 font-mono text-xs space-y-1" data-testid="ledger-render-error">
+      <div className="font-semibold text-destructive">{title}</div>
+      <pre className="whitespace-pre-wrap text-muted-foreground">{detail}</pre>
+    </div>
+  );
+}
+
+let nextDiagramId = 0;
+
+// Mermaid is loaded on first use; it is large and only diagram ledgers need it
+export function DiagramRenderer({ content }: { content: string }) {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!content.trim()) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const { default: mermaid } = await import("mermaid");
+        // "strict" strips scripts and click handlers from the generated SVG
+        mermaid.initialize({ startOnLoad: false, securityLevel: "strict", theme: "neutral", fontFamily: "monospace" });
+        const result = await mermaid.render(`ledger-diagram-${nextDiagramId++}`, content);
+        if (!cancelled) {
+          setSvg(result.svg);
+          setError(null);
+        }
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [content]);
+
+  if (!content.trim()) return <EmptyContent />;
+  if (error) return <RenderError title="Invalid Mermaid diagram" detail={error} />;
+  if (svg === null) {
+    return <div className="p-4 font-mono text-xs text-muted-foreground text-center py-8">Rendering...</div>;
+  }
+
+  return (
+    <div
+      className="p-4 flex justify-center overflow-auto [&_svg]:max-w-full [&_svg]:h-auto"
+      data-testid="ledger-diagram"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
+
+type SortState = { column: number; direction: "asc" | "desc" } | null;
+
+const numberFormat = /^-?[\d,]*\.?\d+(e[+-]?\d+)?%?$/i;
+
+function toNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!numberFormat.test(trimmed)) return null;
+  const parsed = parseFloat(trimmed.replace(/[,%]/g, ""));
+  return isNaN(parsed) ? null : parsed;
+}
+
+// Numbers sort numerically, everything else by locale; blanks always go last
+function compareCells(a: string, b: string): number {
+  if (!a.trim() || !b.trim()) return (a.trim() ? 0 : 1) - (b.trim() ? 0 : 1);
+  const numA = toNumber(a);
+  const numB = toNumber(b);
+  if (numA !== null && numB !== null) return numA - numB;
+  return a.localeCompare(b, undefined, { numeric: true, sensitivity: "base" });
+}
+
+export function TableRenderer({ content }: { content: string }) {
+  const table = useMemo(() => parseDelimited(content), [content]);
+  const [filter, setFilter] = useState("");
+  const [sort, setSort] = useState<SortState>(null);
+
+  const visibleRows = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const filtered = needle
+      ? table.rows.filter((row) => row.some((cell) => cell.toLowerCase().includes(needle)))
+      : table.rows;
+    if (!sort) return filtered;
+    const sorted = [...filtered].sort((a, b) => compareCells(a[sort.column], b[sort.column]));
+    return sort.direction === "asc" ? sorted : sorted.reverse();
+  }, [table, filter, sort]);
+
+  if (table.headers.length === 0) return <EmptyContent />;
+
+  // Ascending, then descending, then back to the original order
+  const toggleSort = (column: number) => {
+    setSort((current) => {
+      if (current?.column !== column) return { column, direction: "asc" };
+      return current.direction === "asc" ? { column, direction: "desc" } : null;
+    });
+  };
+
+  return (
+    <div className="p-3 space-y-2 font-mono" data-testid="ledger-table">
+      <div className="flex items-center gap-2">
+        <Input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Filter rows..."
+          className="h-8 rounded-none border-2 font-mono text-xs"
+          data-testid="input-ledger-table-filter"
+        />
+        <span className="text-[10px] uppercase tracking-wider text-muted-foreground whitespace-nowrap">
+          {visibleRows.length} / {table.rows.length} rows
+        </span>
+      </div>
+      <div className="border-2 border-border">
+        <Table className="text-xs">
+          <TableHeader>
+            <TableRow>
+              {table.headers.map((header, index) => (
+                <TableHead key={index} className="h-8 px-2 whitespace-nowrap">
+                  <button
+                    onClick={() => toggleSort(index)}
+                    className="flex items-center gap-1 uppercase tracking-wider text-[10px] font-semibold hover-elevate"
+                    data-testid={`button-ledger-table-sort-${index}`}
+                  >
+                    {header}
+                    {sort?.column === index && (sort.direction === "asc"
+                      ? <ArrowUp className="h-3 w-3" />
+                      : <ArrowDown className="h-3 w-3" />)}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visibleRows.map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((cell, cellIndex) => (
+                  <TableCell
+                    key={cellIndex}
+                    className={`px-2 py-1.5 ${toNumber(cell) !== null ? "text-right tabular-nums" : ""}`}
+                  >
+                    {cell}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+// Scripts run, but without allow-same-origin the page can't reach the app's cookies, storage or API
+export function HtmlRenderer({ content }: { content: string }) {
+  if (!content.trim()) return <EmptyContent />;
+
+  return (
+    <iframe
+      srcDoc={content}
+      sandbox="allow-scripts allow-forms allow-popups allow-modals"
+      title="HTML ledger"
+      className="w-full h-[480px] border-0 bg-white"
+      data-testid="ledger-html-frame"
+    />
+  );
+}
+
+const PALETTE_SIZE = 5;
+
+function parseChartSpec(content: string): { spec: ChartLedgerSpec; error: null } | { spec: null; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (e) {
+    return { spec: null, error: e instanceof Error ? e.message : String(e) };
+  }
+  const parsed = chartLedgerSpecSchema.safeParse(json);
+  if (!parsed.success) {
+    return { spec: null, error: parsed.error.issues.map((issue) => `${issue.path.join(".") || "spec"}: ${issue.message}`).join("\n") };
+  }
+  return { spec: parsed.data, error: null };
+}
+
+export function ChartRenderer({ content }: { content: string }) {
+  const result = useMemo(() => parseChartSpec(content), [content]);
+
+  if (!content.trim()) return <EmptyContent />;
+  if (result.error !== null) return <RenderError title="Invalid chart spec" detail={result.error} />;
+
+  const { spec } = result;
+  const config: ChartConfig = Object.fromEntries(spec.series.map((series, index) => [
+    series.key,
+    { label: series.label ?? series.key, color: series.color ?? `hsl(var(--chart-${(index % PALETTE_SIZE) + 1}))` },
+  ]));
+
+  return (
+    <div className="p-3 space-y-2 font-mono" data-testid="ledger-chart">
+      {spec.title && <div className="text-xs font-semibold uppercase tracking-wider">{spec.title}</div>}
+      <ChartContainer config={config} className="w-full">
+        {spec.kind === "pie" ? (
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey={spec.xKey} />} />
+            <Pie data={spec.data} dataKey={spec.series[0].key} nameKey={spec.xKey} outerRadius="80%">
+              {spec.data.map((_, index) => (
+                <Cell key={index} fill={`hsl(var(--chart-${(index % PALETTE_SIZE) + 1}))`} />
+              ))}
+            </Pie>
+          </PieChart>
+        ) : spec.kind === "line" ? (
+          <LineChart data={spec.data}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey={spec.xKey} tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {spec.series.map((series) => (
+              <Line key={series.key} dataKey={series.key} stroke={`var(--color-${series.key})`} strokeWidth={2} dot={false} />
+            ))}
+          </LineChart>
+        ) : spec.kind === "area" ? (
+          <AreaChart data={spec.data}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey={spec.xKey} tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {spec.series.map((series) => (
+              <Area
+                key={series.key}
+                dataKey={series.key}
+                stackId={spec.stacked ? "stack" : undefined}
+                stroke={`var(--color-${series.key})`}
+                fill={`var(--color-${series.key})`}
+                fillOpacity={0.3}
+              />
+            ))}
+          </AreaChart>
+        ) : (
+          <BarChart data={spec.data}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey={spec.xKey} tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {spec.series.map((series) => (
+              <Bar
+                key={series.key}
+                dataKey={series.key}
+                stackId={spec.stacked ? "stack" : undefined}
+                fill={`var(--color-${series.key})`}
+              />
+            ))}
+          </BarChart>
+        )}
+      </ChartContainer>
+    </div>
+  );
+}
@@ -1,29 +1,141 @@
-import { useQuery } from "@tanstack/react-query";
-import { type Ledger, type LedgerVersion } from "@shared/schema";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { type CodeLedgerSpec, type Ledger, type LedgerType, type LedgerVersion, type UpdateLedger, LEDGER_TYPES } from "@shared/schema";
+import { buildCodeSpec, serializeCodeFiles } from "@shared/ledgerParser";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
-import { Sandpack } from "@codesandbox/sandpack-react";
+import {
+  Sandpack,
+  SandpackCodeEditor,
+  SandpackLayout,
+  SandpackPreview,
+  SandpackProvider,
+  useSandpack,
+} from "@codesandbox/sandpack-react";
+import { Archive, ArchiveRestore, MoreVertical, Pencil, Pin, PinOff, Rocket, Shapes, Trash2, Type } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { LedgerHistory } from "./LedgerHistory";
+import { PromoteAppDialog } from "./PromoteAppDialog";
+import { ChartRenderer, DiagramRenderer, HtmlRenderer, TableRenderer } from "./LedgerRenderers";
 
 export type LedgerDetail = Ledger & { latestVersion: LedgerVersion | null };
 
+const DEFAULT_APP = "export default function App() {\n  return <div>Hello World</div>;\n}";
+
+// Versions saved before code setups existed are a single React component
+function resolveCodeSpec(content: string, code?: CodeLedgerSpec): CodeLedgerSpec {
+  return code ?? buildCodeSpec({}, content || DEFAULT_APP);
+}
+
 const LEDGER_TYPE_STYLES: Record<string, { border: string; text: string }> = {
   report: { border: "border-blue-500", text: "text-blue-500" },
   plan:   { border: "border-yellow-500", text: "text-yellow-500" },
   code:   { border: "border-green-500", text: "text-green-500" },
   note:   { border: "border-purple-500", text: "text-purple-500" },
   draft:  { border: "border-muted-foreground", text: "text-muted-foreground" },
+  diagram: { border: "border-cyan-500", text: "text-cyan-500" },
+  table:  { border: "border-orange-500", text: "text-orange-500" },
+  html:   { border: "border-pink-500", text: "text-pink-500" },
+  chart:  { border: "border-red-500", text: "text-red-500" },
 };
 
 interface LedgerViewerProps {
   ledgerId: number;
+  // A specific version to show, e.g. the one a chat reply wrote; null shows the latest
+  versionNumber?: number | null;
+  onVersionChange?: (versionNumber: number | null) => void;
+  onOpenMessage?: (conversationId: number, messageId: number) => void;
   onBack: () => void;
 }
 
-export function LedgerViewer({ ledgerId, onBack }: LedgerViewerProps) {
-  const { data: ledger, isLoading, isError } = useQuery<LedgerDetail>({
+export function LedgerViewer({ ledgerId, versionNumber = null, onVersionChange, onOpenMessage, onBack }: LedgerViewerProps) {
+  const [view, setView] = useState<"content" | "history">("content");
+  // Captured when editing starts so versions arriving meanwhile are detected as conflicts
+  const [editStart, setEditStart] = useState<{ content: string; code?: CodeLedgerSpec; baseVersion: number } | null>(null);
+  const isEditing = editStart !== null;
+  const [promoteOpen, setPromoteOpen] = useState(false);
+  const [renameTitle, setRenameTitle] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Opening a ledger or a specific version (e.g. from a chip) always shows its content
+  useEffect(() => {
+    setView("content");
+    setEditStart(null);
+  }, [ledgerId, versionNumber]);
+  useEffect(() => {
+    setRenameTitle(null);
+  }, [ledgerId]);
+  const { data: ledger, isLoading: isLedgerLoading, isError: isLedgerError } = useQuery<LedgerDetail>({
     queryKey: ["/api/ledgers", ledgerId],
   });
+  const { data: pinnedVersion, isLoading: isVersionLoading, isError: isVersionError } = useQuery<LedgerVersion>({
+    queryKey: ["/api/ledgers", ledgerId, "versions", versionNumber],
+    enabled: versionNumber !== null,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: UpdateLedger): Promise<Ledger> => {
+      return await apiRequest(`/api/ledgers/${ledgerId}`, {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ledgers"] });
+      setRenameTitle(null);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update ledger",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest(`/api/ledgers/${ledgerId}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      onBack();
+      queryClient.removeQueries({ queryKey: ["/api/ledgers", ledgerId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ledgers"] });
+      // Chips in chat turn into tombstones
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      toast({
+        title: "Success",
+        description: "Ledger deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete ledger",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isLoading = isLedgerLoading || (versionNumber !== null && isVersionLoading);
+  const isError = isLedgerError || (versionNumber !== null && isVersionError);
 
   if (isLoading) {
     return (
@@ -68,7 +180,10 @@ export function LedgerViewer({ ledgerId, onBack }: LedgerViewerProps) {
     );
   }
 
-  const content = ledger.latestVersion?.content ?? "";
+  const shownVersion = versionNumber !== null ? pinnedVersion ?? null : ledger.latestVersion;
+  const latestNumber = ledger.latestVersion?.versionNumber ?? null;
+  const isOlderVersion = shownVersion !== null && latestNumber !== null && shownVersion.versionNumber < latestNumber;
+  const content = shownVersion?.content ?? "";
   const style = LEDGER_TYPE_STYLES[ledger.type] ?? LEDGER_TYPE_STYLES.draft;
 
   return (
@@ -82,46 +197,446 @@ export function LedgerViewer({ ledgerId, onBack }: LedgerViewerProps) {
         >
           ← Back
         </button>
-        <div className="font-mono text-sm font-semibold leading-snug">
-          {ledger.title}
+        {renameTitle !== null ? (
+          <Input
+            value={renameTitle}
+            onChange={(e) => setRenameTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && renameTitle.trim()) updateMutation.mutate({ title: renameTitle.trim() });
+              if (e.key === "Escape") setRenameTitle(null);
+            }}
+            onBlur={() => setRenameTitle(null)}
+            maxLength={200}
+            autoFocus
+            className="h-7 rounded-none border-2 font-mono text-sm font-semibold"
+            data-testid="input-ledger-rename"
+          />
+        ) : (
+          <div className="font-mono text-sm font-semibold leading-snug flex items-center gap-1.5">
+            {ledger.pinned && <Pin className="h-3 w-3 flex-shrink-0" />}
+            <span>{ledger.title}</span>
+            {ledger.archivedAt && (
+              <span className="text-[9px] uppercase tracking-wider text-muted-foreground font-normal">Archived</span>
+            )}
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <span
+            className={`inline-block text-[9px] uppercase tracking-wider border px-1.5 py-0.5 ${style.border} ${style.text}`}
+          >
+            {ledger.type}
+          </span>
+          <div className="flex items-center gap-1">
+            {ledger.type === "code" && view === "content" && !isEditing && shownVersion && (
+              <button
+                onClick={() => setPromoteOpen(true)}
+                className="p-1 text-muted-foreground hover-elevate"
+                title="Promote to app"
+                data-testid="button-ledger-promote"
+              >
+                <Rocket className="h-3 w-3" />
+              </button>
+            )}
+            {view === "content" && !isEditing && latestNumber !== null && (
+              <button
+                onClick={() => setEditStart({ content, code: shownVersion?.metadataJson.code, baseVersion: latestNumber })}
+                className="p-1 text-muted-foreground hover-elevate"
+                title="Edit ledger"
+                data-testid="button-ledger-edit"
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  disabled={isEditing}
+                  className="p-1 text-muted-foreground hover-elevate"
+                  title="Ledger actions"
+                  data-testid="button-ledger-actions"
+                >
+                  <MoreVertical className="h-3 w-3" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="font-mono">
+                <DropdownMenuItem onClick={() => setRenameTitle(ledger.title)} data-testid="menu-ledger-rename">
+                  <Type className="mr-2 h-4 w-4" />
+                  RENAME
+                </DropdownMenuItem>
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger data-testid="menu-ledger-change-type">
+                    <Shapes className="mr-2 h-4 w-4" />
+                    CHANGE TYPE
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="font-mono">
+                    <DropdownMenuRadioGroup
+                      value={ledger.type}
+                      onValueChange={(type) => {
+                        if (type !== ledger.type) updateMutation.mutate({ type: type as Ledger["type"] });
+                      }}
+                    >
+                      {LEDGER_TYPES.map((type) => (
+                        <DropdownMenuRadioItem key={type} value={type} data-testid={`menu-ledger-type-${type}`}>
+                          {type.toUpperCase()}
+                        </DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+                <DropdownMenuItem
+                  onClick={() => updateMutation.mutate({ pinned: !ledger.pinned })}
+                  data-testid="menu-ledger-pin"
+                >
+                  {ledger.pinned ? <PinOff className="mr-2 h-4 w-4" /> : <Pin className="mr-2 h-4 w-4" />}
+                  {ledger.pinned ? "UNPIN" : "PIN TO TOP"}
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => updateMutation.mutate({ archived: !ledger.archivedAt })}
+                  data-testid="menu-ledger-archive"
+                >
+                  {ledger.archivedAt ? <ArchiveRestore className="mr-2 h-4 w-4" /> : <Archive className="mr-2 h-4 w-4" />}
+                  {ledger.archivedAt ? "UNARCHIVE" : "ARCHIVE"}
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => {
+                    if (confirm(`Delete "${ledger.title}" and all its versions? Chips in chat will show it as deleted.`)) {
+                      deleteMutation.mutate();
+                    }
+                  }}
+                  className="text-destructive"
+                  data-testid="menu-ledger-delete"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  DELETE
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {(["content", "history"] as const).map((option) => (
+              <button
+                key={option}
+                disabled={isEditing}
+                onClick={() => setView(option)}
+                className={[
+                  "font-mono text-[10px] uppercase tracking-wider px-2 py-0.5 border-2",
+                  view === option ? "border-border bg-card text-foreground" : "border-transparent text-muted-foreground hover-elevate",
+                ].join(" ")}
+                data-testid={`button-ledger-view-${option}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
         </div>
-        <span
-          className={`inline-block text-[9px] uppercase tracking-wider border px-1.5 py-0.5 ${style.border} ${style.text}`}
-        >
-          {ledger.type}
-        </span>
+        {shownVersion && view === "content" && (
+          <div
+            className={`font-mono text-[10px] uppercase tracking-wider ${isOlderVersion ? "text-foreground" : "text-muted-foreground"}`}
+            data-testid="text-ledger-version"
+          >
+            v{shownVersion.versionNumber}
+            {isOlderVersion && ` of ${latestNumber}`}
+            {isOlderVersion && onVersionChange && (
+              <button
+                onClick={() => onVersionChange(null)}
+                className="ml-2 underline hover-elevate"
+                data-testid="button-ledger-show-latest"
+              >
+                Show latest
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Content area */}
       <div className="flex-1 overflow-auto">
-        {ledger.type === "code" ? (
-          <CodeRenderer content={content} />
+        {view === "history" ? (
+          <LedgerHistory
+            ledgerId={ledgerId}
+            onViewVersion={(n) => {
+              onVersionChange?.(n === latestNumber ? null : n);
+              setView("content");
+            }}
+            onOpenMessage={onOpenMessage}
+          />
+        ) : editStart ? (
+          <LedgerEditor
+            ledger={ledger}
+            initialContent={editStart.content}
+            initialCode={editStart.code}
+            baseVersion={editStart.baseVersion}
+            onDone={(saved) => {
+              setEditStart(null);
+              // Show the new version rather than the one the edit started from
+              if (saved) onVersionChange?.(null);
+            }}
+          />
+        ) : ledger.type === "code" ? (
+          <CodeRenderer spec={resolveCodeSpec(content, shownVersion?.metadataJson.code)} />
         ) : (
-          <MarkdownRenderer content={content} />
+          <ContentRenderer type={ledger.type} content={content} />
         )}
       </div>
+
+      {shownVersion && (
+        <PromoteAppDialog
+          open={promoteOpen}
+          onOpenChange={setPromoteOpen}
+          ledgerId={ledger.id}
+          ledgerTitle={ledger.title}
+          versionNumber={shownVersion.versionNumber}
+        />
+      )}
     </div>
   );
 }
 
-function CodeRenderer({ content }: { content: string }) {
+function CodeRenderer({ spec }: { spec: CodeLedgerSpec }) {
+  const paths = Object.keys(spec.files);
   return (
     <div className="h-full" style={{ minHeight: "380px" }}>
       <Sandpack
-        template="react"
+        // A different template needs a fresh bundler
+        key={spec.template}
+        template={spec.template}
         theme="light"
-        files={{ "/App.js": content || "export default function App() {\n  return <div>Hello World</div>;\n}" }}
+        files={spec.files}
         options={{
           showNavigator: false,
-          showTabs: false,
+          // One tab per ledger file; the template's own scaffolding stays hidden
+          showTabs: paths.length > 1,
+          closableTabs: false,
+          visibleFiles: paths,
+          activeFile: spec.entry,
           editorHeight: 240,
+          // Changes are made in edit mode, where they can be saved as a version
+          readOnly: true,
+          showReadOnly: false,
         }}
-        customSetup={{ environment: "create-react-app" }}
+        customSetup={{ dependencies: spec.dependencies }}
       />
     </div>
   );
 }
 
+// Reports the ledger's files from Sandpack's editor as they change, so the edit can be saved
+function FilesSync({ paths, onChange }: { paths: string[]; onChange: (files: Record<string, string>) => void }) {
+  const { sandpack } = useSandpack();
+  useEffect(() => {
+    onChange(Object.fromEntries(paths.map((path) => [path, sandpack.files[path]?.code ?? ""])));
+  }, [sandpack.files, paths, onChange]);
+  return null;
+}
+
+type SaveResult = { version: LedgerVersion; conflict: null } | { version: null; conflict: LedgerVersion };
+
+interface LedgerEditorProps {
+  ledger: LedgerDetail;
+  initialContent: string;
+  // Code setup of the version being edited; absent for prose and legacy single-file code
+  initialCode?: CodeLedgerSpec;
+  // Latest version when editing started; saving on top of anything newer is a conflict
+  baseVersion: number;
+  onDone: (saved: boolean) => void;
+}
+
+function LedgerEditor({ ledger, initialContent, initialCode, baseVersion, onDone }: LedgerEditorProps) {
+  const { toast } = useToast();
+  const [content, setContent] = useState(initialContent);
+  // Fixed for the whole edit so Sandpack isn't handed new files on every render
+  const [initialSpec] = useState(() => ledger.type === "code" ? resolveCodeSpec(initialContent, initialCode) : null);
+  const [filePaths] = useState(() => Object.keys(initialSpec?.files ?? {}));
+  const [codeFiles, setCodeFiles] = useState<Record<string, string>>(initialSpec?.files ?? {});
+  const [note, setNote] = useState("");
+  const [tab, setTab] = useState<"write" | "preview">("write");
+  const [conflict, setConflict] = useState<LedgerVersion | null>(null);
+
+  // Polled so a version saved elsewhere (e.g. by a chat reply) shows up before the user hits Save
+  const { data: current } = useQuery<LedgerDetail>({
+    queryKey: ["/api/ledgers", ledger.id],
+    refetchInterval: 15000,
+  });
+  const latest = current?.latestVersion ?? null;
+  const newerVersion = conflict ?? (latest && latest.versionNumber > baseVersion ? latest : null);
+
+  // Legacy single-file code stays a bare /App.js; declared setups keep their template and dependencies
+  const editedContent = !initialSpec
+    ? content
+    : initialCode ? serializeCodeFiles(codeFiles) : codeFiles[initialSpec.entry] ?? "";
+  const editedCode = initialSpec && initialCode ? { ...initialSpec, files: codeFiles } : undefined;
+
+  const saveMutation = useMutation({
+    mutationFn: async (base: number): Promise<SaveResult> => {
+      const response = await fetch(`/api/ledgers/${ledger.id}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: editedContent, code: editedCode, note: note.trim() || undefined, baseVersion: base }),
+      });
+      if (response.status === 409) {
+        const { latestVersion } = await response.json();
+        return { version: null, conflict: latestVersion };
+      }
+      if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+      return { version: await response.json(), conflict: null };
+    },
+    onSuccess: (result) => {
+      if (result.conflict) {
+        setConflict(result.conflict);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/ledgers"] });
+      toast({
+        title: "Success",
+        description: `Saved as v${result.version.versionNumber}`,
+      });
+      onDone(true);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save ledger",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unchanged = initialSpec
+    ? filePaths.every((path) => codeFiles[path] === initialSpec.files[path])
+    : content === initialContent;
+
+  return (
+    <div className="flex flex-col" data-testid={`ledger-editor-${ledger.id}`}>
+      {newerVersion && (
+        <div
+          className="m-3 border-2 border-destructive p-2 font-mono text-xs space-y-2"
+          data-testid="ledger-edit-conflict"
+        >
+          <div>
+            v{newerVersion.versionNumber} was saved while you were editing v{baseVersion}. Saving will replace it with your
+            version; its changes stay in the history.
+          </div>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-6 px-2 font-mono text-[10px] uppercase tracking-wider"
+              disabled={saveMutation.isPending}
+              onClick={() => saveMutation.mutate(newerVersion.versionNumber)}
+              data-testid="button-ledger-overwrite"
+            >
+              Save anyway
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 font-mono text-[10px] uppercase tracking-wider"
+              onClick={() => onDone(false)}
+              data-testid="button-ledger-discard"
+            >
+              Discard my edit
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {initialSpec ? (
+        <div style={{ minHeight: "380px" }}>
+          <SandpackProvider
+            template={initialSpec.template}
+            theme="light"
+            files={initialSpec.files}
+            options={{ visibleFiles: filePaths, activeFile: initialSpec.entry }}
+            customSetup={{ dependencies: initialSpec.dependencies }}
+          >
+            <SandpackLayout>
+              <SandpackCodeEditor showTabs={filePaths.length > 1} closableTabs={false} style={{ height: 240 }} />
+              <SandpackPreview showNavigator={false} style={{ height: 240 }} />
+            </SandpackLayout>
+            <FilesSync paths={filePaths} onChange={setCodeFiles} />
+          </SandpackProvider>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center gap-1 px-3 pt-3">
+            {(["write", "preview"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setTab(option)}
+                className={[
+                  "font-mono text-[10px] uppercase tracking-wider px-2 py-0.5 border-2",
+                  tab === option ? "border-border bg-card text-foreground" : "border-transparent text-muted-foreground hover-elevate",
+                ].join(" ")}
+                data-testid={`button-ledger-editor-${option}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          {tab === "write" ? (
+            <div className="p-3">
+              <Textarea
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                className="min-h-[320px] border-2 border-border font-mono text-xs"
+                data-testid="textarea-ledger-content"
+              />
+            </div>
+          ) : (
+            <ContentRenderer type={ledger.type} content={content} />
+          )}
+        </>
+      )}
+
+      <div className="border-t-2 border-border p-3 space-y-2">
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Change note (optional)"
+          maxLength={500}
+          className="border-2 border-border font-mono text-xs"
+          data-testid="input-ledger-change-note"
+        />
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="font-mono text-xs uppercase tracking-wider"
+            onClick={() => onDone(false)}
+            data-testid="button-ledger-cancel-edit"
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            className="font-mono text-xs uppercase tracking-wider"
+            disabled={unchanged || !editedContent.trim() || saveMutation.isPending || newerVersion !== null}
+            onClick={() => saveMutation.mutate(baseVersion)}
+            data-testid="button-ledger-save"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Version"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Every non-code type; reports, plans, notes and drafts are markdown
+function ContentRenderer({ type, content }: { type: LedgerType; content: string }) {
+  switch (type) {
+    case "diagram":
+      return <DiagramRenderer content={content} />;
+    case "table":
+      return <TableRenderer content={content} />;
+    case "html":
+      return <HtmlRenderer content={content} />;
+    case "chart":
+      return <ChartRenderer content={content} />;
+    default:
+      return <MarkdownRenderer content={content} />;
+  }
+}
+
 function MarkdownRenderer({ content }: { content: string }) {
   if (!content) {
     return (
@@ -1,4 +1,4 @@
-import { Edit2, RotateCcw, Trash2 } from "lucide-react";
+import { Edit2, RotateCcw, Trash2, ChevronsRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface MessageActionsProps {
@@ -7,6 +7,8 @@ interface MessageActionsProps {
   onEdit: () => void;
   onRegenerate: () => void;
   onDelete: () => void;
+  // Only passed for replies that were cut off
+  onContinue?: () => void;
 }
 
 export function MessageActions({
@@ -15,6 +17,7 @@ export function MessageActions({
   onEdit,
   onRegenerate,
   onDelete,
+  onContinue,
 }: MessageActionsProps) {
   return (
     <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -30,6 +33,18 @@ export function MessageActions({
           <Edit2 className="h-3 w-3" />
         </Button>
       )}
+      {!isUser && onContinue && (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-6 w-6"
+          onClick={onContinue}
+          title="Continue response"
+          data-testid={`button-continue-message-${messageId}`}
+        >
+          <ChevronsRight className="h-3 w-3" />
+        </Button>
+      )}
       {!isUser && (
         <Button
           size="icon"
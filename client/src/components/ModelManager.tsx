@@ -0,0 +1,464 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Pencil, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useModels } from "@/hooks/use-models";
+import { type Model, MAX_OUTPUT_TOKENS, MODEL_PROVIDERS } from "@shared/schema";
+
+const formSchema = z.object({
+  id: z.string().min(1, "Model id is required").regex(/^[A-Za-z0-9._:/-]+$/, "Model id may not contain spaces"),
+  label: z.string().min(1, "Label is required"),
+  provider: z.enum(MODEL_PROVIDERS),
+  // Blank means the provider's default endpoint
+  baseUrl: z.union([z.literal(""), z.string().url("Must be a full URL, e.g. http://localhost:11434/v1")]),
+  contextWindow: z.coerce.number().int().min(1024),
+  maxOutputTokens: z.coerce.number().int().min(1).max(MAX_OUTPUT_TOKENS),
+  inputPer1M: z.coerce.number().min(0),
+  outputPer1M: z.coerce.number().min(0),
+  cacheWritePer1M: z.coerce.number().min(0),
+  cacheReadPer1M: z.coerce.number().min(0),
+  supportsVision: z.boolean(),
+  supportsPdf: z.boolean(),
+  supportsThinking: z.boolean(),
+});
+
+type FormData = z.infer<typeof formSchema>;
+
+const EMPTY_FORM: FormData = {
+  id: "",
+  label: "",
+  provider: "anthropic",
+  baseUrl: "",
+  contextWindow: 200_000,
+  maxOutputTokens: 64_000,
+  inputPer1M: 0,
+  outputPer1M: 0,
+  cacheWritePer1M: 0,
+  cacheReadPer1M: 0,
+  supportsVision: true,
+  supportsPdf: true,
+  supportsThinking: true,
+};
+
+const PROVIDER_LABELS: Record<FormData["provider"], string> = {
+  anthropic: "Anthropic",
+  openai: "OpenAI-compatible",
+};
+
+const NUMBER_FIELDS: { name: keyof FormData; label: string; step: string }[] = [
+  { name: "contextWindow", label: "Context Window", step: "1000" },
+  { name: "maxOutputTokens", label: "Max Output", step: "1000" },
+  { name: "inputPer1M", label: "Input $ / 1M", step: "0.01" },
+  { name: "outputPer1M", label: "Output $ / 1M", step: "0.01" },
+  { name: "cacheWritePer1M", label: "Cache Write $ / 1M", step: "0.01" },
+  { name: "cacheReadPer1M", label: "Cache Read $ / 1M", step: "0.01" },
+];
+
+const CAPABILITY_FIELDS: { name: "supportsVision" | "supportsPdf" | "supportsThinking"; label: string }[] = [
+  { name: "supportsVision", label: "Images" },
+  { name: "supportsPdf", label: "PDFs" },
+  { name: "supportsThinking", label: "Thinking" },
+];
+
+interface ModelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing an existing model; omitted when adding one
+  model?: Model;
+}
+
+function ModelDialog({ open, onOpenChange, model }: ModelDialogProps) {
+  const { toast } = useToast();
+
+  const form = useForm<FormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: EMPTY_FORM,
+  });
+
+  useEffect(() => {
+    if (open) {
+      // Only the form's own fields; the rest of the row (enabled, timestamps) is left alone on save
+      form.reset(model
+        ? Object.fromEntries(Object.keys(EMPTY_FORM).map((key) => [key, model[key as keyof FormData] ?? ""])) as FormData
+        : EMPTY_FORM);
+    }
+  }, [open, model, form]);
+
+  const saveModelMutation = useMutation({
+    mutationFn: async ({ baseUrl, ...fields }: FormData) => {
+      const data = { ...fields, baseUrl: fields.provider === "openai" && baseUrl ? baseUrl : null };
+      if (model) {
+        const { id: _id, ...updates } = data;
+        return await apiRequest(`/api/models/${encodeURIComponent(model.id)}`, {
+          method: "PATCH",
+          body: JSON.stringify(updates),
+        });
+      }
+      // Zero cache prices are left out so the server derives them from the input price
+      const { cacheWritePer1M, cacheReadPer1M, ...rest } = data;
+      return await apiRequest("/api/models", {
+        method: "POST",
+        body: JSON.stringify({
+          ...rest,
+          ...(cacheWritePer1M > 0 ? { cacheWritePer1M } : {}),
+          ...(cacheReadPer1M > 0 ? { cacheReadPer1M } : {}),
+        }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      toast({
+        title: "Success",
+        description: model ? "Model updated" : "Model added",
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: model ? "Failed to update model" : "Failed to add model (is the id already in use?)",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-bold uppercase tracking-wider">
+            {model ? "Edit Model" : "Add Model"}
+          </DialogTitle>
+          <DialogDescription>
+            {model
+              ? "Pricing changes apply to new usage only."
+              : "The id is sent to the API as-is and can't be changed later. Cache prices left at 0 default to 1.25x / 0.1x the input price."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveModelMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-semibold uppercase text-xs tracking-wider">Model Id</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      disabled={!!model}
+                      placeholder="claude-sonnet-4-5"
+                      className="border-2 border-border font-mono"
+                      data-testid="input-model-id"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="label"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-semibold uppercase text-xs tracking-wider">Label</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="Claude 4.5 Sonnet"
+                      className="border-2 border-border font-mono"
+                      data-testid="input-model-label"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="provider"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-semibold uppercase text-xs tracking-wider">Provider</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="border-2 border-border font-mono" data-testid="select-model-provider">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {MODEL_PROVIDERS.map((provider) => (
+                        <SelectItem key={provider} value={provider} className="font-mono">
+                          {PROVIDER_LABELS[provider]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("provider") === "openai" && (
+              <FormField
+                control={form.control}
+                name="baseUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="font-semibold uppercase text-xs tracking-wider">Base URL</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        placeholder="https://api.openai.com/v1"
+                        className="border-2 border-border font-mono"
+                        data-testid="input-model-base-url"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              {NUMBER_FIELDS.map((numberField) => (
+                <FormField
+                  key={numberField.name}
+                  control={form.control}
+                  name={numberField.name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="font-semibold uppercase text-xs tracking-wider">{numberField.label}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={numberField.step}
+                          name={field.name}
+                          value={field.value as number}
+                          onChange={field.onChange}
+                          onBlur={field.onBlur}
+                          className="border-2 border-border font-mono"
+                          data-testid={`input-model-${numberField.name}`}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <label className="font-semibold uppercase text-xs tracking-wider">Capabilities</label>
+              <div className="grid grid-cols-3 gap-3">
+                {CAPABILITY_FIELDS.map((capability) => (
+                  <FormField
+                    key={capability.name}
+                    control={form.control}
+                    name={capability.name}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            data-testid={`switch-model-${capability.name}`}
+                          />
+                        </FormControl>
+                        <FormLabel className="font-mono text-xs uppercase tracking-wider">{capability.label}</FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="font-mono uppercase tracking-wider"
+                data-testid="button-cancel-model"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveModelMutation.isPending}
+                className="font-mono uppercase tracking-wider"
+                data-testid="button-save-model"
+              >
+                {model ? "Save Changes" : "Add Model"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function formatContext(tokens: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(tokens);
+}
+
+interface ModelManagerProps {
+  defaultModel?: string;
+}
+
+// Settings section for the model registry: enable/disable, edit pricing and capabilities, add or delete models
+export function ModelManager({ defaultModel }: ModelManagerProps) {
+  const { toast } = useToast();
+  const { models, isLoading } = useModels();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingModel, setEditingModel] = useState<Model | undefined>(undefined);
+
+  const toggleModelMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      return await apiRequest(`/api/models/${encodeURIComponent(id)}`, {
+        method: "PATCH",
+        body: JSON.stringify({ enabled }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update model",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteModelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest(`/api/models/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/models"] });
+      toast({
+        title: "Success",
+        description: "Model deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete model",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (model?: Model) => {
+    setEditingModel(model);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = (model: Model) => {
+    if (confirm(`Delete ${model.label}? Past messages keep its id.`)) {
+      deleteModelMutation.mutate(model.id);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <div className="font-mono text-xs text-muted-foreground uppercase tracking-wider">Loading...</div>
+      ) : (
+        <div className="space-y-2">
+          {models.map((model) => {
+            const isDefault = model.id === defaultModel;
+            const capabilities = CAPABILITY_FIELDS.filter((c) => model[c.name]).map((c) => c.label);
+            return (
+              <div
+                key={model.id}
+                className={`flex items-center justify-between gap-3 border-2 border-border p-3 ${model.enabled ? "" : "opacity-60"}`}
+                data-testid={`model-row-${model.id}`}
+              >
+                <div className="min-w-0 space-y-1">
+                  <div className="font-mono text-sm uppercase tracking-wider truncate">
+                    {model.label}
+                    {isDefault && <span className="text-[10px] text-muted-foreground"> • Default</span>}
+                  </div>
+                  <div className="font-mono text-xs text-muted-foreground truncate">
+                    {model.id}
+                    {model.provider !== "anthropic" && ` • ${model.baseUrl || PROVIDER_LABELS[model.provider]}`}
+                  </div>
+                  <div className="font-mono text-[10px] text-muted-foreground uppercase tracking-wider">
+                    {formatContext(model.contextWindow)} ctx • ${model.inputPer1M} / ${model.outputPer1M} per 1M
+                    {capabilities.length > 0 && ` • ${capabilities.join(", ")}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Switch
+                    checked={model.enabled}
+                    disabled={isDefault}
+                    onCheckedChange={(enabled) => toggleModelMutation.mutate({ id: model.id, enabled })}
+                    title={isDefault ? "The default model can't be disabled" : model.enabled ? "Disable" : "Enable"}
+                    data-testid={`switch-model-enabled-${model.id}`}
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => openDialog(model)}
+                    title="Edit model"
+                    data-testid={`button-edit-model-${model.id}`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    disabled={isDefault}
+                    onClick={() => handleDelete(model)}
+                    title={isDefault ? "The default model can't be deleted" : "Delete model"}
+                    data-testid={`button-delete-model-${model.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <Button
+        variant="outline"
+        className="w-full font-mono text-xs uppercase tracking-wider"
+        onClick={() => openDialog()}
+        data-testid="button-add-model"
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Model
+      </Button>
+      <ModelDialog open={dialogOpen} onOpenChange={setDialogOpen} model={editingModel} />
+    </div>
+  );
+}
@@ -1,15 +1,19 @@
-import { modelOptions, type ModelValue } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
 
 interface ModelSelectorProps {
-  value: ModelValue;
-  onChange: (value: ModelValue) => void;
+  value: string;
+  onChange: (value: string) => void;
 }
 
 export function ModelSelector({ value, onChange }: ModelSelectorProps) {
+  const { enabledModels, getModelLabel } = useModels();
+  // Keep a conversation's model visible even after it was disabled in Settings
+  const isListed = enabledModels.some((m) => m.id === value);
+
   return (
     <div className="flex items-center gap-3">
-      <label 
-        htmlFor="model-select" 
+      <label
+        htmlFor="model-select"
         className="hidden sm:inline text-sm font-bold tracking-[0.1em] whitespace-nowrap"
       >
         [ MODEL ]
@@ -17,14 +21,19 @@ export function ModelSelector({ value, onChange }: ModelSelectorProps) {
       <select
         id="model-select"
         value={value}
-        onChange={(e) => onChange(e.target.value as ModelValue)}
+        onChange={(e) => onChange(e.target.value)}
         className="bg-card text-card-foreground border-2 border-border font-mono text-sm uppercase px-3 py-2 cursor-pointer transition-all hover-elevate shadow-md"
         style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}
         data-testid="select-model"
       >
-        {modelOptions.map((option) => (
-          <option key={option.value} value={option.value}>
-            {option.label}
+        {!isListed && (
+          <option value={value} disabled>
+            {getModelLabel(value)}
+          </option>
+        )}
+        {enabledModels.map((model) => (
+          <option key={model.id} value={model.id}>
+            {model.label}
           </option>
         ))}
       </select>
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { ChevronRight, ChevronDown } from "lucide-react";
+import { type ProjectContextInfo } from "@shared/schema";
+import { Collapsible, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+interface ProjectContextMarkerProps {
+  projectContext: ProjectContextInfo;
+  testId?: string;
+}
+
+function describeProjectContext(projectContext: ProjectContextInfo): string {
+  const parts: string[] = [];
+  if (projectContext.instructions) parts.push("instructions");
+  const sent = projectContext.files.filter((file) => file.status !== "omitted").length;
+  if (sent > 0) parts.push(`${sent} ${sent === 1 ? "file" : "files"}`);
+  const omitted = projectContext.files.length - sent;
+  if (omitted > 0) parts.push(`${omitted} omitted`);
+  return parts.length > 0 ? parts.join(", ") : "nothing sent";
+}
+
+const STATUS_LABELS: Record<ProjectContextInfo["files"][number]["status"], string> = {
+  included: "Sent",
+  truncated: "Truncated",
+  omitted: "Omitted",
+};
+
+// Divider shown above a reply whose request carried its project's instructions and files
+export function ProjectContextMarker({ projectContext, testId = "project-context-marker" }: ProjectContextMarkerProps) {
+  const [open, setOpen] = useState(false);
+  const label = `Project ${projectContext.projectName}: ${describeProjectContext(projectContext)}`;
+  const tokens = `~${projectContext.usedTokens.toLocaleString()} of ${projectContext.budgetTokens.toLocaleString()} file tokens`;
+
+  return (
+    <div className="flex flex-col items-center my-2 px-4" data-testid={testId}>
+      <div className="flex items-center gap-2 w-full">
+        <div className="flex-1 border-t-2 border-dotted border-border" />
+        {projectContext.files.length > 0 ? (
+          <Collapsible open={open} onOpenChange={setOpen}>
+            <CollapsibleTrigger
+              className="flex items-center gap-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground hover-elevate px-1 py-0.5"
+              title={tokens}
+              data-testid={`button-toggle-${testId}`}
+            >
+              {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              <span>{label}</span>
+            </CollapsibleTrigger>
+          </Collapsible>
+        ) : (
+          <span className="font-mono text-[10px] uppercase tracking-wider text-muted-foreground">
+            {label}
+          </span>
+        )}
+        <div className="flex-1 border-t-2 border-dotted border-border" />
+      </div>
+      {open && (
+        <div
+          className="mt-2 max-w-[75%] w-full border-l-2 border-border pl-3 font-mono text-xs space-y-0.5"
+          data-testid={`${testId}-files`}
+        >
+          {projectContext.files.map((file) => (
+            <div
+              key={file.id}
+              className={`flex items-center justify-between gap-3 ${file.status === "omitted" ? "text-muted-foreground" : ""}`}
+              data-testid={`${testId}-file-${file.id}`}
+            >
+              <span className={`truncate ${file.status === "omitted" ? "line-through" : ""}`}>{file.name}</span>
+              <span className="text-[10px] uppercase tracking-wider text-muted-foreground whitespace-nowrap">
+                {STATUS_LABELS[file.status]}
+                {file.status !== "omitted" && ` · ~${file.tokens.toLocaleString()} tok`}
+                {file.reason && ` · ${file.reason}`}
+              </span>
+            </div>
+          ))}
+          <div className="text-[10px] uppercase tracking-wider text-muted-foreground pt-1">{tokens}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,8 +17,11 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Project, ProjectFile } from "@shared/schema";
-import { Upload, X, File } from "lucide-react";
+import { Project, type ProjectFileSummary, type GenerationParams } from "@shared/schema";
+import { useSettings } from "@/contexts/SettingsContext";
+import { GenerationParamsFields } from "./GenerationParamsFields";
+import { ApiKeySelect } from "./ApiKeySelect";
+import { Upload, X, File, ChevronRight, ChevronDown } from "lucide-react";
 
 const formSchema = z.object({
   name: z.string().min(1, "Project name is required"),
@@ -33,11 +36,117 @@ interface ProjectDialogProps {
   project: Project;
 }
 
+interface FileTextPreview {
+  text: string;
+  totalChars: number | null;
+  error: string | null;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + " B";
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
+  return (bytes / (1024 * 1024)).toFixed(1) + " MB";
+};
+
+function describeExtraction(file: ProjectFileSummary): string | null {
+  if (file.extractionError) return "Extraction failed";
+  if (file.extractedChars === null) return null;
+  return `${file.extractedChars.toLocaleString()} chars`;
+}
+
+// One uploaded file, with the text Claude receives for it one click away
+function ProjectFileItem({ file, onDelete }: { file: ProjectFileSummary; onDelete: () => void }) {
+  const [previewOpen, setPreviewOpen] = useState(false);
+  const extraction = describeExtraction(file);
+  const { data: preview, isLoading } = useQuery<FileTextPreview>({
+    queryKey: ["/api/files", file.id, "text"],
+    enabled: previewOpen,
+  });
+
+  return (
+    <div className="border border-border" data-testid={`file-item-${file.id}`}>
+      <div className="flex items-center justify-between p-2 hover-elevate">
+        <div className="flex items-center gap-2 flex-1 min-w-0">
+          {file.thumbnail ? (
+            <img
+              src={file.thumbnail}
+              alt=""
+              className="h-8 w-8 object-cover border border-border flex-shrink-0"
+              data-testid={`img-file-thumbnail-${file.id}`}
+            />
+          ) : (
+            <File className="h-4 w-4 flex-shrink-0" />
+          )}
+          <a
+            href={`/api/files/${file.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="truncate text-sm font-mono hover:underline"
+            data-testid={`link-file-${file.id}`}
+          >
+            {file.originalName}
+          </a>
+          <span className="text-xs text-muted-foreground flex-shrink-0">
+            {formatFileSize(file.size)}
+          </span>
+          {extraction && (
+            <button
+              type="button"
+              onClick={() => setPreviewOpen(!previewOpen)}
+              className={`flex items-center gap-1 text-[10px] uppercase tracking-wider flex-shrink-0 hover-elevate px-1 ${file.extractionError ? "text-destructive" : "text-muted-foreground"}`}
+              data-testid={`button-preview-file-${file.id}`}
+            >
+              {previewOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              {extraction}
+            </button>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onDelete}
+          className="h-6 w-6 flex items-center justify-center hover-elevate"
+          data-testid={`button-delete-file-${file.id}`}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+      {previewOpen && (
+        <div className="border-t border-border p-2 space-y-1" data-testid={`file-preview-${file.id}`}>
+          {file.mimeType === "application/pdf" && (
+            <p className="text-[10px] uppercase tracking-wider text-muted-foreground">
+              Models that read PDFs get the original file; others get this text.
+            </p>
+          )}
+          {isLoading ? (
+            <div className="text-xs text-muted-foreground font-mono">Loading...</div>
+          ) : preview?.error ? (
+            <div className="text-xs text-destructive font-mono">{preview.error}</div>
+          ) : (
+            <>
+              <pre className="max-h-64 overflow-auto whitespace-pre-wrap break-words text-xs font-mono bg-muted p-2">
+                {preview?.text || "No text found."}
+              </pre>
+              {preview?.totalChars != null && preview.totalChars > preview.text.length && (
+                <p className="text-[10px] uppercase tracking-wider text-muted-foreground">
+                  Showing the first {preview.text.length.toLocaleString()} of {preview.totalChars.toLocaleString()} chars
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function ProjectDialog({ open, onOpenChange, project }: ProjectDialogProps) {
   const { toast } = useToast();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [generationParams, setGenerationParams] = useState<GenerationParams>(project.generationParams ?? {});
+  const [apiKeyId, setApiKeyId] = useState<number | null>(project.apiKeyId);
+  const { settings } = useSettings();
 
-  const { data: projectFiles = [] } = useQuery<ProjectFile[]>({
+  const { data: projectFiles = [] } = useQuery<ProjectFileSummary[]>({
     queryKey: ["/api/projects", project.id, "files"],
     queryFn: async () => {
       const response = await fetch(`/api/projects/${project.id}/files`);
@@ -61,14 +170,20 @@ export function ProjectDialog({ open, onOpenChange, project }: ProjectDialogProp
         name: project.name,
         instructions: project.instructions || "",
       });
+      setGenerationParams(project.generationParams ?? {});
+      setApiKeyId(project.apiKeyId);
     }
-  }, [open, project.id, project.name, project.instructions, form]);
+  }, [open, project.id, project.name, project.instructions, project.generationParams, project.apiKeyId, form]);
 
   const updateProjectMutation = useMutation({
     mutationFn: async (data: FormData) => {
       return await apiRequest(`/api/projects/${project.id}`, {
         method: "PATCH",
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          generationParams: Object.keys(generationParams).length > 0 ? generationParams : null,
+          apiKeyId,
+        }),
       });
     },
     onSuccess: () => {
@@ -89,7 +204,7 @@ export function ProjectDialog({ open, onOpenChange, project }: ProjectDialogProp
   });
 
   const uploadFileMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async (file: File): Promise<ProjectFileSummary> => {
       const formData = new FormData();
       formData.append("file", file);
       
@@ -101,12 +216,12 @@ export function ProjectDialog({ open, onOpenChange, project }: ProjectDialogProp
       if (!response.ok) throw new Error("Upload failed");
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (file) => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects", project.id, "files"] });
       setSelectedFile(null);
       toast({
         title: "Success",
-        description: "File uploaded",
+        description: file.duplicate ? `${file.originalName} is already in this project` : "File uploaded",
       });
     },
     onError: () => {
@@ -157,12 +272,6 @@ export function ProjectDialog({ open, onOpenChange, project }: ProjectDialogProp
     updateProjectMutation.mutate(data);
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + " B";
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + " KB";
-    return (bytes / (1024 * 1024)).toFixed(1) + " MB";
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
@@ -222,32 +331,21 @@ export function ProjectDialog({ open, onOpenChange, project }: ProjectDialogProp
               <label className="font-semibold uppercase text-xs tracking-wider">
                 Project Files
               </label>
+              <p className="text-xs text-muted-foreground">
+                Sent with every chat in this project, oldest first, within a quarter of the model's context window (at most 50K tokens).
+                Each reply shows which files made it in. PDFs, Word documents and text files are sent as the text extracted at
+                upload, which you can preview below; models that read PDFs get the original PDF instead.
+              </p>
               
               <div className="border-2 border-border p-4">
                 {projectFiles.length > 0 ? (
                   <div className="space-y-2 mb-4">
                     {projectFiles.map((file) => (
-                      <div
+                      <ProjectFileItem
                         key={file.id}
-                        className="flex items-center justify-between p-2 hover-elevate border border-border"
-                        data-testid={`file-item-${file.id}`}
-                      >
-                        <div className="flex items-center gap-2 flex-1 min-w-0">
-                          <File className="h-4 w-4 flex-shrink-0" />
-                          <span className="truncate text-sm font-mono">{file.originalName}</span>
-                          <span className="text-xs text-muted-foreground flex-shrink-0">
-                            {formatFileSize(file.size)}
-                          </span>
-                        </div>
-                        <button
-                          type="button"
-                          onClick={() => deleteFileMutation.mutate(file.id)}
-                          className="h-6 w-6 flex items-center justify-center hover-elevate"
-                          data-testid={`button-delete-file-${file.id}`}
-                        >
-                          <X className="h-4 w-4" />
-                        </button>
-                      </div>
+                        file={file}
+                        onDelete={() => deleteFileMutation.mutate(file.id)}
+                      />
                     ))}
                   </div>
                 ) : (
@@ -278,6 +376,38 @@ export function ProjectDialog({ open, onOpenChange, project }: ProjectDialogProp
               </div>
             </div>
 
+            <div className="space-y-2">
+              <label className="font-semibold uppercase text-xs tracking-wider">
+                Generation Defaults
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Used by chats in this project unless a conversation overrides them. Blank fields use the global defaults.
+              </p>
+              <div className="border-2 border-border p-4">
+                <GenerationParamsFields
+                  value={generationParams}
+                  inherited={settings?.generationParams}
+                  onChange={setGenerationParams}
+                  testIdPrefix="project-"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="font-semibold uppercase text-xs tracking-wider">
+                API Key
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Pays for chats in this project unless a conversation picks its own. Used only for models from the key's provider.
+              </p>
+              <ApiKeySelect
+                value={apiKeyId}
+                onChange={setApiKeyId}
+                inheritLabel="Environment key"
+                testId="select-project-api-key"
+              />
+            </div>
+
             <DialogFooter className="gap-2">
               <button
                 type="button"
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { type App } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PromoteAppDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ledgerId: number;
+  ledgerTitle: string;
+  versionNumber: number;
+}
+
+// Snapshots one code ledger version into a standalone app and opens it
+export function PromoteAppDialog({ open, onOpenChange, ledgerId, ledgerTitle, versionNumber }: PromoteAppDialogProps) {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [name, setName] = useState(ledgerTitle);
+
+  useEffect(() => {
+    if (open) setName(ledgerTitle);
+  }, [open, ledgerTitle]);
+
+  const promoteMutation = useMutation({
+    mutationFn: async (): Promise<App> => {
+      return await apiRequest("/api/apps", {
+        method: "POST",
+        body: JSON.stringify({ ledgerId, versionNumber, name: name.trim() }),
+      });
+    },
+    onSuccess: (app) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/apps"] });
+      toast({
+        title: "Success",
+        description: `Promoted to /apps/${app.slug}`,
+      });
+      onOpenChange(false);
+      navigate(`/apps/${app.slug}`);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to promote ledger",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="font-bold tracking-[0.05em]">
+            ══ PROMOTE TO APP ══
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            Runs v{versionNumber} full-screen at its own address, with storage that keeps its data across
+            reloads (<code>window.appKv</code>). Later edits to the ledger don't change the app.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="app-name" className="uppercase tracking-wider text-xs">
+            App name
+          </Label>
+          <Input
+            id="app-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            data-testid="input-app-name"
+          />
+        </div>
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            data-testid="button-cancel-promote"
+          >
+            CANCEL
+          </Button>
+          <Button
+            onClick={() => promoteMutation.mutate()}
+            disabled={!name.trim() || promoteMutation.isPending}
+            data-testid="button-confirm-promote"
+          >
+            {promoteMutation.isPending ? "PROMOTING..." : "PROMOTE"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
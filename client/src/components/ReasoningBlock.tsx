@@ -0,0 +1,33 @@
+import { useState } from "react";
+import { ChevronRight, ChevronDown } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+interface ReasoningBlockProps {
+  thinking: string;
+  isStreaming?: boolean;
+  testId?: string;
+}
+
+export function ReasoningBlock({ thinking, isStreaming = false, testId = "reasoning" }: ReasoningBlockProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-3">
+      <CollapsibleTrigger
+        className="flex items-center gap-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground hover-elevate px-1 py-0.5"
+        data-testid={`button-toggle-${testId}`}
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <span>{isStreaming ? "Reasoning..." : "Reasoning"}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div
+          className="mt-2 border-l-2 border-border pl-3 font-mono text-xs text-muted-foreground whitespace-pre-wrap break-words max-h-80 overflow-y-auto"
+          data-testid={testId}
+        >
+          {thinking}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,44 @@
+import { MIN_THINKING_BUDGET } from "@shared/schema";
+
+const BUDGET_OPTIONS = [MIN_THINKING_BUDGET, 4096, 8192, 16000, 32000];
+
+interface ThinkingToggleProps {
+  enabled: boolean;
+  budget: number;
+  onEnabledChange: (enabled: boolean) => void;
+  onBudgetChange: (budget: number) => void;
+}
+
+export function ThinkingToggle({ enabled, budget, onEnabledChange, onBudgetChange }: ThinkingToggleProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={() => onEnabledChange(!enabled)}
+        className={`border-2 border-border font-mono text-sm uppercase px-3 py-2 hover-elevate whitespace-nowrap ${enabled ? "bg-foreground text-background" : "bg-card text-card-foreground"}`}
+        style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}
+        title={enabled ? "Extended thinking on" : "Extended thinking off"}
+        aria-pressed={enabled}
+        data-testid="button-toggle-thinking"
+      >
+        [ Think ]
+      </button>
+      {enabled && (
+        <select
+          value={budget}
+          onChange={(e) => onBudgetChange(parseInt(e.target.value, 10))}
+          className="bg-card text-card-foreground border-2 border-border font-mono text-sm px-2 py-2 cursor-pointer hover-elevate"
+          style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}
+          title="Thinking budget (tokens)"
+          data-testid="select-thinking-budget"
+        >
+          {BUDGET_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option.toLocaleString()} tok
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { type Message, type ModelValue, type FileAttachment, modelOptions } from "@shared/schema";
+import { type Message, type FileAttachment, type LedgerAttachment } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
 import { X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ChatInput } from "./ChatInput";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { consumeChatStream, openChatJobEvents } from "@/lib/chatStream";
 import { useToast } from "@/hooks/use-toast";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
@@ -12,7 +14,7 @@ interface ThreadPanelProps {
   rootMessage: Message;
   threadMessages: Message[];
   conversationId: number;
-  selectedModel: ModelValue;
+  selectedModel: string;
   systemPrompt?: string | null;
   onClose: () => void;
 }
@@ -30,6 +32,8 @@ export function ThreadPanel({
   const [sendCount, setSendCount] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const draftTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // True while this panel is reading a reply stream, whether it sent the message or reattached
+  const attachedRef = useRef(false);
   const { toast } = useToast();
 
   const saveThreadDraft = useCallback(async (draft: string) => {
@@ -72,14 +76,72 @@ export function ThreadPanel({
     scrollToBottom();
   }, [threadMessages, streamingContent]);
 
-  const getModelLabel = (modelValue?: string | null) => {
-    if (!modelValue) return "";
-    const model = modelOptions.find(m => m.value === modelValue);
-    return model ? model.label : modelValue;
+  const { getModelLabel } = useModels();
+
+  // Shows a reply as it streams, then refreshes the stored thread
+  const followReply = async (response: Response, signal?: AbortSignal) => {
+    let fullContent = "";
+
+    await consumeChatStream(response, {
+      signal,
+      onPayload: (parsed) => {
+        if (parsed.content) {
+          fullContent += parsed.content;
+          setStreamingContent(fullContent);
+        }
+      },
+    });
+
+    await queryClient.invalidateQueries({ 
+      queryKey: ["/api/conversations", conversationId, "messages"] 
+    });
   };
 
-  const handleSendMessage = async (content: string, files?: FileAttachment[]) => {
+  // Reattach to this thread's in-flight reply (e.g. after a reload); the server replays it from the start
+  useEffect(() => {
+    const abortController = new AbortController();
+    let reattached = false;
+    (async () => {
+      try {
+        const activeJob = await apiRequest(`/api/conversations/${conversationId}/active-job`);
+        if (abortController.signal.aborted || !activeJob || activeJob.threadRootId !== rootMessage.id || attachedRef.current) {
+          return;
+        }
+
+        reattached = true;
+        attachedRef.current = true;
+        setIsStreaming(true);
+        setStreamingContent("");
+        const response = await openChatJobEvents(activeJob.jobId, 0, abortController.signal);
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+        await followReply(response, abortController.signal);
+      } catch (error) {
+        if (!abortController.signal.aborted) {
+          console.error("Failed to reattach to thread reply:", error);
+        }
+      } finally {
+        if (reattached && !abortController.signal.aborted) {
+          attachedRef.current = false;
+          setIsStreaming(false);
+          setStreamingContent("");
+        }
+      }
+    })();
+
+    return () => {
+      abortController.abort();
+      if (reattached) {
+        attachedRef.current = false;
+        setIsStreaming(false);
+        setStreamingContent("");
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reattach only when the thread changes
+  }, [conversationId, rootMessage.id]);
+
+  const handleSendMessage = async (content: string, files?: FileAttachment[], ledgers?: LedgerAttachment[]) => {
     try {
+      attachedRef.current = true;
       setIsStreaming(true);
       setStreamingContent("");
 
@@ -104,6 +166,10 @@ export function ThreadPanel({
         requestBody.files = files;
       }
 
+      if (ledgers && ledgers.length > 0) {
+        requestBody.ledgers = ledgers;
+      }
+
       const response = await fetch("/api/chat", {
         method: "POST",
         headers: {
@@ -116,41 +182,7 @@ export function ThreadPanel({
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = "";
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split("\n");
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") {
-                continue;
-              }
-              try {
-                const parsed = JSON.parse(data);
-                if (parsed.content) {
-                  fullContent += parsed.content;
-                  setStreamingContent(fullContent);
-                }
-              } catch (e) {
-                // Skip invalid JSON
-              }
-            }
-          }
-        }
-      }
-
-      await queryClient.invalidateQueries({ 
-        queryKey: ["/api/conversations", conversationId, "messages"] 
-      });
+      await followReply(response);
 
       if (draftTimeoutRef.current) {
         clearTimeout(draftTimeoutRef.current);
@@ -158,6 +190,7 @@ export function ThreadPanel({
       saveThreadDraft("");
       setSendCount(c => c + 1);
 
+      attachedRef.current = false;
       setIsStreaming(false);
       setStreamingContent("");
     } catch (error) {
@@ -167,6 +200,7 @@ export function ThreadPanel({
         description: "Failed to send message. Please try again.",
         variant: "destructive",
       });
+      attachedRef.current = false;
       setIsStreaming(false);
       setStreamingContent("");
     }
@@ -252,6 +286,7 @@ export function ThreadPanel({
           disabled={isStreaming}
           placeholder="Reply in thread..."
           testIdPrefix="thread-"
+          conversationId={conversationId}
           initialValue={sendCount === 0 ? (rootMessage.threadDraft || "") : ""}
           onDraftChange={handleDraftChange}
         />
@@ -0,0 +1,46 @@
+import { useState } from "react";
+import { ChevronRight, ChevronDown, Wrench } from "lucide-react";
+import { type ToolCallRecord } from "@shared/schema";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+interface ToolCallBlockProps {
+  toolCall: ToolCallRecord;
+  testId?: string;
+}
+
+export function ToolCallBlock({ toolCall, testId = `tool-call-${toolCall.id}` }: ToolCallBlockProps) {
+  const [open, setOpen] = useState(false);
+  const isPending = toolCall.result === undefined;
+  const status = isPending ? "running..." : toolCall.isError ? "failed" : "done";
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-2">
+      <CollapsibleTrigger
+        className="flex items-center gap-1 font-mono text-[10px] uppercase tracking-wider text-muted-foreground hover-elevate px-1 py-0.5"
+        data-testid={`button-toggle-${testId}`}
+      >
+        {open ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+        <Wrench className="h-3 w-3" />
+        <span>{toolCall.name}</span>
+        <span className={toolCall.isError ? "text-destructive" : "opacity-70"}>• {status}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div
+          className="mt-2 border-l-2 border-border pl-3 font-mono text-xs text-muted-foreground space-y-2"
+          data-testid={testId}
+        >
+          <div>
+            <div className="uppercase tracking-wider text-[10px] mb-1">Input</div>
+            <pre className="whitespace-pre-wrap break-words">{JSON.stringify(toolCall.input, null, 2)}</pre>
+          </div>
+          {!isPending && (
+            <div>
+              <div className="uppercase tracking-wider text-[10px] mb-1">Result</div>
+              <pre className="whitespace-pre-wrap break-words max-h-60 overflow-y-auto">{toolCall.result}</pre>
+            </div>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -1,6 +1,6 @@
 import { createContext, useContext, useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { type Settings } from "@shared/schema";
+import { type Settings, DEFAULT_MODEL_ID } from "@shared/schema";
 
 interface SettingsContextType {
   settings: Settings | undefined;
@@ -9,10 +9,12 @@ interface SettingsContextType {
 }
 
 const defaultSettings: Partial<Settings> = {
-  defaultModel: "claude-sonnet-4-5",
+  defaultModel: DEFAULT_MODEL_ID,
   theme: "system",
   autoTitle: true,
   fontSize: "medium",
+  compactionStrategy: "summarize",
+  generationParams: {},
 };
 
 const SettingsContext = createContext<SettingsContextType>({
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { type ApiKey } from "@shared/schema";
+
+// Stored provider keys from /api/api-keys (secrets are never sent to the client)
+export function useApiKeys() {
+  const { data: apiKeys = [], isLoading } = useQuery<ApiKey[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const activeKeys = apiKeys.filter((k) => !k.revokedAt);
+
+  // null is the provider's environment key
+  const getKeyLabel = (id?: number | null) => {
+    if (!id) return "Environment key";
+    const key = apiKeys.find((k) => k.id === id);
+    return key ? `${key.label} ${key.keyHint}` : `Key #${id}`;
+  };
+
+  return { apiKeys, activeKeys, isLoading, getKeyLabel };
+}
@@ -0,0 +1,74 @@
+import { useEffect, type RefObject } from "react";
+import { type SandpackPreviewRef } from "@codesandbox/sandpack-react";
+import { APP_KV_REQUEST, APP_KV_RESPONSE } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface KvRequest {
+  type: typeof APP_KV_REQUEST;
+  appId: number;
+  requestId: number;
+  op: "get" | "set" | "delete" | "list";
+  key?: unknown;
+  value?: unknown;
+}
+
+function requireKey(key: unknown): string {
+  if (typeof key !== "string" || !key) throw new Error("Key must be a non-empty string");
+  return key;
+}
+
+async function runKvRequest(appId: number, request: KvRequest): Promise<unknown> {
+  const base = `/api/apps/${appId}/kv`;
+  switch (request.op) {
+    case "get": {
+      const response = await fetch(`${base}/${encodeURIComponent(requireKey(request.key))}`);
+      // A missing key reads as null rather than an error
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Failed to read key (${response.status})`);
+      return (await response.json()).value;
+    }
+    case "set":
+      await apiRequest(`${base}/${encodeURIComponent(requireKey(request.key))}`, {
+        method: "PUT",
+        body: JSON.stringify({ value: request.value }),
+      });
+      return null;
+    case "delete":
+      await apiRequest(`${base}/${encodeURIComponent(requireKey(request.key))}`, { method: "DELETE" });
+      return null;
+    case "list": {
+      const entries: Array<{ key: string; value: unknown }> = await apiRequest(base);
+      return entries.map(({ key, value }) => ({ key, value }));
+    }
+    default:
+      throw new Error(`Unknown operation: ${String(request.op)}`);
+  }
+}
+
+/**
+ * Answers `window.appKv` calls from an app's preview (see server/appKvClient.ts). The preview runs
+ * on the sandbox's origin and can't reach the API itself, so it posts each call here. Only the
+ * preview's own frame is answered; any other window could put any appId in its message.
+ */
+export function useAppKvBridge(appId: number | null, previewRef: RefObject<SandpackPreviewRef | null>) {
+  useEffect(() => {
+    if (appId === null) return;
+
+    const handleMessage = async (event: MessageEvent) => {
+      const request = event.data as KvRequest | null;
+      if (!request || request.type !== APP_KV_REQUEST || request.appId !== appId) return;
+      const preview = previewRef.current?.getClient()?.iframe.contentWindow;
+      if (!preview || event.source !== preview) return;
+      try {
+        const result = await runKvRequest(appId, request);
+        preview.postMessage({ type: APP_KV_RESPONSE, requestId: request.requestId, result }, event.origin);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        preview.postMessage({ type: APP_KV_RESPONSE, requestId: request.requestId, error: message }, event.origin);
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [appId, previewRef]);
+}
@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { type Ledger, type LedgerType } from "@shared/schema";
+
+export type LedgerScopeFilter =
+  | { kind: "conversation"; id: number | null }
+  | { kind: "project"; id: number | null }
+  | { kind: "all" };
+
+export interface LedgerSearchFilter {
+  query?: string;
+  types?: LedgerType[];
+  // ISO date; only ledgers updated since then
+  since?: string;
+  archived?: boolean;
+}
+
+function filterParams(filter: LedgerSearchFilter): string {
+  const params = new URLSearchParams();
+  if (filter.query?.trim()) params.set("q", filter.query.trim());
+  if (filter.types?.length) params.set("types", filter.types.join(","));
+  if (filter.since) params.set("since", filter.since);
+  if (filter.archived) params.set("archived", "true");
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+function scopeUrl(scope: LedgerScopeFilter): string | null {
+  if (scope.kind === "all") return "/api/ledgers";
+  if (scope.id === null) return null;
+  return scope.kind === "conversation" ? `/api/conversations/${scope.id}/ledgers` : `/api/projects/${scope.id}/ledgers`;
+}
+
+// Ledger list for a chat, a project or everything. Keys all start with "/api/ledgers",
+// so invalidating that refreshes every scope.
+export function useLedgers(
+  scope: LedgerScopeFilter,
+  options: { refetchInterval?: number; filter?: LedgerSearchFilter } = {},
+) {
+  const url = scopeUrl(scope);
+  const search = filterParams(options.filter ?? {});
+  const { data: ledgers = [], isLoading, isError } = useQuery<Ledger[]>({
+    queryKey: ["/api/ledgers", "scope", scope.kind, scope.kind === "all" ? null : scope.id, search],
+    queryFn: async () => {
+      const response = await fetch(url! + search);
+      if (!response.ok) throw new Error("Failed to fetch ledgers");
+      return response.json();
+    },
+    enabled: url !== null,
+    refetchInterval: options.refetchInterval,
+  });
+
+  return { ledgers, isLoading: url !== null && isLoading, isError };
+}
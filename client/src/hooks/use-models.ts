@@ -0,0 +1,17 @@
+import { useQuery } from "@tanstack/react-query";
+import { type Model } from "@shared/schema";
+
+// Model registry from /api/models. Labels fall back to the raw id for models that were deleted.
+export function useModels() {
+  const { data: models = [], isLoading } = useQuery<Model[]>({
+    queryKey: ["/api/models"],
+  });
+
+  const enabledModels = models.filter((m) => m.enabled);
+
+  const getModel = (id?: string | null) => (id ? models.find((m) => m.id === id) : undefined);
+
+  const getModelLabel = (id?: string | null) => (id ? getModel(id)?.label ?? id : "");
+
+  return { models, enabledModels, isLoading, getModel, getModelLabel };
+}
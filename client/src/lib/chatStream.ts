@@ -0,0 +1,151 @@
+import { type CompactionInfo, type LedgerType, type ProjectContextInfo } from "@shared/schema";
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+
+/**
+ * One event of a chat job. An event sets only the fields it is about, and compare events
+ * also carry the model whose column they belong to.
+ */
+export interface ChatStreamPayload {
+  // First event of every job
+  jobId?: string;
+  userMessageId?: number;
+  compare?: string[];
+  continuesMessageId?: number;
+  prefix?: string;
+  model?: string;
+  // While the reply streams
+  content?: string;
+  thinking?: string;
+  compaction?: CompactionInfo;
+  projectContext?: ProjectContextInfo;
+  toolCall?: { id: string; name: string; input: unknown };
+  toolResult?: { id: string; content: string; isError: boolean };
+  ledger?: { index: number; id: number; title: string; type: LedgerType; versionNumber: number };
+  // Once the reply is saved, or the job failed
+  savedMessageId?: number;
+  stopped?: boolean;
+  costUsd?: number | null;
+  latencyMs?: number;
+  error?: string;
+}
+
+export interface ChatStreamHandlers {
+  onPayload: (payload: ChatStreamPayload) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Parses an SSE response body, calling onEvent for every event.
+ * Buffers across chunks so events split over network packets are not dropped.
+ */
+async function readSseEvents(
+  response: Response,
+  onEvent: (id: number | null, data: string) => void,
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      let id: number | null = null;
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("id: ")) {
+          id = parseInt(line.slice(4), 10);
+        } else if (line.startsWith("data: ")) {
+          dataLines.push(line.slice(6));
+        }
+      }
+      if (dataLines.length > 0) {
+        onEvent(id, dataLines.join("\n"));
+      }
+    }
+  }
+}
+
+export function openChatJobEvents(jobId: string, lastEventId: number, signal?: AbortSignal): Promise<Response> {
+  return fetch(`/api/chat/jobs/${jobId}/events`, {
+    headers: { "Last-Event-ID": String(lastEventId) },
+    signal,
+  });
+}
+
+/**
+ * Consumes a chat job's event stream until [DONE]. If the connection drops first,
+ * reconnects with Last-Event-ID so the server replays only the events we missed.
+ */
+export async function consumeChatStream(initialResponse: Response, { onPayload, signal }: ChatStreamHandlers): Promise<void> {
+  let response: Response | null = initialResponse;
+  let jobId: string | null = null;
+  let lastEventId = 0;
+  let isDone = false;
+  let attempts = 0;
+  // Set while onPayload runs, so an error it throws isn't mistaken for a dropped connection
+  let inPayloadHandler = false;
+
+  const handleEvent = (id: number | null, data: string) => {
+    // Events are flowing again, so later drops get the full set of retries
+    attempts = 0;
+    if (id !== null) lastEventId = id;
+    if (data === "[DONE]") {
+      isDone = true;
+      return;
+    }
+    let parsed: ChatStreamPayload;
+    try {
+      parsed = JSON.parse(data);
+    } catch (e) {
+      // Skip invalid JSON
+      return;
+    }
+    if (typeof parsed?.jobId === "string") {
+      jobId = parsed.jobId;
+    }
+    inPayloadHandler = true;
+    onPayload(parsed);
+    inPayloadHandler = false;
+  };
+
+  while (true) {
+    if (response) {
+      try {
+        await readSseEvents(response, handleEvent);
+      } catch (error) {
+        if (signal?.aborted || inPayloadHandler) throw error;
+        console.warn("Chat stream interrupted, reconnecting:", error);
+      }
+    }
+    if (isDone) return;
+    if (!jobId || attempts >= MAX_RECONNECT_ATTEMPTS) {
+      throw new Error("Chat stream ended before completion");
+    }
+
+    attempts += 1;
+    await new Promise((resolve) => setTimeout(resolve, 500 * attempts));
+    try {
+      response = await openChatJobEvents(jobId, lastEventId, signal);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      response = null;
+      continue;
+    }
+    if (response.status === 404) {
+      throw new Error("Chat job no longer exists");
+    }
+    if (!response.ok) {
+      response = null;
+    }
+  }
+}
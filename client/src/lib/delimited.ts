@@ -0,0 +1,63 @@
+export interface DelimitedTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// TSV when the header line has more tabs than commas, CSV otherwise
+function detectDelimiter(text: string): "," | "\t" {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const tabs = firstLine.split("\t").length;
+  const commas = firstLine.split(",").length;
+  return tabs > commas ? "\t" : ",";
+}
+
+/**
+ * Parses CSV or TSV with a header row. Quoted fields may contain the delimiter, newlines and
+ * doubled quotes (RFC 4180). Short rows are padded so every row has one cell per header.
+ */
+export function parseDelimited(text: string): DelimitedTable {
+  const source = text.replace(/^\uFEFF/, "").trim();
+  if (!source) return { headers: [], rows: [] };
+  const delimiter = detectDelimiter(source);
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  record.push(field);
+  records.push(record);
+
+  const [headerRecord, ...bodyRecords] = records;
+  const headers = headerRecord.map((header, index) => header.trim() || `Column ${index + 1}`);
+  const rows = bodyRecords
+    .filter((row) => row.some((cell) => cell.trim() !== ""))
+    .map((row) => headers.map((_, index) => row[index] ?? ""));
+  return { headers, rows };
+}
@@ -76,6 +76,32 @@ export function getActivePath(
   return path;
 }
 
+/**
+ * Branch choices that put `messageId` on the main path. A thread reply can't be shown there,
+ * so its thread's root is selected instead and returned as `threadRootId`.
+ */
+export function getSelectionsForMessage(
+  messages: Message[],
+  messageId: number
+): { selections: BranchSelection; threadRootId: number | null } {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  const selections: BranchSelection = {};
+  let threadRootId: number | null = null;
+
+  let current = byId.get(messageId);
+  while (current?.isThreadMessage) {
+    current = current.parentMessageId != null ? byId.get(current.parentMessageId) : undefined;
+    threadRootId = current?.id ?? null;
+  }
+  while (current) {
+    const message: Message = current;
+    selections[normalizeParentId(message.parentMessageId)] = getSiblings(messages, message).findIndex(m => m.id === message.id);
+    current = message.parentMessageId != null ? byId.get(message.parentMessageId) : undefined;
+  }
+
+  return { selections, threadRootId };
+}
+
 export function findLastMessageInPath(path: Message[]): Message | null {
   return path.length > 0 ? path[path.length - 1] : null;
 }
@@ -0,0 +1,144 @@
+export type DiffOpType = "equal" | "delete" | "insert";
+
+export interface DiffOp {
+  type: DiffOpType;
+  value: string;
+}
+
+// Above this many LCS cells the changed middle is shown as one replaced block instead
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Longest-common-subsequence diff of two token lists. The shared prefix and suffix are
+ * trimmed first, so the quadratic table only covers the region that actually changed.
+ */
+export function diffTokens(oldTokens: string[], newTokens: string[]): DiffOp[] {
+  let start = 0;
+  while (start < oldTokens.length && start < newTokens.length && oldTokens[start] === newTokens[start]) {
+    start++;
+  }
+  let oldEnd = oldTokens.length;
+  let newEnd = newTokens.length;
+  while (oldEnd > start && newEnd > start && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const ops: DiffOp[] = oldTokens.slice(0, start).map((value) => ({ type: "equal", value }));
+  const oldMiddle = oldTokens.slice(start, oldEnd);
+  const newMiddle = newTokens.slice(start, newEnd);
+
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    ops.push(...oldMiddle.map((value): DiffOp => ({ type: "delete", value })));
+    ops.push(...newMiddle.map((value): DiffOp => ({ type: "insert", value })));
+  } else {
+    ops.push(...lcsDiff(oldMiddle, newMiddle));
+  }
+
+  ops.push(...oldTokens.slice(oldEnd).map((value): DiffOp => ({ type: "equal", value })));
+  return ops;
+}
+
+function lcsDiff(a: string[], b: string[]): DiffOp[] {
+  const width = b.length + 1;
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "equal", value: a[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: "delete", value: a[i++] });
+    } else {
+      ops.push({ type: "insert", value: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: "delete", value: a[i++] });
+  while (j < b.length) ops.push({ type: "insert", value: b[j++] });
+  return ops;
+}
+
+export interface DiffLine {
+  lineNumber: number;
+  text: string;
+}
+
+// One row of a side-by-side view; a null side is blank padding opposite an added or removed line
+export interface DiffRow {
+  type: "equal" | "change" | "delete" | "insert";
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+/** Line diff laid out in two columns, with removed lines paired against the lines that replaced them. */
+export function sideBySideRows(oldText: string, newText: string): DiffRow[] {
+  const ops = diffTokens(oldText.split("\n"), newText.split("\n"));
+  const rows: DiffRow[] = [];
+  let leftNumber = 1;
+  let rightNumber = 1;
+  let index = 0;
+
+  while (index < ops.length) {
+    if (ops[index].type === "equal") {
+      rows.push({
+        type: "equal",
+        left: { lineNumber: leftNumber++, text: ops[index].value },
+        right: { lineNumber: rightNumber++, text: ops[index].value },
+      });
+      index++;
+      continue;
+    }
+
+    const deleted: string[] = [];
+    const inserted: string[] = [];
+    while (index < ops.length && ops[index].type !== "equal") {
+      (ops[index].type === "delete" ? deleted : inserted).push(ops[index].value);
+      index++;
+    }
+    for (let k = 0; k < Math.max(deleted.length, inserted.length); k++) {
+      const left = k < deleted.length ? { lineNumber: leftNumber++, text: deleted[k] } : null;
+      const right = k < inserted.length ? { lineNumber: rightNumber++, text: inserted[k] } : null;
+      rows.push({ type: left && right ? "change" : left ? "delete" : "insert", left, right });
+    }
+  }
+
+  return rows;
+}
+
+export interface WordSegment {
+  text: string;
+  changed: boolean;
+}
+
+/** Word-level highlights for a changed line pair: what was removed on the left, what was added on the right. */
+export function diffWords(oldLine: string, newLine: string): { left: WordSegment[]; right: WordSegment[] } {
+  const tokenize = (line: string) => line.match(/\s+|\w+|[^\w\s]/g) ?? [];
+  const left: WordSegment[] = [];
+  const right: WordSegment[] = [];
+  const append = (segments: WordSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) {
+      last.text += text;
+    } else {
+      segments.push({ text, changed });
+    }
+  };
+
+  for (const op of diffTokens(tokenize(oldLine), tokenize(newLine))) {
+    if (op.type !== "insert") append(left, op.value, op.type === "delete");
+    if (op.type !== "delete") append(right, op.value, op.type === "insert");
+  }
+  return { left, right };
+}
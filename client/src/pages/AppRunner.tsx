@@ -0,0 +1,83 @@
+import { useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation, useRoute } from "wouter";
+import { SandpackLayout, SandpackPreview, SandpackProvider, type SandpackPreviewRef } from "@codesandbox/sandpack-react";
+import { type App } from "@shared/schema";
+import { useAppKvBridge } from "@/hooks/use-app-kv-bridge";
+
+// A promoted app, full-screen and outside the chat layout
+export default function AppRunner() {
+  const [, params] = useRoute("/apps/:slug");
+  const [, navigate] = useLocation();
+  const slug = params?.slug ?? "";
+
+  const { data: app, isLoading, isError } = useQuery<App>({
+    queryKey: ["/api/apps/slug", slug],
+    enabled: !!slug,
+  });
+  const previewRef = useRef<SandpackPreviewRef>(null);
+  useAppKvBridge(app?.id ?? null, previewRef);
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex items-center justify-center font-mono text-xs text-muted-foreground">
+        Loading...
+      </div>
+    );
+  }
+
+  if (isError || !app) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-3 font-mono text-xs" data-testid="app-not-found">
+        <div className="text-destructive">App not found.</div>
+        <button
+          onClick={() => navigate("/apps")}
+          className="underline text-muted-foreground hover-elevate"
+          data-testid="button-app-back"
+        >
+          ← All apps
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col" data-testid={`app-runner-${app.slug}`}>
+      <div className="flex items-center justify-between gap-3 border-b-2 border-border px-3 py-1.5 flex-shrink-0 font-mono">
+        <button
+          onClick={() => navigate("/apps")}
+          className="text-[10px] uppercase tracking-wider text-muted-foreground hover-elevate"
+          data-testid="button-app-back"
+        >
+          ← Apps
+        </button>
+        <span className="text-xs font-semibold truncate" data-testid="text-app-name">{app.name}</span>
+        <span className="text-[10px] uppercase tracking-wider text-muted-foreground whitespace-nowrap">
+          v{app.versionNumber}
+        </span>
+      </div>
+      <div className="flex-1 min-h-0">
+        <SandpackProvider
+          template={app.code.template}
+          theme="light"
+          files={app.code.files}
+          customSetup={{ dependencies: app.code.dependencies }}
+          options={{
+            activeFile: app.code.entry,
+            // Defines window.appKv inside the preview; calls come back through useAppKvBridge
+            externalResources: [`${window.location.origin}/api/apps/${app.id}/kv-client.js`],
+          }}
+        >
+          <SandpackLayout style={{ height: "100%", border: "none", borderRadius: 0 }}>
+            <SandpackPreview
+              ref={previewRef}
+              showNavigator={false}
+              showOpenInCodeSandbox={false}
+              style={{ height: "100%" }}
+            />
+          </SandpackLayout>
+        </SandpackProvider>
+      </div>
+    </div>
+  );
+}
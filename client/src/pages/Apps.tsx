@@ -0,0 +1,100 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { AppWindow, ChevronLeft, Trash2 } from "lucide-react";
+import { type App } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export default function AppsPage() {
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: apps = [], isLoading } = useQuery<App[]>({
+    queryKey: ["/api/apps"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/apps/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/apps"] });
+      toast({
+        title: "Success",
+        description: "App deleted",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete app",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b-2 border-border px-4 py-3 flex items-center gap-3 flex-shrink-0">
+        <SidebarTrigger data-testid="button-sidebar-toggle" />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate("/")}
+          data-testid="button-back"
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </Button>
+        <div className="flex items-center gap-3">
+          <AppWindow className="h-6 w-6" />
+          <h1 className="font-mono text-2xl uppercase tracking-wider font-bold">Apps</h1>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        <div className="max-w-4xl mx-auto p-6 space-y-3">
+          {isLoading ? (
+            <div className="font-mono text-muted-foreground uppercase tracking-wider text-center py-12">Loading...</div>
+          ) : apps.length === 0 ? (
+            <div className="font-mono text-sm text-muted-foreground text-center py-12" data-testid="text-no-apps">
+              No apps yet. Promote a code ledger from its viewer to run it here.
+            </div>
+          ) : (
+            apps.map((app) => (
+              <div
+                key={app.id}
+                className="border-2 border-border p-4 flex items-center justify-between gap-4 font-mono"
+                style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}
+                data-testid={`app-item-${app.id}`}
+              >
+                <button
+                  onClick={() => navigate(`/apps/${app.slug}`)}
+                  className="min-w-0 text-left hover-elevate"
+                  data-testid={`button-open-app-${app.id}`}
+                >
+                  <div className="font-semibold truncate">{app.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    /apps/{app.slug} · {app.code.template} · v{app.versionNumber}
+                  </div>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    if (confirm(`Delete "${app.name}" and its saved data?`)) deleteMutation.mutate(app.id);
+                  }}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-app-${app.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import { useState, useMemo, useRef, useCallback, useEffect } from "react";
 import { useRoute, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { ModelSelector } from "@/components/ModelSelector";
+import { ThinkingToggle } from "@/components/ThinkingToggle";
+import { GenerationSettingsPanel } from "@/components/GenerationSettingsPanel";
 import { ChatWindow } from "@/components/ChatWindow";
 import { ChatInput } from "@/components/ChatInput";
 import { SystemPromptDialog } from "@/components/SystemPromptDialog";
@@ -9,17 +11,27 @@ import { ExportButton } from "@/components/ExportButton";
 import { EditableChatTitle } from "@/components/EditableChatTitle";
 import { ThreadPanel } from "@/components/ThreadPanel";
 import { ThreadsDropdown } from "@/components/ThreadsDropdown";
-import { type Message, type ModelValue, type Conversation, type FileAttachment, type MessageFile, type Ledger } from "@shared/schema";
+import { type Message, type Conversation, type FileAttachment, type LedgerAttachment, type MessageFile, type ToolCallRecord, type CompactionInfo, type ProjectContextInfo, type GenerationParams, type Project, DEFAULT_THINKING_BUDGET, DEFAULT_MODEL_ID, mergeGenerationParams } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
+import { useApiKeys } from "@/hooks/use-api-keys";
+import { useLedgers } from "@/hooks/use-ledgers";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { getActivePath, getSiblings, getThreadMessages, normalizeParentId, type BranchSelection } from "@/lib/messageTree";
+import { getActivePath, getSelectionsForMessage, getSiblings, getThreadMessages, normalizeParentId, type BranchSelection } from "@/lib/messageTree";
 import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
 import { useSettings } from "@/contexts/SettingsContext";
 import { SidebarTrigger, useSidebar } from "@/components/ui/sidebar";
 import { ContextDeck, type ContextDeckHandle } from "@/components/ContextDeck";
 import { PanelRightOpen, PanelRightClose } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { parseLedgerBlocks, buildSentinelContent } from "@/lib/ledgerParser";
+import { parseLedgerBlocks, extractLedgerChips, type LedgerChipInfo } from "@shared/ledgerParser";
+import { consumeChatStream, openChatJobEvents } from "@/lib/chatStream";
+import { type CompareColumn } from "@/components/CompareColumns";
+
+// Edits and regenerations resend the ledger versions the original message had attached
+function toLedgerAttachments(message: Message): LedgerAttachment[] | undefined {
+  return message.attachedLedgers?.map(({ ledgerId, versionNumber }) => ({ ledgerId, versionNumber }));
+}
 
 export default function Chat() {
   const [, params] = useRoute("/chat/:id");
@@ -27,34 +39,55 @@ export default function Chat() {
   const conversationId = params?.id ? parseInt(params.id) : null;
   const { settings, isReady } = useSettings();
   
-  const [selectedModel, setSelectedModel] = useState<ModelValue | null>(null);
+  const [selectedModel, setSelectedModel] = useState<string | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
   const [streamingContent, setStreamingContent] = useState("");
+  const [streamingThinking, setStreamingThinking] = useState("");
+  const [streamingToolCalls, setStreamingToolCalls] = useState<ToolCallRecord[]>([]);
+  const [streamingCompaction, setStreamingCompaction] = useState<CompactionInfo | null>(null);
+  const [streamingProjectContext, setStreamingProjectContext] = useState<ProjectContextInfo | null>(null);
+  const [streamingCompare, setStreamingCompare] = useState<CompareColumn[] | null>(null);
+  const [streamingLedgers, setStreamingLedgers] = useState<LedgerChipInfo[]>([]);
+  const [thinkingEnabled, setThinkingEnabled] = useState(false);
+  const [thinkingBudget, setThinkingBudget] = useState(DEFAULT_THINKING_BUDGET);
+  // Generation settings picked before the first message, saved onto the conversation when it is created
+  const [newChatParams, setNewChatParams] = useState<GenerationParams>({});
+  const [newChatApiKeyId, setNewChatApiKeyId] = useState<number | null>(null);
   const [pendingUserMessage, setPendingUserMessage] = useState<string | null>(null);
+  const [continuingMessageId, setContinuingMessageId] = useState<number | null>(null);
   const [branchSelections, setBranchSelections] = useState<BranchSelection>({});
   const [threadRootId, setThreadRootId] = useState<number | null>(null);
+  // Message to bring into view once its conversation's messages have loaded
+  const [focusMessageId, setFocusMessageId] = useState<number | null>(null);
   const [showContextDeck, setShowContextDeck] = useState(false);
   const { open: sidebarOpen, setOpen: setSidebarOpen } = useSidebar();
   const sidebarWasOpenRef = useRef<boolean | null>(null);
   const { toast } = useToast();
+  const { getModel } = useModels();
+  const { getKeyLabel } = useApiKeys();
   
   useEffect(() => {
     if (isReady && selectedModel === null && settings?.defaultModel) {
-      setSelectedModel(settings.defaultModel as ModelValue);
+      setSelectedModel(settings.defaultModel);
     }
   }, [isReady, selectedModel, settings?.defaultModel]);
   
-  const effectiveModel = selectedModel || (settings?.defaultModel as ModelValue) || "claude-sonnet-4-5";
+  const effectiveModel = selectedModel || settings?.defaultModel || DEFAULT_MODEL_ID;
   
   const streamingContentRef = useRef("");
+  const streamingThinkingRef = useRef("");
+  const streamingCompareRef = useRef<CompareColumn[] | null>(null);
   const rafIdRef = useRef<number | null>(null);
   const draftTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const contextDeckRef = useRef<ContextDeckHandle>(null);
-  const pendingLedgerIdRef = useRef<number | null>(null);
+  const pendingLedgerRef = useRef<{ id: number; version?: number } | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+  const stopRequestedRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const streamConversationIdRef = useRef<number | null>(null);
 
-  const { data: allLedgers = [] } = useQuery<Ledger[]>({
-    queryKey: ["/api/ledgers"],
-  });
+  // Legacy chips (id -1) are matched by title, and only against this chat's ledgers
+  const { ledgers: conversationLedgers } = useLedgers({ kind: "conversation", id: conversationId });
 
   useEffect(() => {
     if (showContextDeck) {
@@ -68,27 +101,29 @@ export default function Chat() {
   }, [showContextDeck]);
 
   useEffect(() => {
-    if (showContextDeck && pendingLedgerIdRef.current !== null) {
-      const id = pendingLedgerIdRef.current;
-      pendingLedgerIdRef.current = null;
-      setTimeout(() => contextDeckRef.current?.openLedger(id), 0);
+    if (showContextDeck && pendingLedgerRef.current !== null) {
+      const { id, version } = pendingLedgerRef.current;
+      pendingLedgerRef.current = null;
+      setTimeout(() => contextDeckRef.current?.openLedger(id, version), 0);
     }
   }, [showContextDeck]);
 
-  const handleLedgerChipClick = useCallback((ledgerId: number, title: string) => {
+  const handleLedgerChipClick = useCallback((ledgerId: number, title: string, version?: number) => {
     // Use direct ID from sentinel format; fall back to title lookup only for legacy chips (id === -1)
-    const resolvedId = ledgerId !== -1 ? ledgerId : allLedgers.find(l => l.title === title)?.id ?? null;
+    const resolvedId = ledgerId !== -1 ? ledgerId : conversationLedgers.find(l => l.title === title)?.id ?? null;
     if (resolvedId === null) return;
     if (showContextDeck) {
-      contextDeckRef.current?.openLedger(resolvedId);
+      contextDeckRef.current?.openLedger(resolvedId, version);
     } else {
-      pendingLedgerIdRef.current = resolvedId;
+      pendingLedgerRef.current = { id: resolvedId, version };
       setShowContextDeck(true);
     }
-  }, [allLedgers, showContextDeck]);
+  }, [conversationLedgers, showContextDeck]);
   
   const flushStreamingContent = useCallback(() => {
     setStreamingContent(streamingContentRef.current);
+    setStreamingThinking(streamingThinkingRef.current);
+    setStreamingCompare(streamingCompareRef.current);
     rafIdRef.current = null;
   }, []);
   
@@ -99,6 +134,22 @@ export default function Chat() {
     }
   }, [flushStreamingContent]);
 
+  const scheduleThinkingUpdate = useCallback((thinking: string) => {
+    streamingThinkingRef.current = thinking;
+    if (rafIdRef.current === null) {
+      rafIdRef.current = requestAnimationFrame(flushStreamingContent);
+    }
+  }, [flushStreamingContent]);
+
+  const scheduleCompareUpdate = useCallback((model: string, update: (column: CompareColumn) => CompareColumn) => {
+    streamingCompareRef.current = streamingCompareRef.current?.map((column) =>
+      column.model === model ? update(column) : column
+    ) ?? null;
+    if (rafIdRef.current === null) {
+      rafIdRef.current = requestAnimationFrame(flushStreamingContent);
+    }
+  }, [flushStreamingContent]);
+
   const saveDraft = useCallback(async (draft: string) => {
     if (!conversationId) return;
     try {
@@ -140,6 +191,23 @@ export default function Chat() {
     enabled: !!conversationId,
   });
 
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/projects", conversation?.projectId],
+    enabled: !!conversation?.projectId,
+  });
+
+  // Each conversation remembers its model; conversations without one use the global default
+  useEffect(() => {
+    if (conversation) {
+      setSelectedModel(conversation.model ?? settings?.defaultModel ?? null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only re-sync when the conversation or its stored model changes
+  }, [conversation?.id, conversation?.model]);
+
+  const conversationParams: GenerationParams = conversationId ? (conversation?.generationParams ?? {}) : newChatParams;
+  const inheritedParams = mergeGenerationParams(settings?.generationParams, project?.generationParams);
+  const conversationApiKeyId = conversationId ? conversation?.apiKeyId ?? null : newChatApiKeyId;
+
   const { data: messages = [] } = useQuery<Message[]>({
     queryKey: ["/api/conversations", conversationId, "messages"],
     queryFn: async () => {
@@ -162,6 +230,26 @@ export default function Chat() {
     enabled: !!conversationId,
   });
 
+  // Select the branches leading to the focused message, then scroll to it
+  useEffect(() => {
+    if (focusMessageId === null || !messages.some(m => m.id === focusMessageId)) return;
+    const { selections, threadRootId: focusThreadRootId } = getSelectionsForMessage(messages, focusMessageId);
+    setBranchSelections(prev => ({ ...prev, ...selections }));
+    if (focusThreadRootId !== null) {
+      setThreadRootId(focusThreadRootId);
+    }
+    const targetId = focusThreadRootId ?? focusMessageId;
+    setFocusMessageId(null);
+    setTimeout(() => document.getElementById(`message-${targetId}`)?.scrollIntoView({ behavior: "smooth", block: "center" }), 0);
+  }, [focusMessageId, messages]);
+
+  const handleOpenMessage = useCallback((messageConversationId: number, messageId: number) => {
+    setFocusMessageId(messageId);
+    if (messageConversationId !== conversationId) {
+      navigate(`/chat/${messageConversationId}`);
+    }
+  }, [conversationId, navigate]);
+
   const activePath = useMemo(() => {
     return getActivePath(messages, branchSelections);
   }, [messages, branchSelections]);
@@ -181,20 +269,298 @@ export default function Chat() {
     mutationFn: async (firstMessage: string) => {
       const conv = await apiRequest("/api/conversations", {
         method: "POST",
-        body: JSON.stringify({ title: firstMessage.slice(0, 50) + (firstMessage.length > 50 ? "..." : "") }),
+        body: JSON.stringify({
+          title: firstMessage.slice(0, 50) + (firstMessage.length > 50 ? "..." : ""),
+          model: effectiveModel,
+          generationParams: Object.keys(newChatParams).length > 0 ? newChatParams : null,
+          apiKeyId: newChatApiKeyId,
+        }),
       });
       return conv as Conversation;
     },
     onSuccess: (newConv) => {
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+      setNewChatParams({});
+      setNewChatApiKeyId(null);
       navigate(`/chat/${newConv.id}`);
     },
   });
 
-  const handleSendMessage = async (content: string, parentMessageId?: number | null, files?: FileAttachment[]) => {
+  const updateConversationSettings = async (updates: { model?: string; generationParams?: GenerationParams; apiKeyId?: number | null }) => {
+    if (!conversationId) return;
+    try {
+      await apiRequest(`/api/conversations/${conversationId}`, {
+        method: "PATCH",
+        body: JSON.stringify(updates),
+      });
+      await queryClient.invalidateQueries({ queryKey: ["/api/conversations", conversationId] });
+    } catch (error) {
+      console.error("Failed to save conversation settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save conversation settings",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleModelChange = (model: string) => {
+    setSelectedModel(model);
+    updateConversationSettings({ model });
+  };
+
+  const handleGenerationParamsChange = (generationParams: GenerationParams) => {
+    if (conversationId) {
+      updateConversationSettings({ generationParams });
+    } else {
+      setNewChatParams(generationParams);
+    }
+  };
+
+  const handleApiKeyChange = (apiKeyId: number | null) => {
+    if (conversationId) {
+      updateConversationSettings({ apiKeyId });
+    } else {
+      setNewChatApiKeyId(apiKeyId);
+    }
+  };
+
+  const resetStreamingState = useCallback(() => {
+    if (rafIdRef.current !== null) {
+      cancelAnimationFrame(rafIdRef.current);
+      rafIdRef.current = null;
+    }
+    setIsStreaming(false);
+    setStreamingContent("");
+    streamingContentRef.current = "";
+    setStreamingThinking("");
+    streamingThinkingRef.current = "";
+    setStreamingToolCalls([]);
+    setStreamingCompaction(null);
+    setStreamingProjectContext(null);
+    setStreamingCompare(null);
+    streamingCompareRef.current = null;
+    setStreamingLedgers([]);
+    setPendingUserMessage(null);
+    setContinuingMessageId(null);
+    jobIdRef.current = null;
+    stopRequestedRef.current = false;
+    abortControllerRef.current = null;
+    streamConversationIdRef.current = null;
+  }, []);
+
+  const cancelJob = async (jobId: string) => {
+    try {
+      await apiRequest(`/api/chat/jobs/${jobId}/cancel`, { method: "POST" });
+    } catch (error) {
+      console.error("Failed to cancel chat job:", error);
+    }
+  };
+
+  // Consumes a chat job's SSE stream (fresh or reattached) through to completion:
+  // renders tokens and the ledgers the server saved, then refreshes dependent queries.
+  const runChatStream = async (response: Response, activeConversationId: number, signal: AbortSignal) => {
+    let fullThinking = "";
+    let usedLedgerTool = false;
+    let hadLedgers = false;
+    // Raw reply text, keyed by model for compare streams and "" otherwise
+    const replyContent = new Map<string, string>();
+
+    await consumeChatStream(response, {
+      signal,
+      onPayload: (parsed) => {
+        const compareModel: string | null = typeof parsed.model === "string" ? parsed.model : null;
+        const replyKey = compareModel ?? "";
+        if (Array.isArray(parsed.compare)) {
+          streamingCompareRef.current = parsed.compare.map((model: string) => ({
+            model,
+            content: "",
+            thinking: "",
+            toolCalls: [],
+            ledgers: [],
+            stopReason: null,
+            error: null,
+            costUsd: null,
+            latencyMs: null,
+            messageId: null,
+            isStreaming: true,
+          }));
+          setStreamingCompare(streamingCompareRef.current);
+        }
+        if (typeof parsed.jobId === "string") {
+          jobIdRef.current = parsed.jobId;
+          // Stop was pressed before the job id arrived
+          if (stopRequestedRef.current) {
+            cancelJob(parsed.jobId);
+          }
+        }
+        // A continuation job starts from the stored reply, whose ledgers are already sentinels
+        if (typeof parsed.prefix === "string") {
+          replyContent.set(replyKey, parsed.prefix);
+          setStreamingLedgers(extractLedgerChips(parsed.prefix).chips);
+          scheduleStreamingUpdate(parseLedgerBlocks(parsed.prefix).visibleText);
+        }
+        if (typeof parsed.continuesMessageId === "number") {
+          setContinuingMessageId(parsed.continuesMessageId);
+        }
+        if (parsed.thinking) {
+          if (compareModel) {
+            scheduleCompareUpdate(compareModel, (column) => ({ ...column, thinking: column.thinking + parsed.thinking }));
+          } else {
+            fullThinking += parsed.thinking;
+            scheduleThinkingUpdate(fullThinking);
+          }
+        }
+        if (parsed.compaction && !compareModel) {
+          setStreamingCompaction(parsed.compaction);
+        }
+        if (parsed.projectContext && !compareModel) {
+          setStreamingProjectContext(parsed.projectContext);
+        }
+        const { toolCall } = parsed;
+        if (toolCall) {
+          usedLedgerTool ||= toolCall.name === "write_ledger";
+          if (compareModel) {
+            scheduleCompareUpdate(compareModel, (column) => ({ ...column, toolCalls: [...column.toolCalls, toolCall] }));
+          } else {
+            setStreamingToolCalls((calls) => [...calls, toolCall]);
+          }
+        }
+        if (parsed.toolResult) {
+          const { id, content, isError } = parsed.toolResult;
+          const withResult = (calls: ToolCallRecord[]) =>
+            calls.map((call) => (call.id === id ? { ...call, result: content, isError } : call));
+          if (compareModel) {
+            scheduleCompareUpdate(compareModel, (column) => ({ ...column, toolCalls: withResult(column.toolCalls) }));
+          } else {
+            setStreamingToolCalls(withResult);
+          }
+        }
+        if (parsed.content) {
+          const content = (replyContent.get(replyKey) ?? "") + parsed.content;
+          replyContent.set(replyKey, content);
+          const { visibleText } = parseLedgerBlocks(content);
+          if (compareModel) {
+            scheduleCompareUpdate(compareModel, (column) => ({ ...column, content: visibleText }));
+          } else {
+            scheduleStreamingUpdate(visibleText);
+          }
+        }
+        // The server saved a ledger block that just closed
+        if (parsed.ledger) {
+          hadLedgers = true;
+          const chip: LedgerChipInfo = {
+            id: parsed.ledger.id,
+            title: parsed.ledger.title,
+            type: parsed.ledger.type,
+            version: parsed.ledger.versionNumber,
+          };
+          if (compareModel) {
+            scheduleCompareUpdate(compareModel, (column) => ({ ...column, ledgers: [...column.ledgers, chip] }));
+          } else {
+            setStreamingLedgers((chips) => [...chips, chip]);
+          }
+        }
+        const { error, savedMessageId } = parsed;
+        if (compareModel && typeof error === "string") {
+          scheduleCompareUpdate(compareModel, (column) => ({ ...column, error, isStreaming: false }));
+        }
+        if (compareModel && typeof savedMessageId === "number") {
+          scheduleCompareUpdate(compareModel, (column) => ({
+            ...column,
+            messageId: savedMessageId,
+            stopReason: parsed.stopped ? "stopped" : column.stopReason,
+            costUsd: parsed.costUsd ?? null,
+            latencyMs: parsed.latencyMs ?? null,
+            isStreaming: false,
+          }));
+        }
+      },
+    });
+
+    if (rafIdRef.current !== null) {
+      cancelAnimationFrame(rafIdRef.current);
+      rafIdRef.current = null;
+    }
+
+    await queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "messages"] });
+    await queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "files"] });
+    await queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    await queryClient.invalidateQueries({ queryKey: ["/api/usage/summary"] });
+    await queryClient.invalidateQueries({ queryKey: ["/api/usage/cache"] });
+    if (hadLedgers || usedLedgerTool) {
+      await queryClient.invalidateQueries({ queryKey: ["/api/ledgers"] });
+    }
+
+    // Check for 80% budget warning
+    try {
+      const usageResponse = await fetch("/api/usage/summary");
+      if (usageResponse.ok) {
+        const usageData = await usageResponse.json();
+        if (usageData.monthlyBudget && usageData.warnAt80) {
+          const percentUsed = (usageData.thisMonth / usageData.monthlyBudget) * 100;
+          if (percentUsed >= 80 && percentUsed < 100) {
+            toast({
+              title: "Budget Warning",
+              description: `You've used ${percentUsed.toFixed(0)}% of your monthly budget.`,
+              variant: "destructive",
+            });
+          }
+        }
+      }
+    } catch (e) {
+      // Ignore usage fetch errors
+    }
+  };
+
+  const handleStreamError = async (error: unknown, activeConversationId: number | null) => {
+    // Aborting the fetch only detaches this tab; the server job keeps running and saves the reply
+    if (error instanceof DOMException && error.name === "AbortError") {
+      if (activeConversationId) {
+        await queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "messages"] });
+      }
+    } else {
+      console.error("Error sending message:", error);
+      toast({
+        title: "Error",
+        description: "Failed to send message. Please try again.",
+        variant: "destructive",
+      });
+    }
+    resetStreamingState();
+  };
+
+  // overrides replay the model and parameters recorded on a message (used by regenerate);
+  // compareModels sends the message to each of those models instead, as sibling replies
+  const handleSendMessage = async (
+    content: string,
+    parentMessageId?: number | null,
+    files?: FileAttachment[],
+    ledgers?: LedgerAttachment[],
+    overrides?: { model?: string; generationParams?: GenerationParams; compareModels?: string[] },
+  ) => {
     let activeConversationId = conversationId;
     let isNewConversation = false;
 
+    const model = overrides?.model ?? effectiveModel;
+    const modelConfig = getModel(model);
+    const compareModels = overrides?.compareModels;
+    for (const target of compareModels ?? [model]) {
+      const targetConfig = getModel(target);
+      const unsupportedFile = targetConfig && files?.find((f) =>
+        (f.mimeType.startsWith("image/") && !targetConfig.supportsVision) ||
+        (f.mimeType === "application/pdf" && !targetConfig.supportsPdf)
+      );
+      if (targetConfig && unsupportedFile) {
+        toast({
+          title: "Unsupported Attachment",
+          description: `${targetConfig.label} can't read ${unsupportedFile.originalName}.`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
     try {
       if (!activeConversationId) {
         const newConv = await createConversationMutation.mutateAsync(content);
@@ -206,15 +572,17 @@ export default function Chat() {
       setStreamingContent("");
       streamingContentRef.current = "";
       setPendingUserMessage(content);
+      streamConversationIdRef.current = activeConversationId;
 
       const lastMessage = activePath.length > 0 ? activePath[activePath.length - 1] : null;
       const effectiveParentId = isNewConversation ? null : (parentMessageId !== undefined ? parentMessageId : (lastMessage?.id ?? null));
 
       const requestBody: Record<string, unknown> = {
         message: content,
-        model: effectiveModel,
+        ...(compareModels ? { models: compareModels } : { model }),
         conversationId: activeConversationId,
         parentMessageId: effectiveParentId,
+        generationParams: overrides?.generationParams ?? conversationParams,
       };
       
       if (conversation?.systemPrompt) {
@@ -225,12 +593,26 @@ export default function Chat() {
         requestBody.files = files;
       }
 
-      const response = await fetch("/api/chat", {
+      if (ledgers && ledgers.length > 0) {
+        requestBody.ledgers = ledgers;
+      }
+
+      // Compare sends skip extended thinking so the columns stay comparable
+      if (!compareModels && thinkingEnabled && modelConfig?.supportsThinking !== false) {
+        requestBody.thinking = true;
+        requestBody.thinkingBudget = thinkingBudget;
+      }
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      const response = await fetch(compareModels ? "/api/chat/compare" : "/api/chat", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify(requestBody),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -241,153 +623,114 @@ export default function Chat() {
             description: errorData.message || "Monthly budget exceeded. Adjust your budget in settings to continue.",
             variant: "destructive",
           });
-          setIsStreaming(false);
-          setPendingUserMessage(null);
+          resetStreamingState();
           return;
         }
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = "";
-      let savedMessageId: number | null = null;
-      // Track by occurrence index so identical titles are handled as separate instances
-      let savedLedgerCount = 0;
-      const savedLedgerSlots: Array<{ title: string; type: string; id: number } | null> = [];
-      const ledgerSavePromises: Promise<void>[] = [];
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          const chunk = decoder.decode(value, { stream: true });
-          const lines = chunk.split("\n");
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") {
-                continue;
-              }
-              try {
-                const parsed = JSON.parse(data);
-                if (parsed.content) {
-                  fullContent += parsed.content;
-                  const { visibleText, completeLedgers } = parseLedgerBlocks(fullContent);
-                  scheduleStreamingUpdate(visibleText);
-                  // Save each newly arrived complete block immediately (indexed by occurrence, not title)
-                  for (let i = savedLedgerCount; i < completeLedgers.length; i++) {
-                    const ledger = completeLedgers[i];
-                    const slotIdx = savedLedgerSlots.length;
-                    savedLedgerSlots.push(null);
-                    const p = apiRequest("/api/ledgers", {
-                      method: "POST",
-                      body: JSON.stringify({
-                        title: ledger.title,
-                        type: ledger.type,
-                        initialContent: ledger.content,
-                      }),
-                    }).then((result) => {
-                      if (result?.ledger?.id) {
-                        savedLedgerSlots[slotIdx] = { title: ledger.title, type: ledger.type, id: result.ledger.id };
-                      }
-                    }).catch((e) => console.error("Failed to save ledger:", e));
-                    ledgerSavePromises.push(p);
-                  }
-                  savedLedgerCount = completeLedgers.length;
-                }
-                if (typeof parsed.savedMessageId === "number") {
-                  savedMessageId = parsed.savedMessageId;
-                }
-              } catch (e) {
-                // Skip invalid JSON
-              }
-            }
-          }
-        }
-      }
-
-      if (rafIdRef.current !== null) {
-        cancelAnimationFrame(rafIdRef.current);
-        rafIdRef.current = null;
-      }
-
-      // Wait for all in-flight ledger saves to complete, then patch the message content.
-      // Pass savedLedgerSlots with nulls intact so each block position maps correctly
-      // to its slot; failed saves degrade to legacy <ledger> XML chips (id=-1).
-      await Promise.all(ledgerSavePromises);
-      if (savedLedgerSlots.length > 0 && savedMessageId !== null) {
-        try {
-          const sentinelContent = buildSentinelContent(fullContent, savedLedgerSlots);
-          await apiRequest(`/api/messages/${savedMessageId}/content`, {
-            method: "PATCH",
-            body: JSON.stringify({ content: sentinelContent }),
-          });
-        } catch (e) {
-          console.error("Failed to patch message content with ledger sentinels:", e);
-        }
-      }
-
-      const hadLedgers = savedLedgerSlots.some((s) => s !== null);
-      await queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "messages"] });
-      await queryClient.invalidateQueries({ queryKey: ["/api/conversations", activeConversationId, "files"] });
-      await queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
-      await queryClient.invalidateQueries({ queryKey: ["/api/usage/summary"] });
-      if (hadLedgers) {
-        await queryClient.invalidateQueries({ queryKey: ["/api/ledgers"] });
-      }
-      
-      // Check for 80% budget warning
-      try {
-        const usageResponse = await fetch("/api/usage/summary");
-        if (usageResponse.ok) {
-          const usageData = await usageResponse.json();
-          if (usageData.monthlyBudget && usageData.warnAt80) {
-            const percentUsed = (usageData.thisMonth / usageData.monthlyBudget) * 100;
-            if (percentUsed >= 80 && percentUsed < 100) {
-              toast({
-                title: "Budget Warning",
-                description: `You've used ${percentUsed.toFixed(0)}% of your monthly budget.`,
-                variant: "destructive",
-              });
-            }
-          }
-        }
-      } catch (e) {
-        // Ignore usage fetch errors
-      }
+      await runChatStream(response, activeConversationId, abortController.signal);
 
       if (draftTimeoutRef.current) {
         clearTimeout(draftTimeoutRef.current);
       }
       saveDraft("");
 
-      setIsStreaming(false);
-      setStreamingContent("");
-      streamingContentRef.current = "";
-      setPendingUserMessage(null);
+      resetStreamingState();
     } catch (error) {
-      console.error("Error sending message:", error);
-      
-      if (rafIdRef.current !== null) {
-        cancelAnimationFrame(rafIdRef.current);
-        rafIdRef.current = null;
-      }
-      
-      toast({
-        title: "Error",
-        description: "Failed to send message. Please try again.",
-        variant: "destructive",
-      });
-      setIsStreaming(false);
+      await handleStreamError(error, activeConversationId);
+    }
+  };
+
+  const handleContinueMessage = async (messageId: number) => {
+    if (!conversationId || isStreaming) return;
+
+    try {
+      setIsStreaming(true);
       setStreamingContent("");
       streamingContentRef.current = "";
-      setPendingUserMessage(null);
+      setContinuingMessageId(messageId);
+      streamConversationIdRef.current = conversationId;
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      const response = await fetch("/api/chat/continue", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ conversationId, messageId }),
+        signal: abortController.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      await runChatStream(response, conversationId, abortController.signal);
+      resetStreamingState();
+    } catch (error) {
+      await handleStreamError(error, conversationId);
     }
   };
 
+  const handleStopGeneration = async () => {
+    const jobId = jobIdRef.current;
+    if (!jobId) {
+      // The job id hasn't arrived yet; cancel as soon as it does
+      stopRequestedRef.current = true;
+      return;
+    }
+    await cancelJob(jobId);
+  };
+
+  // Detach from a stream that belongs to another conversation, and reattach to this
+  // conversation's in-flight reply (e.g. after a reload or navigating back to /chat/:id).
+  useEffect(() => {
+    if (streamConversationIdRef.current !== null && streamConversationIdRef.current !== conversationId) {
+      abortControllerRef.current?.abort();
+    }
+    if (!conversationId) return;
+
+    let cancelled = false;
+    let abortController: AbortController | null = null;
+    (async () => {
+      try {
+        const activeJob = await apiRequest(`/api/conversations/${conversationId}/active-job`);
+        // Thread replies are rendered by ThreadPanel, and a stream we started ourselves is already attached
+        if (cancelled || !activeJob || activeJob.threadRootId !== null || streamConversationIdRef.current === conversationId) {
+          return;
+        }
+
+        abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        streamConversationIdRef.current = conversationId;
+        jobIdRef.current = activeJob.jobId;
+        setIsStreaming(true);
+        setStreamingContent("");
+        streamingContentRef.current = "";
+
+        const response = await openChatJobEvents(activeJob.jobId, 0, abortController.signal);
+        if (!response.ok) throw new Error(`HTTP error! status: ${response.status}`);
+        await runChatStream(response, conversationId, abortController.signal);
+        resetStreamingState();
+      } catch (error) {
+        if (!abortController) {
+          console.error("Failed to check for an in-flight reply:", error);
+        } else if (abortControllerRef.current === abortController) {
+          // Only reset shared streaming state while this reattachment still owns it
+          await handleStreamError(error, conversationId);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- reattach only when the conversation changes
+  }, [conversationId]);
+
   const deleteMessageMutation = useMutation({
     mutationFn: async (messageId: number) => {
       return await apiRequest(`/api/messages/${messageId}`, {
@@ -471,7 +814,7 @@ export default function Chat() {
     
     const parentId = editedMessage.parentMessageId;
     
-    await handleSendMessage(newContent, parentId);
+    await handleSendMessage(newContent, parentId, undefined, toLedgerAttachments(editedMessage));
     
     const normalizedKey = normalizeParentId(parentId);
     const siblings = getSiblings(messages, editedMessage);
@@ -493,7 +836,10 @@ export default function Chat() {
     
     const grandParentId = parentUserMessage.parentMessageId;
     
-    await handleSendMessage(parentUserMessage.content, grandParentId);
+    await handleSendMessage(parentUserMessage.content, grandParentId, undefined, toLedgerAttachments(parentUserMessage), {
+      model: targetMessage.model ?? undefined,
+      generationParams: targetMessage.generationParams ?? undefined,
+    });
     
     const normalizedKey = normalizeParentId(grandParentId);
     const userMsgSiblings = getSiblings(messages, parentUserMessage);
@@ -508,6 +854,18 @@ export default function Chat() {
     deleteMessageMutation.mutate(messageId);
   };
 
+  // Makes a reply the active branch under its parent, e.g. when picking a compare column
+  const handleSelectBranch = (messageId: number) => {
+    const message = messages.find((m) => m.id === messageId);
+    if (!message) return;
+    const index = getSiblings(messages, message).findIndex((sibling) => sibling.id === messageId);
+    if (index === -1) return;
+    setBranchSelections((prev) => ({
+      ...prev,
+      [normalizeParentId(message.parentMessageId)]: index,
+    }));
+  };
+
   const handleBranchNavigate = (parentId: number | null, direction: "prev" | "next") => {
     const normalizedKey = normalizeParentId(parentId);
     const currentIndex = branchSelections[normalizedKey] ?? 0;
@@ -560,7 +918,23 @@ export default function Chat() {
             )}
           </div>
           <div className="flex items-center gap-3">
-            <ModelSelector value={effectiveModel} onChange={setSelectedModel} />
+            <ModelSelector value={effectiveModel} onChange={handleModelChange} />
+            <GenerationSettingsPanel
+              value={conversationParams}
+              inherited={inheritedParams}
+              onChange={handleGenerationParamsChange}
+              apiKeyId={conversationApiKeyId}
+              inheritedKeyLabel={getKeyLabel(project?.apiKeyId)}
+              onApiKeyChange={handleApiKeyChange}
+            />
+            {getModel(effectiveModel)?.supportsThinking !== false && (
+              <ThinkingToggle
+                enabled={thinkingEnabled}
+                budget={thinkingBudget}
+                onEnabledChange={setThinkingEnabled}
+                onBudgetChange={setThinkingBudget}
+              />
+            )}
             <ThreadsDropdown
               messages={messages}
               onOpenThread={handleOpenThread}
@@ -597,21 +971,35 @@ export default function Chat() {
           branchSelections={branchSelections}
           isStreaming={isStreaming}
           streamingContent={streamingContent}
+          streamingThinking={streamingThinking}
+          streamingToolCalls={streamingToolCalls}
+          streamingCompaction={streamingCompaction}
+          streamingProjectContext={streamingProjectContext}
+          streamingCompare={streamingCompare}
+          streamingLedgers={streamingLedgers}
           pendingUserMessage={pendingUserMessage}
+          continuingMessageId={continuingMessageId}
           onEditMessage={handleEditMessage}
           onRegenerateMessage={handleRegenerateMessage}
+          onContinueMessage={handleContinueMessage}
           onDeleteMessage={handleDeleteMessage}
           onBranchNavigate={handleBranchNavigate}
+          onSelectBranch={handleSelectBranch}
           onOpenThread={handleOpenThread}
           onLedgerChipClick={handleLedgerChipClick}
         />
 
         <div className="border-t-2 border-border px-6 py-4 flex-shrink-0">
           <ChatInput 
-            onSend={(content, files) => handleSendMessage(content, undefined, files)} 
+            onSend={(content, files, ledgers) => handleSendMessage(content, undefined, files, ledgers)} 
+            onCompare={(content, compareModels, files, ledgers) => handleSendMessage(content, undefined, files, ledgers, { compareModels })}
+            conversationId={conversationId}
+            projectId={conversation?.projectId ?? null}
+            currentModel={effectiveModel}
             disabled={isStreaming}
             initialValue={conversation?.draft || ""}
             onDraftChange={handleDraftChange}
+            onStop={isStreaming ? handleStopGeneration : undefined}
           />
         </div>
       </div>
@@ -647,7 +1035,13 @@ export default function Chat() {
             </ResizablePanel>
             <ResizableHandle className="w-[2px] bg-border cursor-col-resize" data-testid="context-deck-resize-handle" />
             <ResizablePanel defaultSize={50} minSize={20}>
-              <ContextDeck ref={contextDeckRef} onClose={() => setShowContextDeck(false)} />
+              <ContextDeck
+                ref={contextDeckRef}
+                conversationId={conversationId}
+                projectId={conversation?.projectId ?? null}
+                onClose={() => setShowContextDeck(false)}
+                onOpenMessage={handleOpenMessage}
+              />
             </ResizablePanel>
           </ResizablePanelGroup>
         </div>
@@ -670,7 +1064,13 @@ export default function Chat() {
           </ResizablePanel>
           <ResizableHandle className="w-[2px] bg-border cursor-col-resize" data-testid="context-deck-resize-handle" />
           <ResizablePanel defaultSize={50} minSize={20}>
-            <ContextDeck ref={contextDeckRef} onClose={() => setShowContextDeck(false)} />
+            <ContextDeck
+              ref={contextDeckRef}
+              conversationId={conversationId}
+              projectId={conversation?.projectId ?? null}
+              onClose={() => setShowContextDeck(false)}
+              onOpenMessage={handleOpenMessage}
+            />
           </ResizablePanel>
         </ResizablePanelGroup>
       </div>
@@ -9,13 +9,24 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { type Settings, modelOptions } from "@shared/schema";
+import { type Settings, type CompactionStrategy, type GenerationParams, DEFAULT_MODEL_ID } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
+import { ModelManager } from "@/components/ModelManager";
+import { ApiKeyManager } from "@/components/ApiKeyManager";
+import { GenerationParamsFields } from "@/components/GenerationParamsFields";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 
+const COMPACTION_OPTIONS: { value: CompactionStrategy; label: string; description: string }[] = [
+  { value: "summarize", label: "Summarize", description: "Older turns are condensed into a short note by Claude Haiku." },
+  { value: "drop", label: "Drop Oldest", description: "The oldest turns are left out of the request." },
+  { value: "strip-attachments", label: "Strip Files", description: "Old images, PDFs and files are removed first; the oldest turns are dropped if that is not enough." },
+];
+
 export default function SettingsPage() {
   const [, navigate] = useLocation();
   const { toast } = useToast();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const { enabledModels } = useModels();
 
   const { data: settings, isLoading } = useQuery<Settings>({
     queryKey: ["/api/settings"],
@@ -65,7 +76,7 @@ export default function SettingsPage() {
     },
   });
 
-  const handleUpdateSetting = (key: keyof Settings, value: string | boolean) => {
+  const handleUpdateSetting = (key: keyof Settings, value: string | boolean | GenerationParams) => {
     updateSettingsMutation.mutate({ [key]: value });
   };
 
@@ -107,7 +118,7 @@ export default function SettingsPage() {
                 Choose default AI model for new conversations
               </Label>
               <Select
-                value={settings?.defaultModel || "claude-sonnet-4-5"}
+                value={settings?.defaultModel || DEFAULT_MODEL_ID}
                 onValueChange={(value) => handleUpdateSetting("defaultModel", value)}
                 data-testid="select-default-model"
               >
@@ -115,9 +126,9 @@ export default function SettingsPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {modelOptions.map((option) => (
-                    <SelectItem key={option.value} value={option.value} className="font-mono">
-                      {option.label}
+                  {enabledModels.map((model) => (
+                    <SelectItem key={model.id} value={model.id} className="font-mono">
+                      {model.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -125,6 +136,55 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          <div className="border-2 border-border p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}>
+            <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-muted-foreground">
+              [ Models ]
+            </h2>
+            <div className="space-y-3">
+              <Label className="font-mono text-sm uppercase tracking-wider">
+                Models available in the chat selector
+              </Label>
+              <p className="font-mono text-xs text-muted-foreground">
+                Pricing is used for usage costs; capabilities decide which attachments and features a model accepts.
+              </p>
+              <ModelManager defaultModel={settings?.defaultModel} />
+            </div>
+          </div>
+
+          <div className="border-2 border-border p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}>
+            <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-muted-foreground">
+              [ API Keys ]
+            </h2>
+            <div className="space-y-3">
+              <Label className="font-mono text-sm uppercase tracking-wider">
+                Bring your own keys
+              </Label>
+              <p className="font-mono text-xs text-muted-foreground">
+                Pick a key per project or conversation; anything without one uses the server's environment key. Usage is split by key.
+              </p>
+              <ApiKeyManager />
+            </div>
+          </div>
+
+          <div className="border-2 border-border p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}>
+            <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-muted-foreground">
+              [ Generation Defaults ]
+            </h2>
+            <div className="space-y-3">
+              <Label className="font-mono text-sm uppercase tracking-wider">
+                Sampling parameters for every chat
+              </Label>
+              <p className="font-mono text-xs text-muted-foreground">
+                Projects and conversations can override these. Blank fields use the model's defaults.
+              </p>
+              <GenerationParamsFields
+                value={settings?.generationParams ?? {}}
+                onChange={(value) => handleUpdateSetting("generationParams", value)}
+                testIdPrefix="global-"
+              />
+            </div>
+          </div>
+
           <div className="border-2 border-border p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}>
             <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-muted-foreground">
               [ Theme ]
@@ -224,6 +284,33 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          <div className="border-2 border-border p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}>
+            <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-muted-foreground">
+              [ Long Conversations ]
+            </h2>
+            <div className="space-y-3">
+              <Label className="font-mono text-sm uppercase tracking-wider">
+                When history exceeds the model's context window
+              </Label>
+              <div className="grid grid-cols-3 gap-3">
+                {COMPACTION_OPTIONS.map((option) => (
+                  <Button
+                    key={option.value}
+                    variant={(settings?.compactionStrategy ?? "summarize") === option.value ? "default" : "outline"}
+                    className="font-mono"
+                    onClick={() => handleUpdateSetting("compactionStrategy", option.value)}
+                    data-testid={`button-compaction-${option.value}`}
+                  >
+                    <span className="text-xs uppercase tracking-wider">{option.label}</span>
+                  </Button>
+                ))}
+              </div>
+              <p className="font-mono text-xs text-muted-foreground">
+                {COMPACTION_OPTIONS.find((o) => o.value === (settings?.compactionStrategy ?? "summarize"))?.description}
+              </p>
+            </div>
+          </div>
+
           <div className="border-2 border-destructive/50 p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--destructive) / 0.5)" }}>
             <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-destructive">
               [ Danger Zone ]
@@ -1,9 +1,10 @@
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { BarChart3, ChevronLeft, TrendingUp, Calendar, DollarSign } from "lucide-react";
+import { BarChart3, ChevronLeft, TrendingUp, Calendar, DollarSign, Zap } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { SidebarTrigger } from "@/components/ui/sidebar";
-import { modelOptions } from "@shared/schema";
+import { useModels } from "@/hooks/use-models";
+import { useApiKeys } from "@/hooks/use-api-keys";
 
 interface UsageSummary {
   today: number;
@@ -22,6 +23,18 @@ interface ModelUsage {
   cost: number;
 }
 
+interface KeyUsage {
+  // null is the server's environment key
+  apiKeyId: number | null;
+  cost: number;
+}
+
+interface CacheUsage {
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+  savings: number;
+}
+
 function formatCurrency(amount: number): string {
   return new Intl.NumberFormat("en-US", {
     style: "currency",
@@ -31,13 +44,14 @@ function formatCurrency(amount: number): string {
   }).format(amount);
 }
 
-function getModelLabel(modelValue: string): string {
-  const model = modelOptions.find((m) => m.value === modelValue);
-  return model?.label || modelValue;
+function formatTokens(tokens: number): string {
+  return new Intl.NumberFormat("en-US", { notation: "compact", maximumFractionDigits: 1 }).format(tokens);
 }
 
 export default function UsagePage() {
   const [, navigate] = useLocation();
+  const { getModelLabel } = useModels();
+  const { getKeyLabel } = useApiKeys();
 
   const { data: summary, isLoading: summaryLoading } = useQuery<UsageSummary>({
     queryKey: ["/api/usage/summary"],
@@ -51,6 +65,14 @@ export default function UsagePage() {
     queryKey: ["/api/usage/by-model"],
   });
 
+  const { data: keyUsage } = useQuery<KeyUsage[]>({
+    queryKey: ["/api/usage/by-key"],
+  });
+
+  const { data: cacheUsage } = useQuery<CacheUsage>({
+    queryKey: ["/api/usage/cache"],
+  });
+
   const maxDailyCost = dailyUsage?.length 
     ? Math.max(...dailyUsage.map(d => d.cost), 0.001) 
     : 0.001;
@@ -157,6 +179,37 @@ export default function UsagePage() {
               )}
             </div>
 
+            {cacheUsage && (cacheUsage.cacheReadTokens > 0 || cacheUsage.cacheWriteTokens > 0) && (
+              <div className="border-2 border-border p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}>
+                <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-muted-foreground">
+                  [ Prompt Cache - This Month ]
+                </h2>
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="font-mono text-sm flex items-center gap-2">
+                      <Zap className="h-4 w-4 text-muted-foreground" />
+                      Saved
+                    </span>
+                    <span className="font-mono text-sm font-bold" data-testid="text-cache-savings">
+                      {formatCurrency(cacheUsage.savings)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="font-mono text-sm">Tokens read from cache</span>
+                    <span className="font-mono text-sm" data-testid="text-cache-read-tokens">
+                      {formatTokens(cacheUsage.cacheReadTokens)}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="font-mono text-sm">Tokens written to cache</span>
+                    <span className="font-mono text-sm" data-testid="text-cache-write-tokens">
+                      {formatTokens(cacheUsage.cacheWriteTokens)}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {modelUsage && modelUsage.length > 0 && (
               <div className="border-2 border-border p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}>
                 <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-muted-foreground">
@@ -174,6 +227,24 @@ export default function UsagePage() {
                 </div>
               </div>
             )}
+
+            {keyUsage && keyUsage.length > 0 && (
+              <div className="border-2 border-border p-6" style={{ boxShadow: "4px 4px 0px hsl(var(--border))" }}>
+                <h2 className="font-mono text-sm uppercase tracking-wider font-bold mb-4 text-muted-foreground">
+                  [ By API Key - This Month ]
+                </h2>
+                <div className="space-y-3">
+                  {keyUsage.map((usage) => (
+                    <div key={usage.apiKeyId ?? "env"} className="flex justify-between items-center">
+                      <span className="font-mono text-sm">{getKeyLabel(usage.apiKeyId)}</span>
+                      <span className="font-mono text-sm font-bold" data-testid={`text-key-${usage.apiKeyId ?? "env"}`}>
+                        {formatCurrency(usage.cost)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,42 @@
+import { APP_KV_REQUEST, APP_KV_RESPONSE } from "@shared/schema";
+
+/**
+ * Script injected into a promoted app's preview. It defines `window.appKv` with promise-based
+ * get/set/delete/list calls; the preview runs on the sandbox's origin, so each call is posted to
+ * the parent page, which performs it against /api/apps/:id/kv and posts the result back.
+ */
+export function buildAppKvClientScript(appId: number): string {
+  return `(function () {
+  var pending = {};
+  var nextId = 1;
+  window.addEventListener("message", function (event) {
+    var data = event.data;
+    if (!data || data.type !== ${JSON.stringify(APP_KV_RESPONSE)} || !pending[data.requestId]) return;
+    var call = pending[data.requestId];
+    delete pending[data.requestId];
+    if (data.error) call.reject(new Error(data.error));
+    else call.resolve(data.result);
+  });
+  function request(op, key, value) {
+    return new Promise(function (resolve, reject) {
+      var requestId = nextId++;
+      pending[requestId] = { resolve: resolve, reject: reject };
+      window.parent.postMessage({
+        type: ${JSON.stringify(APP_KV_REQUEST)},
+        appId: ${appId},
+        requestId: requestId,
+        op: op,
+        key: key,
+        value: value
+      }, "*");
+    });
+  }
+  window.appKv = {
+    get: function (key) { return request("get", key); },
+    set: function (key, value) { return request("set", key, value); },
+    delete: function (key) { return request("delete", key); },
+    list: function () { return request("list"); }
+  };
+})();
+`;
+}
@@ -0,0 +1,128 @@
+import type { Response } from "express";
+import { randomUUID } from "crypto";
+
+// Finished jobs stay around briefly so a client that reconnects late can still replay the tail
+const FINISHED_JOB_TTL_MS = 5 * 60 * 1000;
+
+export type ChatJobPayload = Record<string, unknown> | "[DONE]";
+
+interface ChatJobEvent {
+  id: number;
+  data: string;
+}
+
+/**
+ * A single assistant generation, decoupled from the HTTP request that started it.
+ * Every SSE payload is appended to an in-memory event log with a monotonically
+ * increasing id, so clients can reconnect with Last-Event-ID and replay what they missed.
+ */
+export class ChatJob {
+  readonly id = randomUUID();
+  private events: ChatJobEvent[] = [];
+  private listeners = new Set<(event: ChatJobEvent) => void>();
+  private abortHandler: (() => void) | null = null;
+  private stopRequested = false;
+  finished = false;
+
+  constructor(
+    readonly conversationId: number,
+    readonly userMessageId: number,
+    readonly threadRootId: number | null,
+    // Set when the job appends to an existing assistant message instead of creating one
+    readonly continuesMessageId: number | null = null,
+  ) {}
+
+  emit(payload: ChatJobPayload): void {
+    if (this.finished) return;
+    const event: ChatJobEvent = {
+      id: this.events.length + 1,
+      data: payload === "[DONE]" ? payload : JSON.stringify(payload),
+    };
+    this.events.push(event);
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  finish(): void {
+    if (this.finished) return;
+    this.emit("[DONE]");
+    this.finished = true;
+    this.listeners.clear();
+  }
+
+  // Registers how to stop the underlying generation; fires immediately if Stop arrived first
+  onAbort(handler: () => void): void {
+    this.abortHandler = handler;
+    if (this.stopRequested) handler();
+  }
+
+  abort(): void {
+    this.stopRequested = true;
+    this.abortHandler?.();
+  }
+
+  // Streams events after lastEventId to an SSE response, then follows live events until [DONE].
+  // Closing the response only detaches this listener; the generation keeps running.
+  pipe(res: Response, lastEventId: number): void {
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
+    res.flushHeaders(); // Send headers immediately to start stream
+
+    // Disable Nagle's algorithm for immediate packet delivery
+    if (res.socket) {
+      res.socket.setNoDelay(true);
+    }
+
+    const write = (event: ChatJobEvent) => {
+      res.write(`id: ${event.id}\ndata: ${event.data}\n\n`);
+      if (event.data === "[DONE]") {
+        res.end();
+      }
+    };
+
+    for (const event of this.events) {
+      if (event.id > lastEventId) write(event);
+    }
+    if (this.finished) {
+      if (!res.writableEnded) res.end();
+      return;
+    }
+
+    this.listeners.add(write);
+    res.on("close", () => {
+      this.listeners.delete(write);
+    });
+  }
+}
+
+export class ChatJobRegistry {
+  private jobs = new Map<string, ChatJob>();
+
+  create(conversationId: number, userMessageId: number, threadRootId: number | null, continuesMessageId: number | null = null): ChatJob {
+    const job = new ChatJob(conversationId, userMessageId, threadRootId, continuesMessageId);
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  get(id: string): ChatJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  findActive(conversationId: number): ChatJob | undefined {
+    let latest: ChatJob | undefined;
+    this.jobs.forEach((job) => {
+      if (job.conversationId === conversationId && !job.finished) {
+        latest = job;
+      }
+    });
+    return latest;
+  }
+
+  finish(job: ChatJob): void {
+    job.finish();
+    setTimeout(() => this.jobs.delete(job.id), FINISHED_JOB_TTL_MS).unref();
+  }
+}
+
+export const chatJobs = new ChatJobRegistry();
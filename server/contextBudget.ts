@@ -0,0 +1,214 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { type CompactionInfo, type CompactionStrategy, calculateCost } from "@shared/schema";
+import { getProvider } from "./providers";
+import { resolveApiKey } from "./keyVault";
+import { storage } from "./storage";
+
+// Cheap model used to condense dropped turns into a note
+const SUMMARY_MODEL = "claude-haiku-4-5";
+const SUMMARY_MAX_TOKENS = 1024;
+// Keep the summarizer's own input comfortably inside its window; the most recent dropped turns win
+const SUMMARY_INPUT_MAX_CHARS = 400_000;
+
+// Rough per-block costs; the API reports exact counts only after the request is made
+const IMAGE_TOKENS = 1600;
+const MIN_PDF_TOKENS = 1500;
+
+// Rough token estimate (~4 chars/token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateBlockTokens(block: Anthropic.ContentBlockParam): number {
+  switch (block.type) {
+    case "text":
+      return estimateTokens(block.text);
+    case "image":
+      return IMAGE_TOKENS;
+    case "document":
+      // ~40 bytes of PDF per token once pages are rendered to text and images
+      if (block.source.type === "base64") {
+        return Math.max(MIN_PDF_TOKENS, Math.ceil((block.source.data.length * 0.75) / 40));
+      }
+      // Attached ledgers and project text files are plain-text documents
+      return block.source.type === "text" ? estimateTokens(block.source.data) : MIN_PDF_TOKENS;
+    default:
+      return estimateTokens(JSON.stringify(block));
+  }
+}
+
+export function estimateMessageTokens(message: Anthropic.MessageParam): number {
+  if (typeof message.content === "string") return estimateTokens(message.content);
+  return message.content.reduce((sum, block) => sum + estimateBlockTokens(block), 0);
+}
+
+export function estimateMessagesTokens(messages: Anthropic.MessageParam[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+}
+
+function stripAttachments(message: Anthropic.MessageParam): { message: Anthropic.MessageParam; stripped: number } {
+  if (typeof message.content === "string") return { message, stripped: 0 };
+  let stripped = 0;
+  const content = message.content.map((block): Anthropic.ContentBlockParam => {
+    if (block.type === "image") {
+      stripped++;
+      return { type: "text", text: "[Image attachment removed to fit the context window]" };
+    }
+    if (block.type === "document") {
+      stripped++;
+      return {
+        type: "text",
+        text: block.source.type === "text"
+          ? `[Document: ${block.title ?? "untitled"} — removed to fit the context window]`
+          : "[PDF attachment removed to fit the context window]",
+      };
+    }
+    // Text files are inlined by buildUserContent as "[File: name]" followed by a fenced block
+    const fileMatch = block.type === "text" ? block.text.match(/^\[File: (.+?)\]\n/) : null;
+    if (fileMatch) {
+      stripped++;
+      return { type: "text", text: `[File: ${fileMatch[1]} — removed to fit the context window]` };
+    }
+    return block;
+  });
+  return { message: { ...message, content }, stripped };
+}
+
+function toTranscript(messages: Anthropic.MessageParam[]): string {
+  const transcript = messages
+    .map((message) => {
+      const text = typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((block) => (block.type === "text" ? block.text : `[${block.type} attachment]`))
+            .join("\n");
+      return `${message.role === "user" ? "User" : "Assistant"}: ${text}`;
+    })
+    .join("\n\n");
+  return transcript.length > SUMMARY_INPUT_MAX_CHARS
+    ? transcript.slice(transcript.length - SUMMARY_INPUT_MAX_CHARS)
+    : transcript;
+}
+
+async function summarizeMessages(
+  messages: Anthropic.MessageParam[],
+  conversationId: number,
+  apiKeyChoices: Array<number | null | undefined>,
+): Promise<string> {
+  const model = await storage.getModel(SUMMARY_MODEL);
+  if (!model) {
+    throw new Error(`Summary model ${SUMMARY_MODEL} is not registered`);
+  }
+  // The conversation's key pays for its summaries too, if it's for the summary model's provider
+  const { apiKeyId, apiKey } = await resolveApiKey(model, apiKeyChoices);
+
+  const result = await getProvider(model).stream(model, {
+    system: [{ type: "text", text: "Summarize the earlier part of a conversation so it can continue without the original messages. Keep decisions, facts, names, open questions and any code or artifact titles. Write plain prose, no preamble." }],
+    messages: [{ role: "user", content: toTranscript(messages) }],
+    maxTokens: SUMMARY_MAX_TOKENS,
+    apiKey,
+  }, {}, new AbortController().signal);
+
+  if (result.usage) {
+    try {
+      await storage.recordApiUsage({
+        model: SUMMARY_MODEL,
+        inputTokens: result.usage.inputTokens,
+        outputTokens: result.usage.outputTokens,
+        costUsd: calculateCost(model, result.usage.inputTokens, result.usage.outputTokens),
+        conversationId,
+        apiKeyId,
+      });
+    } catch (usageError) {
+      console.error("Failed to record summary API usage:", usageError);
+    }
+  }
+  if (result.error) throw result.error;
+
+  return result.content
+    .filter((block): block is Anthropic.TextBlockParam => block.type === "text")
+    .map((block) => block.text)
+    .join("\n")
+    .trim();
+}
+
+function prependText(message: Anthropic.MessageParam, text: string): Anthropic.MessageParam {
+  const content: Anthropic.ContentBlockParam[] = typeof message.content === "string"
+    ? [{ type: "text", text: message.content }]
+    : message.content;
+  return { ...message, content: [{ type: "text", text }, ...content] };
+}
+
+/**
+ * Shrinks the history until it fits the token budget. The last message (the new user turn)
+ * is never touched. Strategies that cannot free enough space fall back to dropping the
+ * oldest turns, so the result always starts with a user message.
+ */
+export async function compactHistory(
+  messages: Anthropic.MessageParam[],
+  budget: number,
+  strategy: CompactionStrategy,
+  conversationId: number,
+  // Keys the conversation would pay with, most specific first (see resolveApiKey)
+  apiKeyChoices: Array<number | null | undefined> = [],
+): Promise<{ messages: Anthropic.MessageParam[]; compaction: CompactionInfo | null }> {
+  const tokensBefore = estimateMessagesTokens(messages);
+  if (tokensBefore <= budget) {
+    return { messages, compaction: null };
+  }
+
+  let working = messages;
+  let strippedAttachments = 0;
+
+  if (strategy === "strip-attachments") {
+    working = [...messages];
+    // Oldest first; stop as soon as the history fits
+    for (let i = 0; i < working.length - 1 && estimateMessagesTokens(working) > budget; i++) {
+      const result = stripAttachments(working[i]);
+      working[i] = result.message;
+      strippedAttachments += result.stripped;
+    }
+  }
+
+  // The summary note takes space in the kept history, so leave room for it
+  const dropBudget = strategy === "summarize" ? budget - SUMMARY_MAX_TOKENS : budget;
+  let start = 0;
+  let keptTokens = estimateMessagesTokens(working);
+  while (start < working.length - 1 && keptTokens > dropBudget) {
+    keptTokens -= estimateMessageTokens(working[start]);
+    start++;
+  }
+  while (start < working.length - 1 && working[start].role !== "user") {
+    start++;
+  }
+
+  const dropped = working.slice(0, start);
+  let kept = working.slice(start);
+  let summary: string | undefined;
+
+  if (strategy === "summarize" && dropped.length > 0) {
+    try {
+      summary = await summarizeMessages(dropped, conversationId, apiKeyChoices);
+      kept = [
+        prependText(kept[0], `[Summary of ${dropped.length} earlier messages, compacted to fit the context window]\n${summary}`),
+        ...kept.slice(1),
+      ];
+    } catch (error) {
+      // Dropping without a summary still lets the reply go through
+      console.error("Failed to summarize history, dropping instead:", error);
+      summary = undefined;
+    }
+  }
+
+  return {
+    messages: kept,
+    compaction: {
+      strategy,
+      droppedMessages: dropped.length,
+      strippedAttachments,
+      summary,
+      tokensBefore,
+      tokensAfter: estimateMessagesTokens(kept),
+    },
+  };
+}
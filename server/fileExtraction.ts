@@ -0,0 +1,100 @@
+import path from "path";
+import sharp from "sharp";
+import mammoth from "mammoth";
+import { extractText as extractPdfText } from "unpdf";
+import { isImageFile, isPdfFile, isTextFile } from "./fileTypes";
+
+export const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+// Browsers report many of these as application/octet-stream, and .ts as a video stream
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".tsv": "text/tab-separated-values",
+  ".json": "application/json",
+  ".yaml": "application/x-yaml",
+  ".yml": "application/x-yaml",
+  ".xml": "application/xml",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".js": "text/javascript",
+  ".jsx": "text/javascript",
+  ".mjs": "text/javascript",
+  ".ts": "application/typescript",
+  ".tsx": "application/typescript",
+  ".py": "text/x-python",
+  ".rb": "text/x-ruby",
+  ".go": "text/x-go",
+  ".rs": "text/x-rust",
+  ".java": "text/x-java",
+  ".c": "text/x-c",
+  ".h": "text/x-c",
+  ".cpp": "text/x-c++",
+  ".cs": "text/x-csharp",
+  ".php": "text/x-php",
+  ".swift": "text/x-swift",
+  ".kt": "text/x-kotlin",
+  ".sql": "text/x-sql",
+  ".sh": "application/x-sh",
+  ".toml": "text/x-toml",
+  ".ini": "text/plain",
+  ".env": "text/plain",
+  ".docx": DOCX_MIME_TYPE,
+  ".pdf": "application/pdf",
+};
+
+export function resolveMimeType(originalName: string, reportedMimeType: string): string {
+  return MIME_TYPES_BY_EXTENSION[path.extname(originalName).toLowerCase()] ?? reportedMimeType;
+}
+
+export function isDocxFile(mimeType: string): boolean {
+  return mimeType === DOCX_MIME_TYPE;
+}
+
+// Whether Claude gets the file as its extracted text rather than the original bytes
+export function hasExtractableText(mimeType: string): boolean {
+  return isPdfFile(mimeType) || isDocxFile(mimeType) || isTextFile(mimeType);
+}
+
+export interface ExtractedText {
+  text: string | null;
+  error: string | null;
+}
+
+// Plain text of a PDF, DOCX or text file; images and other binaries have none
+export async function extractText(data: Buffer, mimeType: string): Promise<ExtractedText> {
+  if (!hasExtractableText(mimeType)) return { text: null, error: null };
+  try {
+    if (isPdfFile(mimeType)) {
+      const { text } = await extractPdfText(new Uint8Array(data), { mergePages: true });
+      return { text: text.trim(), error: null };
+    }
+    if (isDocxFile(mimeType)) {
+      const { value } = await mammoth.extractRawText({ buffer: data });
+      return { text: value.trim(), error: null };
+    }
+    return { text: data.toString("utf-8").replace(/^\uFEFF/, ""), error: null };
+  } catch (error) {
+    return { text: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+const THUMBNAIL_SIZE = 160;
+
+// Small WebP data URL for the file list; null for non-images or images sharp can't read
+export async function createThumbnail(data: Buffer, mimeType: string): Promise<string | null> {
+  if (!isImageFile(mimeType)) return null;
+  try {
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toBuffer();
+    return `data:image/webp;base64,${thumbnail.toString("base64")}`;
+  } catch (error) {
+    console.error("Error creating thumbnail:", error);
+    return null;
+  }
+}
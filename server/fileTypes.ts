@@ -0,0 +1,29 @@
+const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const PDF_MIME_TYPE = "application/pdf";
+
+export function isImageFile(mimeType: string): boolean {
+  return IMAGE_MIME_TYPES.includes(mimeType);
+}
+
+export function isPdfFile(mimeType: string): boolean {
+  return mimeType === PDF_MIME_TYPE;
+}
+
+export function isTextFile(mimeType: string): boolean {
+  const textMimeTypes = [
+    "text/plain",
+    "text/html",
+    "text/css",
+    "text/javascript",
+    "text/markdown",
+    "text/csv",
+    "text/xml",
+    "application/json",
+    "application/xml",
+    "application/javascript",
+    "application/typescript",
+    "application/x-yaml",
+    "application/x-sh",
+  ];
+  return textMimeTypes.includes(mimeType) || mimeType.startsWith("text/");
+}
@@ -0,0 +1,73 @@
+import crypto from "crypto";
+import type { Model } from "@shared/schema";
+import { storage } from "./storage";
+
+// Changing the secret makes every stored key undecryptable; they have to be re-entered
+const MASTER_SECRET = process.env.API_KEY_MASTER_SECRET;
+const FORMAT_VERSION = "v1";
+const IV_BYTES = 12;
+
+let masterKey: Buffer | null = null;
+
+function getMasterKey(): Buffer {
+  if (!MASTER_SECRET) {
+    throw new Error("API_KEY_MASTER_SECRET must be set to store API keys");
+  }
+  masterKey ??= crypto.scryptSync(MASTER_SECRET, "api-keys", 32);
+  return masterKey;
+}
+
+export function isKeyVaultConfigured(): boolean {
+  return Boolean(MASTER_SECRET);
+}
+
+// Stored as "v1:iv:authTag:ciphertext", each part base64
+export function encryptApiKey(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getMasterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return [FORMAT_VERSION, iv, cipher.getAuthTag(), ciphertext]
+    .map((part) => (typeof part === "string" ? part : part.toString("base64")))
+    .join(":");
+}
+
+export function decryptApiKey(stored: string): string {
+  const [version, iv, authTag, ciphertext] = stored.split(":");
+  if (version !== FORMAT_VERSION || !iv || !authTag || !ciphertext) {
+    throw new Error("Unrecognised encrypted key format");
+  }
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getMasterKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+}
+
+export function keyHint(plaintext: string): string {
+  return `…${plaintext.slice(-4)}`;
+}
+
+export interface ResolvedApiKey {
+  // Null means the provider's environment key
+  apiKeyId: number | null;
+  apiKey?: string;
+}
+
+/**
+ * Picks the key that pays for a request from the given choices, most specific first
+ * (conversation, then project). Revoked keys and keys for another provider are skipped, so
+ * switching a conversation to a different provider's model falls back to the next choice
+ * and finally the environment key.
+ */
+export async function resolveApiKey(model: Pick<Model, "provider">, choices: Array<number | null | undefined>): Promise<ResolvedApiKey> {
+  for (const id of choices) {
+    if (!id) continue;
+    const stored = await storage.getStoredApiKey(id);
+    if (!stored || stored.revokedAt || stored.provider !== model.provider) continue;
+    try {
+      return { apiKeyId: stored.id, apiKey: decryptApiKey(stored.encryptedKey) };
+    } catch (error) {
+      // Falling through would silently bill the environment key instead
+      throw new Error(`API key "${stored.label}" could not be decrypted; check API_KEY_MASTER_SECRET or re-enter the key`);
+    }
+  }
+  return { apiKeyId: null };
+}
@@ -0,0 +1,90 @@
+import { LEDGER_TYPES, type Ledger, type LedgerScope, type LedgerType, type LedgerVersion, type LedgerVersionMetadata } from "@shared/schema";
+import { parseLedgerBlocks, buildSentinelContent, type LedgerChipInfo, type ParsedLedger } from "@shared/ledgerParser";
+import { storage } from "./storage";
+
+// Only code ledgers keep a declared template and files
+function codeMetadata(type: string, block: ParsedLedger): LedgerVersionMetadata {
+  return type === "code" && block.code ? { code: block.code } : {};
+}
+
+/**
+ * Saves the `<ledger>` blocks of a streaming reply as each one closes, so they are kept even if
+ * no browser is attached. `<ledger id="N">` revises ledger N rather than creating a new one.
+ * Every save is announced with a `{ ledger }` payload, and `finish()` returns the reply with the
+ * blocks replaced by `<ledger-ref>` sentinels, ready to store.
+ */
+export class LedgerCollector {
+  private text: string;
+  // One per block in reply order; null keeps the block's XML (unknown type or failed save)
+  private slots: Array<LedgerChipInfo | null>;
+  // Versions to link once the reply has been saved and has an id
+  private unlinkedVersionIds: number[] = [];
+  // Saves run one at a time so slots fill and events go out in block order
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private emit: (payload: Record<string, unknown>) => void,
+    // Conversation and project that new ledgers belong to
+    private scope: LedgerScope,
+    // Known up front when continuing a stored reply
+    private messageId: number | null = null,
+    prefix = "",
+  ) {
+    this.text = prefix;
+    // Blocks already in a continued reply were handled by the stream that wrote them
+    this.slots = parseLedgerBlocks(prefix).completeLedgers.map(() => null);
+  }
+
+  push(delta: string): void {
+    this.text += delta;
+    const { completeLedgers } = parseLedgerBlocks(this.text);
+    for (let index = this.slots.length; index < completeLedgers.length; index++) {
+      const block = completeLedgers[index];
+      this.slots.push(null);
+      this.saving = this.saving.then(() => this.save(index, block));
+    }
+  }
+
+  private async save(index: number, block: ParsedLedger): Promise<void> {
+    try {
+      const saved = block.id !== undefined ? await this.revise(block.id, block) : null;
+      if (!saved && !(LEDGER_TYPES as readonly string[]).includes(block.type)) return;
+      const { ledger, version } = saved ?? await storage.createLedger(
+        { title: block.title, type: block.type as LedgerType, ...this.scope },
+        block.content,
+        this.messageId,
+        codeMetadata(block.type, block),
+      );
+      this.slots[index] = { id: ledger.id, title: ledger.title, type: ledger.type, version: version.versionNumber };
+      if (this.messageId === null) {
+        this.unlinkedVersionIds.push(version.id);
+      }
+      this.emit({
+        ledger: { index, id: ledger.id, title: ledger.title, type: ledger.type, versionNumber: version.versionNumber },
+      });
+    } catch (error) {
+      console.error("Failed to save ledger:", error);
+    }
+  }
+
+  // A block with an id becomes the next version of that ledger; an unknown or out-of-scope id falls back to creating one
+  private async revise(ledgerId: number, block: ParsedLedger): Promise<{ ledger: Ledger; version: LedgerVersion } | null> {
+    const ledger = await storage.getScopedLedger(ledgerId, this.scope);
+    if (!ledger) return null;
+    const version = await storage.addLedgerVersion(ledger.id, block.content, this.messageId, codeMetadata(ledger.type, block));
+    return { ledger, version };
+  }
+
+  // Versions written some other way during the reply, such as by the write_ledger tool
+  linkVersion(versionId: number): void {
+    if (this.messageId === null) {
+      this.unlinkedVersionIds.push(versionId);
+    }
+  }
+
+  /** Waits for in-flight saves; `versionIds` should be linked when the reply is created. */
+  async finish(): Promise<{ content: string; versionIds: number[] }> {
+    await this.saving;
+    return { content: buildSentinelContent(this.text, this.slots), versionIds: this.unlinkedVersionIds };
+  }
+}
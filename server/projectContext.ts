@@ -0,0 +1,156 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { type Model, type Project, type ProjectContextInfo, type ProjectFile } from "@shared/schema";
+import { storage } from "./storage";
+import { estimateBlockTokens, estimateTokens } from "./contextBudget";
+import { EPHEMERAL_CACHE } from "./promptCache";
+import { isImageFile, isPdfFile } from "./fileTypes";
+import { hasExtractableText } from "./fileExtraction";
+
+// Project files get at most this share of the context window, and never more than the cap
+const PROJECT_FILES_BUDGET_SHARE = 0.25;
+const PROJECT_FILES_MAX_TOKENS = 50_000;
+// A text file is cut to fit only if at least this much of it still would; otherwise it is left out
+const MIN_TRUNCATED_TOKENS = 1000;
+
+type ProjectBlock = Anthropic.TextBlockParam | Anthropic.ImageBlockParam | Anthropic.DocumentBlockParam;
+type FileUsage = ProjectContextInfo["files"][number];
+
+export interface ProjectContext {
+  // Goes ahead of the conversation's own system prompt
+  instructions: string | null;
+  // Sent at the start of the history, ahead of the first user turn
+  blocks: ProjectBlock[];
+  tokens: number;
+  info: ProjectContextInfo;
+}
+
+// Images and, for models that read them, PDFs go as the original bytes; other documents as their extracted text
+async function fileBlocks(file: ProjectFile, model: Pick<Model, "supportsVision" | "supportsPdf">): Promise<ProjectBlock[] | string> {
+  const context = `Project file ${file.originalName}`;
+  const blobData = async () => file.contentHash ? (await storage.getFileBlob(file.contentHash))?.data : undefined;
+
+  if (isImageFile(file.mimeType)) {
+    if (!model.supportsVision) return "images not supported by this model";
+    const data = await blobData();
+    if (!data) return "file content missing";
+    return [
+      { type: "text", text: `[Project file: ${file.originalName}]` },
+      {
+        type: "image",
+        source: {
+          type: "base64",
+          media_type: file.mimeType as "image/png" | "image/jpeg" | "image/gif" | "image/webp",
+          data,
+        },
+      },
+    ];
+  }
+  if (isPdfFile(file.mimeType) && model.supportsPdf) {
+    const data = await blobData();
+    if (!data) return "file content missing";
+    return [{
+      type: "document",
+      source: { type: "base64", media_type: "application/pdf", data },
+      title: file.originalName,
+      context,
+    }];
+  }
+  if (hasExtractableText(file.mimeType)) {
+    if (file.extractedText === null) return file.extractionError ? `text extraction failed: ${file.extractionError}` : "no extracted text";
+    if (!file.extractedText.trim()) return "no text found";
+    return [{
+      type: "document",
+      source: { type: "text", media_type: "text/plain", data: file.extractedText },
+      title: file.originalName,
+      context,
+    }];
+  }
+  return "unsupported file type";
+}
+
+// Keeps the head of a text document within `tokens`
+function truncateDocument(block: Anthropic.DocumentBlockParam, tokens: number): Anthropic.DocumentBlockParam {
+  if (block.source.type !== "text") return block;
+  const note = "\n\n[... truncated to fit the project context budget]";
+  const data = block.source.data.slice(0, Math.max(0, tokens * 4 - note.length)) + note;
+  return { ...block, source: { ...block.source, data } };
+}
+
+/**
+ * The instructions and files of a conversation's project. Files are added in upload order while
+ * they fit the budget; a text file that doesn't fit is cut down, anything else is left out.
+ * Returns null when the conversation isn't in a project or the project has nothing to add.
+ */
+export async function buildProjectContext(
+  project: Project | undefined,
+  model: Pick<Model, "contextWindow" | "supportsVision" | "supportsPdf">,
+): Promise<ProjectContext | null> {
+  if (!project) return null;
+  const instructions = project.instructions?.trim() || null;
+  const files = await storage.getProjectFiles(project.id);
+  if (!instructions && files.length === 0) return null;
+
+  const budgetTokens = Math.min(PROJECT_FILES_MAX_TOKENS, Math.floor(model.contextWindow * PROJECT_FILES_BUDGET_SHARE));
+  const blocks: ProjectBlock[] = [];
+  const usage: FileUsage[] = [];
+  let usedTokens = 0;
+
+  for (const file of files) {
+    const omit = (reason: string) => usage.push({ id: file.id, name: file.originalName, tokens: 0, status: "omitted", reason });
+
+    const built = await fileBlocks(file, model);
+    if (typeof built === "string") {
+      omit(built);
+      continue;
+    }
+
+    const tokens = built.reduce((sum, block) => sum + estimateBlockTokens(block), 0);
+    const remaining = budgetTokens - usedTokens;
+    if (tokens <= remaining) {
+      blocks.push(...built);
+      usedTokens += tokens;
+      usage.push({ id: file.id, name: file.originalName, tokens, status: "included" });
+    } else if (built.length === 1 && built[0].type === "document" && built[0].source.type === "text" && remaining >= MIN_TRUNCATED_TOKENS) {
+      blocks.push(truncateDocument(built[0], remaining));
+      usedTokens += remaining;
+      usage.push({ id: file.id, name: file.originalName, tokens: remaining, status: "truncated", reason: `~${tokens.toLocaleString()} tokens, over budget` });
+    } else {
+      omit(`~${tokens.toLocaleString()} tokens, over budget`);
+    }
+  }
+
+  if (blocks.length > 0) {
+    const intro = `The following files are attached to the project "${project.name}" this conversation belongs to.`;
+    blocks.unshift({ type: "text", text: intro });
+    usedTokens += estimateTokens(intro);
+    // Same files on every turn, so they are worth their own cache breakpoint
+    blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: EPHEMERAL_CACHE };
+  }
+
+  return {
+    instructions,
+    blocks,
+    tokens: usedTokens,
+    info: {
+      projectId: project.id,
+      projectName: project.name,
+      instructions: instructions !== null,
+      files: usage,
+      budgetTokens,
+      usedTokens,
+    },
+  };
+}
+
+// Puts the project files at the very start of the first user turn
+export function withProjectContext(messages: Anthropic.MessageParam[], context: ProjectContext | null): Anthropic.MessageParam[] {
+  if (!context || context.blocks.length === 0) return messages;
+  const [first, ...rest] = messages;
+  if (!first || first.role !== "user") {
+    return [{ role: "user", content: context.blocks }, ...messages];
+  }
+  const firstBlocks = typeof first.content !== "string"
+    ? first.content
+    : first.content ? [{ type: "text" as const, text: first.content }] : [];
+  return [{ ...first, content: [...context.blocks, ...firstBlocks] }, ...rest];
+}
@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import path from "path";
+import fs from "fs/promises";
+import { type ProjectFile } from "@shared/schema";
+import { storage, type ProjectFileContent } from "./storage";
+import { createThumbnail, extractText, resolveMimeType } from "./fileExtraction";
+
+export function hashContent(data: Buffer): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+// Extracted text and thumbnail for some bytes, reusing what an earlier upload of the same content produced
+async function prepareContent(data: Buffer, mimeType: string, contentHash: string, existing: ProjectFile[]): Promise<ProjectFileContent> {
+  const previous = existing.find((file) => file.mimeType === mimeType);
+  if (previous) {
+    return {
+      mimeType,
+      contentHash,
+      extractedText: previous.extractedText,
+      extractionError: previous.extractionError,
+      thumbnail: previous.thumbnail,
+    };
+  }
+  const [extracted, thumbnail] = await Promise.all([extractText(data, mimeType), createThumbnail(data, mimeType)]);
+  return { mimeType, contentHash, extractedText: extracted.text, extractionError: extracted.error, thumbnail };
+}
+
+/**
+ * Stores an upload in the database with its text and thumbnail. Uploading bytes the project
+ * already has returns the existing file instead of adding a copy.
+ */
+export async function ingestProjectFile(
+  projectId: number,
+  originalName: string,
+  reportedMimeType: string,
+  data: Buffer,
+): Promise<{ file: ProjectFile; duplicate: boolean }> {
+  const contentHash = hashContent(data);
+  const existing = await storage.getProjectFilesByHash(contentHash);
+  const inProject = existing.find((file) => file.projectId === projectId);
+  if (inProject) return { file: inProject, duplicate: true };
+
+  const mimeType = resolveMimeType(originalName, reportedMimeType);
+  const content = await prepareContent(data, mimeType, contentHash, existing);
+  // Another upload of the same bytes can land between the check above and this insert
+  return await storage.createProjectFile(
+    {
+      projectId,
+      filename: contentHash,
+      originalName,
+      size: data.length,
+      ...content,
+      contentHash,
+    },
+    data.toString("base64"),
+  );
+}
+
+// Moves uploads from before files were stored in the database off the disk; safe to run on every
+// start since only files without a content hash are touched, and each is removed from disk once stored
+export async function migrateDiskProjectFiles(): Promise<void> {
+  const files = await storage.getUnstoredProjectFiles();
+  for (const file of files) {
+    const filePath = path.join(process.cwd(), "uploads", file.filename);
+    let data: Buffer;
+    try {
+      data = await fs.readFile(filePath);
+    } catch {
+      console.error(`Project file ${file.id} (${file.originalName}) is missing from disk`);
+      continue;
+    }
+    const contentHash = hashContent(data);
+    const existing = await storage.getProjectFilesByHash(contentHash);
+    if (existing.some((stored) => stored.projectId === file.projectId)) {
+      // A project holds each content once; an older copy of a file it already has is dropped
+      await storage.deleteProjectFile(file.id);
+    } else {
+      const mimeType = resolveMimeType(file.originalName, file.mimeType);
+      const content = await prepareContent(data, mimeType, contentHash, existing);
+      await storage.storeProjectFileContent(file.id, content, data.toString("base64"), data.length);
+    }
+    await fs.unlink(filePath).catch((error) => console.error("Error deleting migrated file from disk:", error));
+  }
+}
@@ -0,0 +1,57 @@
+import type Anthropic from "@anthropic-ai/sdk";
+
+// Blocks smaller than this are below the API's minimum cacheable prefix, so a breakpoint would be wasted
+export const MIN_CACHEABLE_TOKENS = 1024;
+
+export const EPHEMERAL_CACHE: Anthropic.CacheControlEphemeral = { type: "ephemeral" };
+
+type CacheableBlock = { cache_control?: Anthropic.CacheControlEphemeral | null };
+
+/**
+ * Breakpoint budget (Anthropic allows 4 per request):
+ *   1. system prompt (tools are part of the same prefix)
+ *   2. end of the stable history prefix, or on a conversation's first turn (no prefix yet) the
+ *      project files block that opens it (see projectContext.ts); once there is history the
+ *      prefix covers that block and its breakpoint is dropped
+ *   3. last large file block in the new user message
+ *   4. latest tool round, moved forward by the tool loop
+ */
+export function cacheSystemPrompt(system: string): Anthropic.TextBlockParam[] {
+  return [{ type: "text", text: system, cache_control: EPHEMERAL_CACHE }];
+}
+
+function withoutCacheControl<T extends CacheableBlock>(block: T): T {
+  if (!block.cache_control) return block;
+  const { cache_control: _removed, ...rest } = block;
+  return rest as T;
+}
+
+/**
+ * Marks the turn before the new user message as the end of the cacheable history prefix.
+ * File breakpoints inside that prefix are redundant once it is cached, so they are dropped
+ * to keep the request within the breakpoint limit.
+ */
+export function applyHistoryCacheBreakpoint(messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+  const prefixEnd = messages.length - 2;
+  if (prefixEnd < 0) return messages;
+
+  return messages.map((message, index) => {
+    if (index > prefixEnd || message.content === "") return message;
+
+    const blocks = typeof message.content === "string"
+      ? [{ type: "text" as const, text: message.content }]
+      : message.content.map((block) => withoutCacheControl(block as CacheableBlock) as typeof block);
+    if (index < prefixEnd || blocks.length === 0) {
+      return { ...message, content: blocks };
+    }
+
+    const last = blocks[blocks.length - 1];
+    if (last.type === "thinking" || last.type === "redacted_thinking") {
+      return { ...message, content: blocks };
+    }
+    return {
+      ...message,
+      content: [...blocks.slice(0, -1), { ...last, cache_control: EPHEMERAL_CACHE }],
+    };
+  });
+}
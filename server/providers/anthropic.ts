@@ -0,0 +1,99 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { MessageStream } from "@anthropic-ai/sdk/lib/MessageStream";
+import type { Model } from "@shared/schema";
+import { anthropic } from "../anthropic";
+import type { LLMProvider, LLMRequest, LLMStreamHandlers, LLMStreamResult, LLMUsage } from "./types";
+
+function toStreamParams(model: Model, request: LLMRequest): Anthropic.MessageStreamParams {
+  const params: Anthropic.MessageStreamParams = {
+    model: model.id,
+    max_tokens: request.maxTokens,
+    system: request.system,
+    messages: request.messages,
+  };
+  if (request.stopSequences && request.stopSequences.length > 0) params.stop_sequences = request.stopSequences;
+  if (request.temperature !== undefined) params.temperature = request.temperature;
+  if (request.topP !== undefined) params.top_p = request.topP;
+  if (request.topK !== undefined) params.top_k = request.topK;
+  if (request.thinking) params.thinking = { type: "enabled", budget_tokens: request.thinking.budgetTokens };
+  if (request.tools && request.tools.length > 0) params.tools = request.tools;
+  return params;
+}
+
+// Usage for one streamed request - try multiple sources to ensure we capture usage
+function getStreamUsage(stream: MessageStream, finalMessage: Anthropic.Message | null): LLMUsage | null {
+  // Primary source: finalMessage.usage, or the partial snapshot if the stream was stopped
+  let usage = finalMessage?.usage ?? stream.currentMessage?.usage;
+
+  // Fallback: try stream.totalUsage() if available (some SDK versions)
+  if (!usage || usage.input_tokens === undefined) {
+    usage = (stream as any).totalUsage?.() ?? usage;
+  }
+
+  // Also check current accumulated usage from stream
+  if (!usage || usage.input_tokens === undefined) {
+    usage = (stream as any).currentUsage?.() ?? usage;
+  }
+
+  if (!usage || usage.input_tokens === undefined || usage.output_tokens === undefined) {
+    return null;
+  }
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+  };
+}
+
+export const anthropicProvider: LLMProvider = {
+  name: "anthropic",
+  capabilities: { tools: true, thinking: true, assistantPrefill: true },
+
+  async stream(model: Model, request: LLMRequest, handlers: LLMStreamHandlers, signal: AbortSignal): Promise<LLMStreamResult> {
+    const client = request.apiKey ? new Anthropic({ apiKey: request.apiKey }) : anthropic;
+    const stream = client.messages.stream(toStreamParams(model, request));
+    const onAbort = () => stream.abort();
+    if (signal.aborted) {
+      stream.abort();
+    } else {
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+
+    // Use event-based streaming for immediate token delivery
+    stream.on("text", (text: string) => handlers.onText?.(text));
+    stream.on("thinking", (delta: string) => handlers.onThinking?.(delta));
+
+    // An aborted stream rejects here; the partial usage snapshot is still reported
+    let finalMessage: Anthropic.Message | null = null;
+    let error: Error | null = null;
+    try {
+      finalMessage = await stream.finalMessage();
+    } catch (streamError) {
+      if (!stream.aborted) {
+        error = streamError instanceof Error ? streamError : new Error(String(streamError));
+      }
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+
+    const content = finalMessage?.content ?? [];
+    return {
+      content,
+      toolUses: content.filter((block): block is Anthropic.ToolUseBlock => block.type === "tool_use"),
+      stopReason: finalMessage?.stop_reason ?? null,
+      usage: getStreamUsage(stream, finalMessage),
+      stopped: !error && finalMessage === null,
+      error,
+    };
+  },
+
+  async verifyKey(apiKey: string): Promise<string | null> {
+    try {
+      await new Anthropic({ apiKey }).models.list({ limit: 1 });
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  },
+};
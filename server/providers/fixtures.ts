@@ -0,0 +1,321 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { Model } from "@shared/schema";
+import { estimateMessagesTokens, estimateTokens } from "../contextBudget";
+import type { LLMProvider, LLMRequest, LLMStreamHandlers, LLMStreamResult, LLMUsage } from "./types";
+
+/**
+ * Offline replay and recording of model streams, selected with LLM_FIXTURE_MODE:
+ * - "replay" answers every request from JSON fixtures without any network access or API key.
+ * - "record" calls the real provider and saves each stream as a fixture that replays the same way.
+ *
+ * A fixture is picked by, in order: a `[fixture:NAME]` directive in the prompt, a recorded `prompt`
+ * equal to the last user message, a `match` regex against it, and finally `default.json`.
+ * Each tool round (or Continue) after that message plays the next entry in `turns`.
+ */
+const FIXTURE_DIR = path.resolve(process.env.LLM_FIXTURE_DIR || "fixtures/llm");
+
+// Pacing for fixtures written by hand; recorded chunks carry their own delays
+const CHUNK_DELAY_MS = Number(process.env.LLM_FIXTURE_DELAY_MS ?? 30);
+const FIRST_CHUNK_DELAY_MS = CHUNK_DELAY_MS * 10;
+// Words per chunk when splitting a plain `text` field, close to what the API sends
+const WORDS_PER_CHUNK = 3;
+
+const DIRECTIVE_PATTERN = /\[fixture:([\w.-]+)\]/;
+
+export interface FixtureChunk {
+  type: "text" | "thinking";
+  text: string;
+  // Wait before this chunk is emitted
+  delayMs?: number;
+}
+
+export interface FixtureTurn {
+  // Recorded deltas; hand-written fixtures can use `text`/`thinking` instead and let replay split them
+  chunks?: FixtureChunk[];
+  text?: string;
+  thinking?: string;
+  toolUses?: Array<{ id: string; name: string; input: unknown }>;
+  // Defaults to "tool_use" when toolUses are present, otherwise "end_turn"
+  stopReason?: string;
+  // Missing fields are estimated from the request and the replayed output
+  usage?: Partial<LLMUsage>;
+  // Emitted after the chunks, like a stream that fails midway
+  error?: string;
+}
+
+export interface Fixture {
+  description?: string;
+  // Exact last user message, written by record mode
+  prompt?: string;
+  // Case-insensitive regex for hand-written fixtures
+  match?: string;
+  model?: string;
+  turns: FixtureTurn[];
+}
+
+// The last user message that isn't just tool results, and how many assistant turns followed it
+function locatePrompt(messages: Anthropic.MessageParam[]): { prompt: string; round: number } {
+  let round = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === "assistant") {
+      round++;
+      continue;
+    }
+    const text = typeof message.content === "string"
+      ? message.content
+      : message.content
+          .filter((block): block is Anthropic.TextBlockParam => block.type === "text")
+          .map((block) => block.text)
+          .join("\n");
+    if (text) return { prompt: text.trim(), round };
+  }
+  return { prompt: "", round };
+}
+
+async function readFixture(name: string): Promise<Fixture | null> {
+  try {
+    return JSON.parse(await fs.readFile(path.join(FIXTURE_DIR, `${name}.json`), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+// Read on every request so fixtures can be edited or recorded without restarting the server
+async function findFixture(prompt: string): Promise<{ name: string; fixture: Fixture } | null> {
+  const directive = prompt.match(DIRECTIVE_PATTERN);
+  if (directive) {
+    const fixture = await readFixture(directive[1]);
+    return fixture ? { name: directive[1], fixture } : null;
+  }
+
+  let files: string[] = [];
+  try {
+    files = (await fs.readdir(FIXTURE_DIR)).filter((file) => file.endsWith(".json")).sort();
+  } catch {
+    return null;
+  }
+  const fixtures: Array<{ name: string; fixture: Fixture }> = [];
+  for (const file of files) {
+    const name = file.slice(0, -".json".length);
+    const fixture = await readFixture(name);
+    if (fixture) fixtures.push({ name, fixture });
+  }
+
+  return fixtures.find(({ fixture }) => fixture.prompt !== undefined && fixture.prompt.trim() === prompt)
+    ?? fixtures.find(({ fixture }) => {
+      if (!fixture.match) return false;
+      try {
+        return new RegExp(fixture.match, "i").test(prompt);
+      } catch {
+        return false;
+      }
+    })
+    ?? fixtures.find(({ name }) => name === "default")
+    ?? null;
+}
+
+function splitIntoChunks(type: FixtureChunk["type"], text: string): FixtureChunk[] {
+  const words = text.match(/\S+\s*|\s+/g) ?? [];
+  const chunks: FixtureChunk[] = [];
+  for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+    chunks.push({ type, text: words.slice(i, i + WORDS_PER_CHUNK).join("") });
+  }
+  return chunks;
+}
+
+function turnChunks(turn: FixtureTurn): FixtureChunk[] {
+  if (turn.chunks) return turn.chunks;
+  return [
+    ...(turn.thinking ? splitIntoChunks("thinking", turn.thinking) : []),
+    ...(turn.text ? splitIntoChunks("text", turn.text) : []),
+  ];
+}
+
+// Resolves early when the signal fires so a stop takes effect immediately
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (ms <= 0 || signal.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+export const fixtureProvider: LLMProvider = {
+  name: "fixture",
+  capabilities: { tools: true, thinking: true, assistantPrefill: true },
+
+  async stream(model: Model, request: LLMRequest, handlers: LLMStreamHandlers, signal: AbortSignal): Promise<LLMStreamResult> {
+    const { prompt, round } = locatePrompt(request.messages);
+    const found = await findFixture(prompt);
+    if (!found) {
+      return {
+        content: [],
+        toolUses: [],
+        stopReason: null,
+        usage: null,
+        stopped: false,
+        error: new Error(`No fixture matches this request; add one to ${FIXTURE_DIR} or use [fixture:NAME]`),
+      };
+    }
+    const turn: FixtureTurn = found.fixture.turns[round] ?? {
+      text: `[Fixture "${found.name}" has no turn ${round + 1}]`,
+    };
+
+    let text = "";
+    let thinking = "";
+    let truncated = false;
+    const chunks = turnChunks(turn);
+    for (let index = 0; index < chunks.length; index++) {
+      const chunk = chunks[index];
+      await wait(chunk.delayMs ?? (index === 0 ? FIRST_CHUNK_DELAY_MS : CHUNK_DELAY_MS), signal);
+      if (signal.aborted) break;
+      // Thinking is only streamed when the request asked for it, as with the real API
+      if (chunk.type === "thinking" && !request.thinking) continue;
+      // Honour the request's max_tokens so truncation can be exercised with any fixture
+      if (estimateTokens(text + thinking + chunk.text) > request.maxTokens) {
+        const remaining = Math.max(0, request.maxTokens * 4 - (text.length + thinking.length));
+        const partial = chunk.text.slice(0, remaining);
+        if (partial) {
+          if (chunk.type === "text") {
+            text += partial;
+            handlers.onText?.(partial);
+          } else {
+            thinking += partial;
+            handlers.onThinking?.(partial);
+          }
+        }
+        truncated = true;
+        break;
+      }
+      if (chunk.type === "text") {
+        text += chunk.text;
+        handlers.onText?.(chunk.text);
+      } else {
+        thinking += chunk.text;
+        handlers.onThinking?.(chunk.text);
+      }
+    }
+
+    const stopped = signal.aborted;
+    const error = !stopped && turn.error ? new Error(turn.error) : null;
+    // Recorded counts only hold for a full replay; partial output is re-estimated
+    const complete = !stopped && !truncated;
+    const usage: LLMUsage | null = error && !turn.usage ? null : {
+      inputTokens: turn.usage?.inputTokens ?? estimateMessagesTokens(request.messages) + estimateTokens(JSON.stringify(request.system)),
+      outputTokens: complete && turn.usage?.outputTokens !== undefined
+        ? turn.usage.outputTokens
+        : estimateTokens(text) + estimateTokens(thinking),
+      cacheWriteTokens: turn.usage?.cacheWriteTokens ?? 0,
+      cacheReadTokens: turn.usage?.cacheReadTokens ?? 0,
+    };
+
+    const toolUses: Anthropic.ToolUseBlockParam[] = complete && !error
+      ? (turn.toolUses ?? []).map((toolUse) => ({ type: "tool_use", ...toolUse }))
+      : [];
+    // Thinking blocks are left out: without a signature they couldn't be sent back to a real model
+    const content: Anthropic.ContentBlockParam[] = [
+      ...(text ? [{ type: "text" as const, text }] : []),
+      ...toolUses,
+    ];
+
+    let stopReason: string | null = null;
+    if (truncated) {
+      stopReason = "max_tokens";
+    } else if (complete && !error) {
+      stopReason = turn.stopReason ?? (toolUses.length > 0 ? "tool_use" : "end_turn");
+    }
+
+    return { content, toolUses, stopReason, usage, stopped, error };
+  },
+
+  async verifyKey(): Promise<string | null> {
+    return null;
+  },
+};
+
+function fixtureName(prompt: string): string {
+  const slug = prompt.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 40);
+  return `recorded-${Date.now()}${slug ? `-${slug}` : ""}`;
+}
+
+// Prompt → fixture being recorded, so later tool rounds append to the same file
+const activeRecordings = new Map<string, string>();
+
+async function saveTurn(model: Model, prompt: string, round: number, turn: FixtureTurn): Promise<void> {
+  await fs.mkdir(FIXTURE_DIR, { recursive: true });
+  const existing = round > 0 ? activeRecordings.get(prompt) : undefined;
+  const fixture = existing ? await readFixture(existing) : null;
+  if (existing && fixture) {
+    fixture.turns[round] = turn;
+    await fs.writeFile(path.join(FIXTURE_DIR, `${existing}.json`), JSON.stringify(fixture, null, 2));
+    return;
+  }
+
+  const name = fixtureName(prompt);
+  const recorded: Fixture = {
+    description: `Recorded from ${model.id} on ${new Date().toISOString()}`,
+    prompt,
+    model: model.id,
+    turns: [],
+  };
+  recorded.turns[round] = turn;
+  activeRecordings.set(prompt, name);
+  await fs.writeFile(path.join(FIXTURE_DIR, `${name}.json`), JSON.stringify(recorded, null, 2));
+}
+
+/** Wraps a real provider so every stream is also written to FIXTURE_DIR with its chunk timing. */
+export function recordingProvider(inner: LLMProvider): LLMProvider {
+  return {
+    name: inner.name,
+    capabilities: inner.capabilities,
+
+    async stream(model: Model, request: LLMRequest, handlers: LLMStreamHandlers, signal: AbortSignal): Promise<LLMStreamResult> {
+      const chunks: FixtureChunk[] = [];
+      let last = Date.now();
+      const capture = (type: FixtureChunk["type"], text: string) => {
+        const now = Date.now();
+        chunks.push({ type, text, delayMs: now - last });
+        last = now;
+      };
+
+      const result = await inner.stream(model, request, {
+        onText: (text) => {
+          capture("text", text);
+          handlers.onText?.(text);
+        },
+        onThinking: (delta) => {
+          capture("thinking", delta);
+          handlers.onThinking?.(delta);
+        },
+      }, signal);
+
+      const { prompt, round } = locatePrompt(request.messages);
+      const turn: FixtureTurn = {
+        chunks,
+        ...(result.toolUses.length > 0
+          ? { toolUses: result.toolUses.map(({ id, name, input }) => ({ id, name, input })) }
+          : {}),
+        ...(result.stopReason ? { stopReason: result.stopReason } : {}),
+        ...(result.usage ? { usage: result.usage } : {}),
+        ...(result.error ? { error: result.error.message } : {}),
+      };
+      try {
+        await saveTurn(model, prompt, round, turn);
+      } catch (recordError) {
+        // Recording is best effort; the chat itself must not fail because of it
+        console.error("Failed to record fixture:", recordError);
+      }
+      return result;
+    },
+
+    verifyKey: (apiKey, model) => inner.verifyKey(apiKey, model),
+  };
+}
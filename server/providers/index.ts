@@ -0,0 +1,27 @@
+import type { Model, ModelProvider } from "@shared/schema";
+import { anthropicProvider } from "./anthropic";
+import { fixtureProvider, recordingProvider } from "./fixtures";
+import { openAIProvider } from "./openai";
+import type { LLMProvider } from "./types";
+
+export type { LLMProvider, LLMProviderCapabilities, LLMRequest, LLMStreamHandlers, LLMStreamResult, LLMUsage } from "./types";
+
+const providers: Record<ModelProvider, LLMProvider> = {
+  anthropic: anthropicProvider,
+  openai: openAIProvider,
+};
+
+// "replay" serves every model from fixtures; "record" calls the real provider and saves its streams
+const FIXTURE_MODE = process.env.LLM_FIXTURE_MODE;
+
+const recordingProviders: Record<ModelProvider, LLMProvider> = {
+  anthropic: recordingProvider(anthropicProvider),
+  openai: recordingProvider(openAIProvider),
+};
+
+// Each model row names its provider; unknown values (e.g. from an older row) fall back to Anthropic
+export function getProvider(model: Pick<Model, "provider">): LLMProvider {
+  if (FIXTURE_MODE === "replay") return fixtureProvider;
+  if (FIXTURE_MODE === "record") return recordingProviders[model.provider] ?? recordingProviders.anthropic;
+  return providers[model.provider] ?? anthropicProvider;
+}
@@ -0,0 +1,264 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { Model } from "@shared/schema";
+import type { LLMProvider, LLMRequest, LLMStreamHandlers, LLMStreamResult, LLMUsage } from "./types";
+
+// Used when a model has no baseUrl of its own
+const DEFAULT_BASE_URL = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+
+// OpenAI finish_reason → the Anthropic stop_reason the rest of the server understands
+const STOP_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  tool_calls: "tool_use",
+  function_call: "tool_use",
+  content_filter: "refusal",
+};
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string | OpenAIContentPart[] }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+function toolResultText(content: Anthropic.ToolResultBlockParam["content"]): string {
+  if (content === undefined) return "";
+  if (typeof content === "string") return content;
+  return content.map((block) => (block.type === "text" ? block.text : `[${block.type}]`)).join("\n");
+}
+
+// Tool results become their own "tool" messages; everything else stays in the user turn
+function translateUserMessage(content: Anthropic.MessageParam["content"]): OpenAIMessage[] {
+  if (typeof content === "string") return [{ role: "user", content }];
+
+  const result: OpenAIMessage[] = [];
+  const parts: OpenAIContentPart[] = [];
+  for (const block of content) {
+    switch (block.type) {
+      case "text":
+        parts.push({ type: "text", text: block.text });
+        break;
+      case "image":
+        parts.push({ type: "image_url", image_url: { url: `data:${block.source.media_type};base64,${block.source.data}` } });
+        break;
+      case "document":
+        if (block.source.type === "text") {
+          // Attached ledgers: plain text, so the label and content go in as a text part
+          parts.push({ type: "text", text: `[Document: ${block.title ?? "untitled"}]\n${block.source.data}` });
+        } else {
+          // Chat completions has no PDF input; the model registry normally keeps PDFs away from these models
+          parts.push({ type: "text", text: "[PDF attachment omitted: not supported by this model]" });
+        }
+        break;
+      case "tool_result":
+        result.push({ role: "tool", tool_call_id: block.tool_use_id, content: toolResultText(block.content) });
+        break;
+    }
+  }
+  if (parts.length > 0) {
+    result.push({ role: "user", content: parts.every((p) => p.type === "text") ? parts.map((p) => (p as { text: string }).text).join("\n\n") : parts });
+  }
+  return result;
+}
+
+function translateAssistantMessage(content: Anthropic.MessageParam["content"]): OpenAIMessage {
+  if (typeof content === "string") return { role: "assistant", content };
+
+  const text: string[] = [];
+  const toolCalls: OpenAIToolCall[] = [];
+  for (const block of content) {
+    if (block.type === "text") {
+      text.push(block.text);
+    } else if (block.type === "tool_use") {
+      toolCalls.push({ id: block.id, type: "function", function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) } });
+    }
+    // Thinking blocks are Anthropic-only and are not replayed
+  }
+  return {
+    role: "assistant",
+    content: text.length > 0 ? text.join("") : null,
+    ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+  };
+}
+
+function toRequestBody(model: Model, request: LLMRequest): Record<string, unknown> {
+  const messages: OpenAIMessage[] = [];
+  const system = request.system.map((block) => block.text).join("\n\n");
+  if (system) messages.push({ role: "system", content: system });
+  for (const message of request.messages) {
+    if (message.role === "user") {
+      messages.push(...translateUserMessage(message.content));
+    } else {
+      messages.push(translateAssistantMessage(message.content));
+    }
+  }
+
+  const body: Record<string, unknown> = {
+    model: model.id,
+    messages,
+    max_tokens: request.maxTokens,
+    stream: true,
+    stream_options: { include_usage: true },
+  };
+  if (request.stopSequences && request.stopSequences.length > 0) body.stop = request.stopSequences;
+  if (request.temperature !== undefined) body.temperature = request.temperature;
+  if (request.topP !== undefined) body.top_p = request.topP;
+  // top_k is not part of the OpenAI API but llama.cpp, Ollama and vLLM accept it
+  if (request.topK !== undefined) body.top_k = request.topK;
+  if (request.tools && request.tools.length > 0) {
+    body.tools = request.tools.map((tool) => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+    }));
+  }
+  return body;
+}
+
+function endpoint(model?: Pick<Model, "baseUrl">): string {
+  return (model?.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+}
+
+function parseToolInput(args: string): unknown {
+  if (!args) return {};
+  try {
+    return JSON.parse(args);
+  } catch {
+    // Local models sometimes emit malformed JSON; the tool registry reports the bad input back to the model
+    return { _raw: args };
+  }
+}
+
+export const openAIProvider: LLMProvider = {
+  name: "openai",
+  // Extended thinking is Anthropic-only; reasoning_content deltas are still streamed when a server sends them
+  capabilities: { tools: true, thinking: false, assistantPrefill: false },
+
+  async stream(model: Model, request: LLMRequest, handlers: LLMStreamHandlers, signal: AbortSignal): Promise<LLMStreamResult> {
+    let text = "";
+    let finishReason: string | null = null;
+    let usage: LLMUsage | null = null;
+    let error: Error | null = null;
+    // Tool call deltas arrive in fragments keyed by index
+    const toolCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+    try {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      const apiKey = request.apiKey ?? process.env.OPENAI_API_KEY;
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+      const response = await fetch(`${endpoint(model)}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(toRequestBody(model, request)),
+        signal,
+      });
+      if (!response.ok || !response.body) {
+        const body = await response.text().catch(() => "");
+        throw new Error(`${model.label} request failed (${response.status}): ${body.slice(0, 500)}`);
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+          const data = trimmed.slice(5).trim();
+          if (data === "[DONE]") continue;
+
+          const chunk = JSON.parse(data);
+          if (chunk.error) {
+            throw new Error(chunk.error.message ?? JSON.stringify(chunk.error));
+          }
+          if (chunk.usage) {
+            const cached = chunk.usage.prompt_tokens_details?.cached_tokens ?? 0;
+            usage = {
+              inputTokens: (chunk.usage.prompt_tokens ?? 0) - cached,
+              outputTokens: chunk.usage.completion_tokens ?? 0,
+              cacheWriteTokens: 0,
+              cacheReadTokens: cached,
+            };
+          }
+
+          const choice = chunk.choices?.[0];
+          if (!choice) continue;
+          const delta = choice.delta ?? {};
+          if (delta.reasoning_content) {
+            handlers.onThinking?.(delta.reasoning_content);
+          }
+          if (delta.content) {
+            text += delta.content;
+            handlers.onText?.(delta.content);
+          }
+          for (const call of delta.tool_calls ?? []) {
+            const index = call.index ?? toolCalls.length;
+            toolCalls[index] ??= { id: "", name: "", arguments: "" };
+            if (call.id) toolCalls[index].id = call.id;
+            if (call.function?.name) toolCalls[index].name += call.function.name;
+            if (call.function?.arguments) toolCalls[index].arguments += call.function.arguments;
+          }
+          if (choice.finish_reason) {
+            finishReason = choice.finish_reason;
+          }
+        }
+      }
+    } catch (streamError) {
+      if (!signal.aborted) {
+        error = streamError instanceof Error ? streamError : new Error(String(streamError));
+      }
+    }
+
+    const stopped = !error && signal.aborted;
+    const toolUses: Anthropic.ToolUseBlockParam[] = stopped || error ? [] : toolCalls
+      .filter((call) => call && call.name)
+      .map((call, i) => ({
+        type: "tool_use",
+        id: call.id || `call_${i}`,
+        name: call.name,
+        input: parseToolInput(call.arguments),
+      }));
+    const content: Anthropic.ContentBlockParam[] = [
+      ...(text ? [{ type: "text" as const, text }] : []),
+      ...toolUses,
+    ];
+
+    return {
+      content,
+      toolUses,
+      stopReason: stopped || error ? null : finishReason ? STOP_REASONS[finishReason] ?? finishReason : "end_turn",
+      usage,
+      stopped,
+      error,
+    };
+  },
+
+  // Checked against the given model's endpoint, since a key usually belongs to one server
+  async verifyKey(apiKey: string, model?: Model): Promise<string | null> {
+    try {
+      const response = await fetch(`${endpoint(model)}/models`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+      });
+      if (response.ok) return null;
+      const body = await response.text().catch(() => "");
+      return `Request failed (${response.status}): ${body.slice(0, 200)}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  },
+};
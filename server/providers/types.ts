@@ -0,0 +1,68 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import type { Model } from "@shared/schema";
+
+/**
+ * Requests and results use Anthropic's message shapes as the common format: the rest of the
+ * server (history building, prompt caching, compaction, the tool loop) works on them directly,
+ * and each provider translates to its own wire format. Fields a provider can't express, such as
+ * cache_control breakpoints on an OpenAI-compatible endpoint, are dropped during translation.
+ */
+export interface LLMRequest {
+  system: Anthropic.TextBlockParam[];
+  messages: Anthropic.MessageParam[];
+  maxTokens: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  stopSequences?: string[];
+  thinking?: { budgetTokens: number };
+  tools?: Anthropic.Tool[];
+  // A decrypted bring-your-own key; the provider's environment key is used when unset
+  apiKey?: string;
+}
+
+// inputTokens excludes cached tokens, matching Anthropic's usage report
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+}
+
+export interface LLMStreamHandlers {
+  onText?: (text: string) => void;
+  onThinking?: (delta: string) => void;
+}
+
+export interface LLMStreamResult {
+  // The assistant turn, replayable to the same provider on the next tool round
+  content: Anthropic.ContentBlockParam[];
+  toolUses: Anthropic.ToolUseBlockParam[];
+  // Anthropic's vocabulary ("end_turn", "max_tokens", "tool_use", ...); null when stopped or failed
+  stopReason: string | null;
+  // Partial usage when stopped, if the provider reported any before the abort
+  usage: LLMUsage | null;
+  stopped: boolean;
+  // Set when the request failed for any reason other than the abort signal
+  error: Error | null;
+}
+
+export interface LLMProviderCapabilities {
+  tools: boolean;
+  thinking: boolean;
+  // Whether a trailing assistant message is continued in place rather than treated as a finished turn
+  assistantPrefill: boolean;
+}
+
+export interface LLMProvider {
+  // The model provider it serves, or "fixture" for offline replay
+  readonly name: string;
+  readonly capabilities: LLMProviderCapabilities;
+  /**
+   * Streams one model turn. Never rejects for stream failures or aborts; both are reported on
+   * the result so callers can still persist partial output and record usage.
+   */
+  stream(model: Model, request: LLMRequest, handlers: LLMStreamHandlers, signal: AbortSignal): Promise<LLMStreamResult>;
+  // Cheap authenticated call; resolves to an error message, or null when the key works
+  verifyKey(apiKey: string, model?: Model): Promise<string | null>;
+}
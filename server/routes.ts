@@ -1,50 +1,318 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { anthropic } from "./anthropic";
-import { chatRequestSchema, insertConversationSchema, insertMessageSchema, insertProjectSchema, insertSettingsSchema, insertLedgerSchema, LEDGER_TYPES, type FileAttachment, calculateCost } from "@shared/schema";
-import { storage } from "./storage";
+import { chatRequestSchema, compareRequestSchema, insertConversationSchema, insertMessageSchema, insertProjectSchema, insertSettingsSchema, insertLedgerSchema, LEDGER_TYPES, type FileAttachment, calculateCost, calculateCacheSavings, DEFAULT_MAX_TOKENS, CONTINUABLE_STOP_REASONS, continueRequestSchema, insertModelSchema, updateModelSchema, insertApiKeySchema, updateApiKeySchema, type Model, mergeGenerationParams, type GenerationParams, DEFAULT_THINKING_BUDGET, type ToolCallRecord, type LedgerAttachment, type LedgerScope, type MessageLedgerRef, codeLedgerSpecSchema, promoteAppSchema, updateLedgerSchema, ledgerListQuerySchema, APP_KV_KEY_MAX_LENGTH, APP_KV_VALUE_MAX_BYTES } from "@shared/schema";
+import { buildCodeSpec } from "@shared/ledgerParser";
+import { storage, type LedgerListFilter } from "./storage";
 import { z } from "zod";
 import multer from "multer";
 import path from "path";
 import fs from "fs/promises";
 import type Anthropic from "@anthropic-ai/sdk";
+import { chatJobs } from "./chatJobs";
+import { toolRegistry, type ToolContext } from "./tools";
+import { estimateTokens, compactHistory } from "./contextBudget";
+import { EPHEMERAL_CACHE, MIN_CACHEABLE_TOKENS, cacheSystemPrompt, applyHistoryCacheBreakpoint } from "./promptCache";
+import { getProvider, type LLMProvider, type LLMRequest } from "./providers";
+import { LedgerCollector } from "./ledgerCollector";
+import { isKeyVaultConfigured, encryptApiKey, decryptApiKey, keyHint, resolveApiKey } from "./keyVault";
+import { buildAppKvClientScript } from "./appKvClient";
+import { isImageFile, isPdfFile, isTextFile } from "./fileTypes";
+import { ingestProjectFile, migrateDiskProjectFiles } from "./projectFiles";
+import { buildProjectContext, withProjectContext } from "./projectContext";
 
-const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
-const PDF_MIME_TYPE = "application/pdf";
+// Returns why the model can't take these attachments, or null if it can
+function checkAttachmentSupport(model: Model, files?: FileAttachment[]): string | null {
+  if (!files) return null;
+  if (!model.supportsVision && files.some(f => isImageFile(f.mimeType))) {
+    return `${model.label} does not support image attachments`;
+  }
+  if (!model.supportsPdf && files.some(f => isPdfFile(f.mimeType))) {
+    return `${model.label} does not support PDF attachments`;
+  }
+  return null;
+}
+
+// Uploads stay in memory only long enough to be hashed, extracted and written to the database
+const upload = multer({ 
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024 }
+});
+
+// How much extracted text the project file preview returns
+const FILE_PREVIEW_CHARS = 20_000;
 
-function isImageFile(mimeType: string): boolean {
-  return IMAGE_MIME_TYPES.includes(mimeType);
+// Headroom for estimator error when fitting history into the context window
+const CONTEXT_SAFETY_MARGIN = 8000;
+
+// Upper bound on tool round-trips per reply so a model stuck calling tools cannot loop forever
+const MAX_TOOL_ITERATIONS = 8;
+
+// Appended after any user-defined system prompt so Claude wraps artifacts in parseable XML blocks
+const LEDGER_INSTRUCTION = `You MUST wrap any code artifact, plan, report, note, draft, diagram, table, HTML page or chart you produce inside a ledger XML block using this exact format:
+<ledger type="TYPE" title="TITLE">
+CONTENT GOES HERE
+</ledger>
+TYPE must be one of: code, report, plan, note, draft, diagram, table, html, chart. TITLE should be a short descriptive name. Do NOT use markdown code fences or document headers outside the ledger block — the ledger block IS the artifact. Keep conversational text brief and outside the block.
+To change a ledger that already exists, revise it instead of starting a new one: write <ledger id="ID">FULL UPDATED CONTENT</ledger> with its ID. The content replaces the previous version entirely, so never send only the changed part.
+Code ledgers run in a sandbox. A plain code ledger is a single React component saved as /App.js. For anything else add template="static|vanilla|vanilla-ts|react|react-ts|vue|node" (static serves /index.html, vanilla runs /index.js, vanilla-ts /index.ts, react-ts /App.tsx, vue /src/App.vue, node /index.js), dependencies="name@version other-package" for npm packages, and either path="/file" for a single file or one <file path="/path">SOURCE</file> element per file inside the block. entry="/path" picks the file shown first. Repeat these when revising a code ledger, since each version stands on its own.
+The other types are rendered from their raw content, so write only the artifact itself: diagram is Mermaid source (e.g. flowchart TD, sequenceDiagram, erDiagram); table is CSV or TSV with a header row; html is one complete HTML document, shown in a sandboxed frame where scripts run but cannot reach the page; chart is JSON of the form {"kind":"bar|line|area|pie","title":"...","data":[{"month":"Jan","sales":120}],"xKey":"month","series":[{"key":"sales","label":"Sales"}],"stacked":false}, where pie charts take slice names from xKey and values from the first series.
+Browser code ledgers can be promoted to standalone apps. When an app should keep data between visits, use window.appKv if it exists: get(key), set(key, jsonValue), delete(key) and list() all return promises; fall back to in-memory state when it is missing.`;
+
+// "My Todo App!" → "my-todo-app"; storage adds a suffix when the slug is taken
+function slugify(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 60).replace(/-+$/, "");
+  return slug || "app";
 }
 
-function isPdfFile(mimeType: string): boolean {
-  return mimeType === PDF_MIME_TYPE;
+/**
+ * The system text for a reply: the project's instructions, the conversation's own prompt, the
+ * ledger instruction and the ledgers in scope, which are exactly the ones Claude can revise by id.
+ */
+async function buildSystemText(
+  systemPrompt: string | null | undefined,
+  scope: LedgerScope,
+  projectInstructions?: string | null,
+): Promise<string> {
+  let instruction = LEDGER_INSTRUCTION;
+  const scopedLedgers = await storage.getScopedLedgers(scope);
+  if (scopedLedgers.length > 0) {
+    const lines = scopedLedgers.map((ledger) =>
+      `- id="${ledger.id}" type="${ledger.type}" title="${ledger.title}" (latest version ${ledger.latestVersion})`);
+    // Earlier replies only keep a reference to each ledger, so the current content has to be fetched
+    instruction += `\n\nLedgers in scope (use read_ledger for their current content when tools are available):\n${lines.join("\n")}`;
+  }
+  return [projectInstructions, systemPrompt, instruction].filter(Boolean).join("\n\n");
 }
 
-function isTextFile(mimeType: string): boolean {
-  const textMimeTypes = [
-    "text/plain",
-    "text/html",
-    "text/css",
-    "text/javascript",
-    "text/markdown",
-    "text/csv",
-    "text/xml",
-    "application/json",
-    "application/xml",
-    "application/javascript",
-    "application/typescript",
-    "application/x-yaml",
-    "application/x-sh",
-  ];
-  return textMimeTypes.includes(mimeType) || mimeType.startsWith("text/");
+// Search and filters shared by the ledger list routes; null when the query string is invalid
+function parseLedgerListQuery(query: unknown): Omit<LedgerListFilter, "conversationId" | "projectId"> | null {
+  const parsed = ledgerListQuerySchema.safeParse(query);
+  if (!parsed.success) return null;
+  const { q, types, since, archived } = parsed.data;
+  return { query: q || undefined, types, updatedSince: since, archived };
 }
 
-const upload = multer({ 
-  dest: "uploads/",
-  limits: { fileSize: 10 * 1024 * 1024 }
-});
+/**
+ * Copies generation params onto a provider request and returns the subset actually sent,
+ * which is recorded on the reply so it can be regenerated the same way.
+ */
+function applyGenerationParams(request: LLMRequest, params: GenerationParams, thinkingBudget: number | null, model: Model): GenerationParams {
+  const maxTokens = Math.min(params.maxTokens ?? DEFAULT_MAX_TOKENS, model.maxOutputTokens);
+  const appliedParams: GenerationParams = { maxTokens };
+  request.maxTokens = maxTokens;
+
+  if (params.stopSequences && params.stopSequences.length > 0) {
+    request.stopSequences = params.stopSequences;
+    appliedParams.stopSequences = params.stopSequences;
+  }
+
+  if (thinkingBudget !== null) {
+    // Extended thinking: max_tokens covers thinking plus the visible reply, so raise it by the budget
+    request.maxTokens = Math.min(thinkingBudget + maxTokens, model.maxOutputTokens);
+    request.thinking = { budgetTokens: thinkingBudget };
+    // Thinking rejects temperature/top_k changes and only accepts top_p >= 0.95
+    if (params.topP !== undefined && params.topP >= 0.95) {
+      request.topP = params.topP;
+      appliedParams.topP = params.topP;
+    }
+    return appliedParams;
+  }
+
+  if (params.temperature !== undefined) {
+    request.temperature = params.temperature;
+    appliedParams.temperature = params.temperature;
+  }
+  if (params.topP !== undefined) {
+    request.topP = params.topP;
+    appliedParams.topP = params.topP;
+  }
+  if (params.topK !== undefined) {
+    request.topK = params.topK;
+    appliedParams.topK = params.topK;
+  }
+  return appliedParams;
+}
+
+interface ChatUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+}
+
+async function recordChatUsage(
+  model: string,
+  conversationId: number,
+  apiKeyId: number | null,
+  totals: ChatUsageTotals,
+  stopped: boolean,
+): Promise<number | null> {
+  try {
+    const costUsd = calculateCost(
+      await storage.getModel(model),
+      totals.inputTokens,
+      totals.outputTokens,
+      totals.thinkingTokens,
+      totals.cacheWriteTokens,
+      totals.cacheReadTokens,
+    );
+
+    console.log("Recording API usage:", { model, ...totals, costUsd, apiKeyId, stopped });
+
+    await storage.recordApiUsage({ model, ...totals, costUsd, conversationId, apiKeyId });
+    return costUsd;
+  } catch (usageError) {
+    console.error("Failed to record API usage:", usageError);
+    // Don't fail the request if usage recording fails
+    return null;
+  }
+}
+
+interface GeneratedReply {
+  content: string;
+  thinking: string;
+  toolCalls: ToolCallRecord[];
+  stopReason: string | null;
+  stopped: boolean;
+  failed: boolean;
+  // Null when the provider reported no usage
+  costUsd: number | null;
+}
+
+interface GenerateReplyOptions {
+  provider: LLMProvider;
+  model: Model;
+  // Everything but the messages, which are passed separately and grow with each tool round
+  request: LLMRequest;
+  messages: Anthropic.MessageParam[];
+  toolContext: ToolContext;
+  apiKeyId: number | null;
+  emit: (payload: Record<string, unknown>) => void;
+  // Sees the reply text as it streams, including the separators between tool rounds
+  onText?: (text: string) => void;
+  signal: AbortSignal;
+}
+
+/**
+ * Streams one assistant reply, running tool round-trips until the model stops asking for tools.
+ * Text, thinking and tool activity go out through `emit`; usage is recorded summed across rounds.
+ */
+async function generateReply({ provider, model, request, messages, toolContext, apiKeyId, emit, onText, signal }: GenerateReplyOptions): Promise<GeneratedReply> {
+  let fullContent = "";
+  let fullThinking = "";
+  const toolCalls: ToolCallRecord[] = [];
+  // Grows with each tool round-trip: assistant tool_use turn, then the user turn with tool_result blocks
+  const turnMessages: Anthropic.MessageParam[] = [...messages];
+  let cachedToolResult: Anthropic.ToolResultBlockParam | null = null;
+  let inputTokens = 0;
+  let cacheWriteTokens = 0;
+  let cacheReadTokens = 0;
+  let totalOutputTokens = 0;
+  let hasUsage = false;
+  let wasStopped = false;
+  let failed = false;
+  let stopReason: string | null = null;
+
+  for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+    let iterationContent = "";
+    let iterationThinking = "";
+
+    const result = await provider.stream(model, { ...request, messages: turnMessages }, {
+      onText: (text) => {
+        // Keep text from separate tool rounds in separate paragraphs
+        if (!iterationContent && fullContent && !fullContent.endsWith("\n")) {
+          text = `\n\n${text}`;
+        }
+        iterationContent += text;
+        fullContent += text;
+        emit({ content: text });
+        onText?.(text);
+      },
+      // Thinking deltas are streamed separately so the client can render them as reasoning
+      onThinking: (thinkingDelta) => {
+        iterationThinking += thinkingDelta;
+        fullThinking += thinkingDelta;
+        emit({ thinking: thinkingDelta });
+      },
+    }, signal);
+
+    // A stopped or failed stream still persists what was generated so far
+    if (result.error) {
+      console.error("Stream error:", result.error);
+      emit({ error: result.error.message });
+    }
+    failed = result.error !== null;
+    wasStopped = result.stopped;
+    stopReason = failed ? "error" : wasStopped ? "stopped" : result.stopReason;
+
+    if (result.usage) {
+      hasUsage = true;
+      inputTokens += result.usage.inputTokens;
+      cacheWriteTokens += result.usage.cacheWriteTokens;
+      cacheReadTokens += result.usage.cacheReadTokens;
+      // A stopped stream never receives its final usage update, so its output count is stale
+      totalOutputTokens += wasStopped
+        ? Math.max(result.usage.outputTokens, estimateTokens(iterationContent) + estimateTokens(iterationThinking))
+        : result.usage.outputTokens;
+    } else {
+      // Log if usage data is missing for debugging
+      console.warn("API usage data missing from response:", { model: model.id, provider: provider.name, stopReason });
+    }
+
+    if (result.stopReason !== "tool_use" || result.toolUses.length === 0) break;
+
+    // Run every tool the model asked for, then hand the results back for the next round
+    const toolResults: Anthropic.ToolResultBlockParam[] = [];
+    for (const block of result.toolUses) {
+      emit({ toolCall: { id: block.id, name: block.name, input: block.input } });
+      const result = await toolRegistry.execute(block.name, block.input, toolContext);
+      emit({ toolResult: { id: block.id, content: result.content, isError: result.isError } });
+      toolCalls.push({ id: block.id, name: block.name, input: block.input, result: result.content, isError: result.isError });
+      toolResults.push({ type: "tool_result", tool_use_id: block.id, content: result.content, is_error: result.isError });
+    }
+    // Move the tool-round breakpoint forward so the next round reads everything so far from cache
+    if (cachedToolResult) delete cachedToolResult.cache_control;
+    cachedToolResult = toolResults[toolResults.length - 1] ?? null;
+    if (cachedToolResult) cachedToolResult.cache_control = EPHEMERAL_CACHE;
+    turnMessages.push(
+      { role: "assistant", content: result.content },
+      { role: "user", content: toolResults },
+    );
+  }
+
+  // Record API usage summed across every tool round
+  let costUsd: number | null = null;
+  if (hasUsage) {
+    // Anthropic folds thinking into output_tokens; split it out so it is priced and reported separately
+    const thinkingTokens = Math.min(estimateTokens(fullThinking), totalOutputTokens);
+    costUsd = await recordChatUsage(model.id, toolContext.conversationId, apiKeyId, {
+      inputTokens,
+      outputTokens: totalOutputTokens - thinkingTokens,
+      thinkingTokens,
+      cacheWriteTokens,
+      cacheReadTokens,
+    }, wasStopped);
+  }
+
+  return { content: fullContent, thinking: fullThinking, toolCalls, stopReason, stopped: wasStopped, failed, costUsd };
+}
+
+// Returns why a project or conversation can't pay with this key, or null if it can
+async function checkApiKeyChoice(apiKeyId: number | null | undefined): Promise<string | null> {
+  if (!apiKeyId) return null;
+  const key = await storage.getApiKey(apiKeyId);
+  if (!key) return "Unknown API key";
+  if (key.revokedAt) return "API key has been revoked";
+  return null;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Awaited so the model registry is filled before the first request reads it
+  await storage.seedDefaultModels().catch((error) => console.error("Error seeding default models:", error));
+  storage.backfillLedgerScopes().catch((error) => console.error("Error backfilling ledger scopes:", error));
+  migrateDiskProjectFiles().catch((error) => console.error("Error migrating project files from disk:", error));
+
   // Projects
   app.get("/api/projects", async (_req, res) => {
     try {
@@ -73,6 +341,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/projects", async (req, res) => {
     try {
       const validatedData = insertProjectSchema.parse(req.body);
+      const keyError = await checkApiKeyChoice(validatedData.apiKeyId);
+      if (keyError) {
+        return res.status(400).json({ error: keyError });
+      }
       const project = await storage.createProject(validatedData);
       res.json(project);
     } catch (error) {
@@ -88,6 +360,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const updates = insertProjectSchema.partial().parse(req.body);
+      const keyError = await checkApiKeyChoice(updates.apiKeyId);
+      if (keyError) {
+        return res.status(400).json({ error: keyError });
+      }
       const project = await storage.updateProject(id, updates);
       if (!project) {
         return res.status(404).json({ error: "Project not found" });
@@ -143,6 +419,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/conversations", async (req, res) => {
     try {
       const validatedData = insertConversationSchema.parse(req.body);
+      const keyError = await checkApiKeyChoice(validatedData.apiKeyId);
+      if (keyError) {
+        return res.status(400).json({ error: keyError });
+      }
       const conversation = await storage.createConversation(validatedData);
       res.json(conversation);
     } catch (error) {
@@ -159,6 +439,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const id = parseInt(req.params.id);
       const updates = insertConversationSchema.partial().parse(req.body);
+      const keyError = await checkApiKeyChoice(updates.apiKeyId);
+      if (keyError) {
+        return res.status(400).json({ error: keyError });
+      }
       const conversation = await storage.updateConversation(id, updates);
       if (!conversation) {
         return res.status(404).json({ error: "Conversation not found" });
@@ -185,6 +469,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // In-flight reply for a conversation, so a reloaded page can reattach to it
+  app.get("/api/conversations/:id/active-job", (req, res) => {
+    const conversationId = parseInt(req.params.id);
+    const job = chatJobs.findActive(conversationId);
+    res.json(job ? { jobId: job.id, userMessageId: job.userMessageId, threadRootId: job.threadRootId } : null);
+  });
+
   // Get messages for a conversation
   app.get("/api/conversations/:id/messages", async (req, res) => {
     try {
@@ -255,7 +546,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/projects/:id/files", async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
-      const files = await storage.getProjectFiles(projectId);
+      const files = await storage.getProjectFileSummaries(projectId);
       res.json(files);
     } catch (error) {
       console.error("Error fetching project files:", error);
@@ -263,6 +554,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/projects/:id/ledgers", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      if (isNaN(projectId)) return res.status(400).json({ error: "Invalid id" });
+      const filter = parseLedgerListQuery(req.query);
+      if (!filter) return res.status(400).json({ error: "Invalid filter" });
+      res.json(await storage.getLedgers({ ...filter, projectId }));
+    } catch (error) {
+      console.error("Error fetching project ledgers:", error);
+      res.status(500).json({ error: "Failed to fetch project ledgers" });
+    }
+  });
+
   app.post("/api/projects/:id/files", upload.single("file"), async (req, res) => {
     try {
       const projectId = parseInt(req.params.id);
@@ -271,31 +575,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No file uploaded" });
       }
 
-      const fileRecord = await storage.createProjectFile({
-        projectId,
-        filename: req.file.filename,
-        originalName: req.file.originalname,
-        mimeType: req.file.mimetype,
-        size: req.file.size,
-      });
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
 
-      res.json(fileRecord);
+      const { file, duplicate } = await ingestProjectFile(projectId, req.file.originalname, req.file.mimetype, req.file.buffer);
+      const { extractedText, ...summary } = file;
+      res.json({ ...summary, extractedChars: extractedText?.length ?? null, duplicate });
     } catch (error) {
       console.error("Error uploading file:", error);
       res.status(500).json({ error: "Failed to upload file" });
     }
   });
 
-  app.get("/api/files/:filename", async (req, res) => {
+  app.get("/api/files/:id", async (req, res) => {
     try {
-      const filename = req.params.filename;
-      const filePath = path.join(process.cwd(), "uploads", filename);
-      
-      await fs.access(filePath);
-      res.sendFile(filePath);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const file = await storage.getProjectFile(id);
+      const blob = file?.contentHash ? await storage.getFileBlob(file.contentHash) : undefined;
+      if (!file || !blob) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      // Uploaded HTML or SVG must not run as a page on this origin, so only images and PDFs open inline
+      const disposition = isImageFile(file.mimeType) || isPdfFile(file.mimeType) ? "inline" : "attachment";
+      res.setHeader("Content-Type", file.mimeType);
+      res.setHeader("Content-Disposition", `${disposition}; filename*=UTF-8''${encodeURIComponent(file.originalName)}`);
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+      res.send(Buffer.from(blob.data, "base64"));
     } catch (error) {
       console.error("Error serving file:", error);
-      res.status(404).json({ error: "File not found" });
+      res.status(500).json({ error: "Failed to serve file" });
+    }
+  });
+
+  // The start of what Claude receives for a document file
+  app.get("/api/files/:id/text", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const file = await storage.getProjectFile(id);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      const text = file.extractedText ?? "";
+      res.json({
+        text: text.slice(0, FILE_PREVIEW_CHARS),
+        totalChars: file.extractedText === null ? null : text.length,
+        error: file.extractionError,
+      });
+    } catch (error) {
+      console.error("Error fetching file text:", error);
+      res.status(500).json({ error: "Failed to fetch file text" });
     }
   });
 
@@ -305,7 +640,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const file = await storage.getProjectFile(id);
       
-      if (file) {
+      // Only uploads not yet moved into the database still have a copy on disk
+      if (file && !file.contentHash) {
         const filePath = path.join(process.cwd(), "uploads", file.filename);
         try {
           await fs.unlink(filePath);
@@ -336,6 +672,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/conversations/:id/ledgers", async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.id);
+      if (isNaN(conversationId)) return res.status(400).json({ error: "Invalid id" });
+      const filter = parseLedgerListQuery(req.query);
+      if (!filter) return res.status(400).json({ error: "Invalid filter" });
+      res.json(await storage.getLedgers({ ...filter, conversationId }));
+    } catch (error) {
+      console.error("Error fetching conversation ledgers:", error);
+      res.status(500).json({ error: "Failed to fetch conversation ledgers" });
+    }
+  });
+
   // Settings
   app.get("/api/settings", async (_req, res) => {
     try {
@@ -350,6 +699,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/settings", async (req, res) => {
     try {
       const validatedData = insertSettingsSchema.parse(req.body);
+      if (validatedData.defaultModel) {
+        const model = await storage.getModel(validatedData.defaultModel);
+        if (!model || !model.enabled) {
+          return res.status(400).json({ error: "Unknown or disabled model" });
+        }
+      }
       const settings = await storage.updateSettings(validatedData);
       res.json(settings);
     } catch (error) {
@@ -361,6 +716,181 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Models
+  app.get("/api/models", async (_req, res) => {
+    try {
+      const models = await storage.getModels();
+      res.json(models);
+    } catch (error) {
+      console.error("Error fetching models:", error);
+      res.status(500).json({ error: "Failed to fetch models" });
+    }
+  });
+
+  app.post("/api/models", async (req, res) => {
+    try {
+      const validatedData = insertModelSchema.parse(req.body);
+      if (await storage.getModel(validatedData.id)) {
+        return res.status(409).json({ error: "A model with this id already exists" });
+      }
+      const model = await storage.createModel(validatedData);
+      res.json(model);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error creating model:", error);
+      res.status(500).json({ error: "Failed to create model" });
+    }
+  });
+
+  app.patch("/api/models/:id", async (req, res) => {
+    try {
+      const id = req.params.id;
+      const updates = updateModelSchema.parse(req.body);
+      if (updates.enabled === false) {
+        const appSettings = await storage.getSettings();
+        if (appSettings.defaultModel === id) {
+          return res.status(400).json({ error: "Cannot disable the default model" });
+        }
+      }
+      const model = await storage.updateModel(id, updates);
+      if (!model) {
+        return res.status(404).json({ error: "Model not found" });
+      }
+      res.json(model);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error updating model:", error);
+      res.status(500).json({ error: "Failed to update model" });
+    }
+  });
+
+  // Messages and usage store the model id as plain text, so history keeps showing it after deletion
+  app.delete("/api/models/:id", async (req, res) => {
+    try {
+      const id = req.params.id;
+      const appSettings = await storage.getSettings();
+      if (appSettings.defaultModel === id) {
+        return res.status(400).json({ error: "Cannot delete the default model" });
+      }
+      await storage.deleteModel(id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting model:", error);
+      res.status(500).json({ error: "Failed to delete model" });
+    }
+  });
+
+  // API keys. Secrets are encrypted on the way in and never returned; revoking keeps the row for usage history.
+  app.get("/api/api-keys", async (_req, res) => {
+    try {
+      const keys = await storage.getApiKeys();
+      res.json(keys);
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ error: "Failed to fetch API keys" });
+    }
+  });
+
+  app.post("/api/api-keys", async (req, res) => {
+    try {
+      const { label, provider, key } = insertApiKeySchema.parse(req.body);
+      if (!isKeyVaultConfigured()) {
+        return res.status(503).json({ error: "Set API_KEY_MASTER_SECRET on the server to store API keys" });
+      }
+      const apiKey = await storage.createApiKey({
+        label,
+        provider,
+        encryptedKey: encryptApiKey(key),
+        keyHint: keyHint(key),
+      });
+      res.json(apiKey);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error creating API key:", error);
+      res.status(500).json({ error: "Failed to create API key" });
+    }
+  });
+
+  // Rename and/or rotate. A new secret clears the previous test result.
+  app.patch("/api/api-keys/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { label, key } = updateApiKeySchema.parse(req.body);
+      const existing = await storage.getApiKey(id);
+      if (!existing) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      if (existing.revokedAt) {
+        return res.status(400).json({ error: "Revoked keys cannot be changed" });
+      }
+      if (key && !isKeyVaultConfigured()) {
+        return res.status(503).json({ error: "Set API_KEY_MASTER_SECRET on the server to store API keys" });
+      }
+      const apiKey = await storage.updateApiKey(id, {
+        ...(label ? { label } : {}),
+        ...(key ? { encryptedKey: encryptApiKey(key), keyHint: keyHint(key), lastTestedAt: null, lastTestError: null } : {}),
+      });
+      res.json(apiKey);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error updating API key:", error);
+      res.status(500).json({ error: "Failed to update API key" });
+    }
+  });
+
+  // Makes a cheap authenticated call with the key and stores the outcome on the key
+  app.post("/api/api-keys/:id/test", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const stored = await storage.getStoredApiKey(id);
+      if (!stored) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      if (stored.revokedAt) {
+        return res.status(400).json({ error: "API key has been revoked" });
+      }
+
+      let testError: string | null;
+      try {
+        const key = decryptApiKey(stored.encryptedKey);
+        // OpenAI-compatible keys are checked against the endpoint of a model that would use them
+        const allModels = await storage.getModels();
+        const model = allModels.find(m => m.enabled && m.provider === stored.provider);
+        testError = await getProvider(stored).verifyKey(key, model);
+      } catch (decryptError) {
+        testError = "Key could not be decrypted; check API_KEY_MASTER_SECRET or re-enter the key";
+      }
+
+      const apiKey = await storage.updateApiKey(id, { lastTestedAt: new Date(), lastTestError: testError });
+      res.json(apiKey);
+    } catch (error) {
+      console.error("Error testing API key:", error);
+      res.status(500).json({ error: "Failed to test API key" });
+    }
+  });
+
+  app.post("/api/api-keys/:id/revoke", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const apiKey = await storage.revokeApiKey(id);
+      if (!apiKey) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      res.json(apiKey);
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ error: "Failed to revoke API key" });
+    }
+  });
+
   // API Usage endpoints
   app.get("/api/usage/summary", async (_req, res) => {
     try {
@@ -474,6 +1004,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // apiKeyId is null for calls paid by the environment key
+  app.get("/api/usage/by-key", async (_req, res) => {
+    try {
+      const now = new Date();
+      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+      const usageByKey = await storage.getUsageByApiKey(startOfMonth);
+      res.json(usageByKey);
+    } catch (error) {
+      console.error("Error fetching usage by key:", error);
+      res.status(500).json({ error: "Failed to fetch usage by key" });
+    }
+  });
+
+  app.get("/api/usage/cache", async (_req, res) => {
+    try {
+      const now = new Date();
+      const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+      const [cacheUsage, allModels] = await Promise.all([
+        storage.getCacheUsageByModel(startOfMonth),
+        storage.getModels(),
+      ]);
+
+      let cacheWriteTokens = 0;
+      let cacheReadTokens = 0;
+      let savings = 0;
+      for (const usage of cacheUsage) {
+        cacheWriteTokens += usage.cacheWriteTokens;
+        cacheReadTokens += usage.cacheReadTokens;
+        const pricing = allModels.find(m => m.id === usage.model);
+        savings += calculateCacheSavings(pricing, usage.cacheWriteTokens, usage.cacheReadTokens);
+      }
+
+      res.json({ cacheWriteTokens, cacheReadTokens, savings });
+    } catch (error) {
+      console.error("Error fetching cache usage:", error);
+      res.status(500).json({ error: "Failed to fetch cache usage" });
+    }
+  });
+
   // Delete all conversations
   app.delete("/api/conversations", async (_req, res) => {
     try {
@@ -498,7 +1067,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         parentMessageId,
         threadContext,
         threadRootId,
-        files
+        files,
+        ledgers: ledgerAttachments,
+        thinking,
+        thinkingBudget,
+        generationParams: requestParams,
       } = validatedData;
 
       if (!conversationId) {
@@ -506,6 +1079,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return;
       }
 
+      const modelConfig = await storage.getModel(model);
+      if (!modelConfig || !modelConfig.enabled) {
+        return res.status(400).json({ error: "Unknown or disabled model" });
+      }
+      const unsupported = checkAttachmentSupport(modelConfig, files);
+      if (unsupported) {
+        return res.status(400).json({ error: unsupported });
+      }
+      const provider = getProvider(modelConfig);
+      if (thinking && (!modelConfig.supportsThinking || !provider.capabilities.thinking)) {
+        return res.status(400).json({ error: `${modelConfig.label} does not support extended thinking` });
+      }
+      const ledgerDocuments = await resolveLedgerAttachments(ledgerAttachments);
+      if (!ledgerDocuments) {
+        return res.status(400).json({ error: "Attached ledger version not found" });
+      }
+
       // Save user message to database first with parentMessageId
       // Mark as thread message if in thread context
       const savedUserMessage = await storage.createMessage({
@@ -513,44 +1103,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         parentMessageId: parentMessageId ?? null,
         role: "user",
         content: userMessage,
+        attachedLedgers: ledgerDocuments.length > 0 ? ledgerDocuments.map((document) => document.ref) : null,
         isThreadMessage: threadContext ?? false,
       });
 
-      // Save file attachments if present
-      if (files && files.length > 0) {
-        for (const file of files) {
-          const isImage = isImageFile(file.mimeType);
-          const isPdf = isPdfFile(file.mimeType);
-          const isText = isTextFile(file.mimeType);
-          
-          await storage.createMessageFile({
-            messageId: savedUserMessage.id,
-            filename: file.filename,
-            originalName: file.originalName,
-            mimeType: file.mimeType,
-            size: file.size,
-            fileData: (isImage || isPdf) ? file.data : undefined,
-            textContent: isText ? Buffer.from(file.data, 'base64').toString('utf-8') : undefined,
-          });
-        }
-      }
-
-      // Set headers for SSE streaming
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache");
-      res.setHeader("Connection", "keep-alive");
-      res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
-      res.flushHeaders(); // Send headers immediately to start stream
-      
-      // Disable Nagle's algorithm for immediate packet delivery
-      if (res.socket) {
-        res.socket.setNoDelay(true);
-      }
+      await saveMessageAttachments(savedUserMessage.id, files);
 
       // Build conversation history for Claude API
-      type ContentBlock = Anthropic.TextBlockParam | Anthropic.ImageBlockParam | Anthropic.DocumentBlockParam;
-      type MessageContent = string | ContentBlock[];
-      const claudeMessages: Array<{ role: "user" | "assistant"; content: MessageContent }> = [];
+      const claudeMessages: Anthropic.MessageParam[] = [];
       
       if (threadContext && threadRootId) {
         // Thread mode: only include root message + thread messages
@@ -577,162 +1137,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Add current message with files if present
         claudeMessages.push({
           role: "user",
-          content: buildUserContent(userMessage, files),
+          content: buildUserContent(userMessage, modelConfig, files, ledgerDocuments),
         });
       } else {
         // Main chat mode: build conversation path up to this message
         const allDbMessages = await storage.getMessages(conversationId);
         const conversationPath = buildConversationPath(allDbMessages, savedUserMessage.id);
-        
-        // Get all file attachments for messages in this path
-        const pathMessageIds = conversationPath.map(m => m.id);
-        const allMessageFiles = await storage.getMessageFilesForMessages(pathMessageIds);
-        const filesByMessageId = new Map<number, typeof allMessageFiles>();
-        for (const file of allMessageFiles) {
-          if (!filesByMessageId.has(file.messageId)) {
-            filesByMessageId.set(file.messageId, []);
-          }
-          filesByMessageId.get(file.messageId)!.push(file);
-        }
-        
-        for (const msg of conversationPath) {
-          const msgFiles = filesByMessageId.get(msg.id);
-          if (msg.id === savedUserMessage.id) {
-            // Current message - use the files from the request
-            claudeMessages.push({
-              role: "user",
-              content: buildUserContent(userMessage, files),
-            });
-          } else if (msg.role === "user" && msgFiles && msgFiles.length > 0) {
-            // Historical user message with files
-            const reconstructedFiles: FileAttachment[] = msgFiles.map(f => ({
-              filename: f.filename,
-              originalName: f.originalName,
-              mimeType: f.mimeType,
-              size: f.size,
-              data: f.fileData || (f.textContent ? Buffer.from(f.textContent).toString('base64') : ''),
-            }));
-            claudeMessages.push({
-              role: "user",
-              content: buildUserContent(msg.content, reconstructedFiles),
-            });
-          } else {
-            claudeMessages.push({
-              role: msg.role as "user" | "assistant",
-              content: msg.content,
-            });
-          }
-        }
+        // Current message - use the files from the request
+        claudeMessages.push(...await buildPathMessages(conversationPath, modelConfig, {
+          id: savedUserMessage.id,
+          content: buildUserContent(userMessage, modelConfig, files, ledgerDocuments),
+        }));
       }
 
-      // Build stream options
-      const streamOptions: any = {
-        model: model,
-        max_tokens: 4096,
-        messages: claudeMessages,
+      const conversation = await storage.getConversation(conversationId);
+      const project = conversation?.projectId ? await storage.getProject(conversation.projectId) : undefined;
+      const appSettings = await storage.getSettings();
+      const apiKeyChoices = [conversation?.apiKeyId, project?.apiKeyId];
+      const { apiKeyId, apiKey } = await resolveApiKey(modelConfig, apiKeyChoices);
+
+      const projectContext = await buildProjectContext(project, modelConfig);
+      const systemText = await buildSystemText(
+        systemPrompt,
+        { conversationId, projectId: conversation?.projectId ?? null },
+        projectContext?.instructions,
+      );
+      // History is filled in by the job once it has been fitted to the context window
+      const request: LLMRequest = {
+        system: cacheSystemPrompt(systemText),
+        messages: [],
+        maxTokens: DEFAULT_MAX_TOKENS,
+        apiKey,
       };
 
-      // Append ledger instruction so Claude wraps artifacts in parseable XML blocks.
-      // Instruction is always appended after any user-defined system prompt.
-      const LEDGER_INSTRUCTION = `You MUST wrap any code artifact, plan, report, note, or draft you produce inside a ledger XML block using this exact format:
-<ledger type="TYPE" title="TITLE">
-CONTENT GOES HERE
-</ledger>
-TYPE must be one of: code, report, plan, note, draft. TITLE should be a short descriptive name. Do NOT use markdown code fences or document headers outside the ledger block — the ledger block IS the artifact. Keep conversational text brief and outside the block.`;
+      // The request carries the conversation's panel values (or a regenerated message's recorded ones)
+      const params = mergeGenerationParams(appSettings.generationParams, project?.generationParams, requestParams);
+      const appliedParams = applyGenerationParams(
+        request,
+        params,
+        thinking ? thinkingBudget ?? DEFAULT_THINKING_BUDGET : null,
+        modelConfig,
+      );
 
-      streamOptions.system = systemPrompt
-        ? `${systemPrompt}\n\n${LEDGER_INSTRUCTION}`
-        : LEDGER_INSTRUCTION;
+      // Let the model call registered tools (ledgers, project files, conversation search)
+      if (provider.capabilities.tools) {
+        request.tools = toolRegistry.toAnthropicTools();
+      }
 
-      // Stream response from Claude using event-based streaming for granular updates
-      let fullContent = "";
+      // History gets whatever the context window has left after the reply, system prompt, tools and project files
+      const historyBudget = modelConfig.contextWindow
+        - request.maxTokens
+        - estimateTokens(systemText)
+        - estimateTokens(JSON.stringify(request.tools ?? []))
+        - (projectContext?.tokens ?? 0)
+        - CONTEXT_SAFETY_MARGIN;
 
-      const stream = anthropic.messages.stream(streamOptions);
-      
-      // Use event-based streaming for immediate token delivery
-      stream.on('text', (text: string) => {
-        fullContent += text;
-        const data = JSON.stringify({ content: text });
-        res.write(`data: ${data}\n\n`);
-      });
-      
-      // Handle stream errors gracefully
-      stream.on('error', (error: Error) => {
-        console.error("Stream error:", error);
-        res.write(`data: ${JSON.stringify({ error: error.message })}\n\n`);
-        res.write(`data: [DONE]\n\n`);
-        res.end();
-      });
+      // Generation runs as a server-side job so it survives reloads and dropped connections.
+      // This request is just the first subscriber to the job's event stream.
+      const job = chatJobs.create(conversationId, savedUserMessage.id, threadContext ? threadRootId ?? null : null);
+      job.emit({ jobId: job.id, userMessageId: savedUserMessage.id });
+      job.pipe(res, 0);
 
-      // Wait for stream to complete and get final message with usage
-      const finalMessage = await stream.finalMessage();
+      const toolContext: ToolContext = { conversationId, projectId: conversation?.projectId ?? null };
 
-      // Record API usage - try multiple sources to ensure we capture usage
-      try {
-        // Primary source: finalMessage.usage
-        let usage = finalMessage.usage;
-        
-        // Fallback: try stream.totalUsage() if available (some SDK versions)
-        if (!usage || usage.input_tokens === undefined) {
-          const totalUsage = (stream as any).totalUsage?.();
-          if (totalUsage) {
-            usage = totalUsage;
-          }
+      const runGeneration = async () => {
+        const startedAt = Date.now();
+        // One signal for the whole job, so a stop during tool execution also cancels the next round
+        const abortController = new AbortController();
+        job.onAbort(() => abortController.abort());
+        const { messages: fittedMessages, compaction } = await compactHistory(
+          claudeMessages,
+          historyBudget,
+          appSettings.compactionStrategy,
+          conversationId,
+          apiKeyChoices,
+        );
+        if (compaction) {
+          job.emit({ compaction });
         }
-        
-        // Also check current accumulated usage from stream
-        if (!usage || usage.input_tokens === undefined) {
-          const currentUsage = (stream as any).currentUsage?.();
-          if (currentUsage) {
-            usage = currentUsage;
-          }
+        if (projectContext) {
+          job.emit({ projectContext: projectContext.info });
         }
-        
-        if (usage && usage.input_tokens !== undefined && usage.output_tokens !== undefined) {
-          const inputTokens = usage.input_tokens;
-          const outputTokens = usage.output_tokens;
-          const costUsd = calculateCost(model, inputTokens, outputTokens);
-          
-          console.log("Recording API usage:", { model, inputTokens, outputTokens, costUsd });
-          
-          await storage.recordApiUsage({
-            model,
-            inputTokens,
-            outputTokens,
-            costUsd,
-            conversationId,
-          });
-        } else {
-          // Log if usage data is missing for debugging
-          console.warn("API usage data missing from response:", { 
-            model, 
-            hasUsage: !!usage,
-            finalMessageKeys: Object.keys(finalMessage),
-            usage
-          });
-        }
-      } catch (usageError) {
-        console.error("Failed to record API usage:", usageError);
-        // Don't fail the request if usage recording fails
-      }
+        const ledgers = new LedgerCollector((payload) => job.emit(payload), toolContext);
+        const reply = await generateReply({
+          provider,
+          model: modelConfig,
+          request,
+          messages: applyHistoryCacheBreakpoint(withProjectContext(fittedMessages, projectContext)),
+          toolContext: { ...toolContext, onLedgerVersion: (versionId) => ledgers.linkVersion(versionId) },
+          apiKeyId,
+          emit: (payload) => job.emit(payload),
+          onText: (text) => ledgers.push(text),
+          signal: abortController.signal,
+        });
+        const { content: fullContent, thinking: fullThinking, toolCalls, stopReason, stopped: wasStopped, failed } = reply;
+        const { content: storedContent, versionIds: ledgerVersionIds } = await ledgers.finish();
 
-      // Save assistant response to database with parentMessageId set to the user message
-      // Mark as thread message if in thread context
-      const savedAssistantMessage = await storage.createMessage({
-        conversationId,
-        parentMessageId: savedUserMessage.id,
-        role: "assistant",
-        content: fullContent,
-        model,
-        isThreadMessage: threadContext ?? false,
-      });
+        // Save assistant response to database with parentMessageId set to the user message
+        // Mark as thread message if in thread context. A stopped or failed reply keeps its partial
+        // text and reasoning (if any arrived) and is marked "stopped" or "error" so it can be continued
+        // or regenerated; a reply cut off by max_tokens keeps Anthropic's stop_reason for the same purpose.
+        if (!(wasStopped || failed) || fullContent || fullThinking || toolCalls.length > 0) {
+          const savedAssistantMessage = await storage.createMessage({
+            conversationId,
+            parentMessageId: savedUserMessage.id,
+            role: "assistant",
+            content: storedContent,
+            model,
+            stopReason,
+            thinking: fullThinking || null,
+            toolCalls: toolCalls.length > 0 ? toolCalls : null,
+            compaction,
+            projectContext: projectContext?.info ?? null,
+            generationParams: appliedParams,
+            costUsd: reply.costUsd,
+            latencyMs: Date.now() - startedAt,
+            isThreadMessage: threadContext ?? false,
+          }, ledgerVersionIds);
 
-      // Emit saved message ID so client can patch content (e.g. ledger sentinels)
-      res.write(`data: ${JSON.stringify({ savedMessageId: savedAssistantMessage.id })}\n\n`);
+          // Emit saved message ID so client can refresh the stored reply
+          job.emit({ savedMessageId: savedAssistantMessage.id, stopped: wasStopped });
+        }
+      };
 
-      // Send completion signal and close stream
-      res.write(`data: [DONE]\n\n`);
-      res.end();
+      runGeneration()
+        .catch((error) => {
+          console.error("Error in chat job:", error);
+          job.emit({ error: error instanceof Error ? error.message : "An unknown error occurred" });
+        })
+        .finally(() => chatJobs.finish(job));
     } catch (error) {
       console.error("Error in chat endpoint:", error);
       
@@ -746,20 +1279,407 @@ TYPE must be one of: code, report, plan, note, draft. TITLE should be a short de
     }
   });
 
+  // Send one message to several models at once. Every reply is saved as a sibling child of the same
+  // user message, tagged with a shared compareGroup, so the client can show them side by side and
+  // any of them can become the active branch. Events carry a `model` field to route them to a column.
+  app.post("/api/chat/compare", async (req, res) => {
+    try {
+      const {
+        message: userMessage,
+        models: modelIds,
+        conversationId,
+        systemPrompt,
+        parentMessageId,
+        files,
+        ledgers: ledgerAttachments,
+        generationParams: requestParams,
+      } = compareRequestSchema.parse(req.body);
+
+      const modelConfigs: Model[] = [];
+      for (const id of modelIds) {
+        const modelConfig = await storage.getModel(id);
+        if (!modelConfig || !modelConfig.enabled) {
+          return res.status(400).json({ error: `Unknown or disabled model: ${id}` });
+        }
+        const unsupported = checkAttachmentSupport(modelConfig, files);
+        if (unsupported) {
+          return res.status(400).json({ error: `${modelConfig.label}: ${unsupported}` });
+        }
+        modelConfigs.push(modelConfig);
+      }
+      const ledgerDocuments = await resolveLedgerAttachments(ledgerAttachments);
+      if (!ledgerDocuments) {
+        return res.status(400).json({ error: "Attached ledger version not found" });
+      }
+
+      const savedUserMessage = await storage.createMessage({
+        conversationId,
+        parentMessageId: parentMessageId ?? null,
+        role: "user",
+        content: userMessage,
+        attachedLedgers: ledgerDocuments.length > 0 ? ledgerDocuments.map((document) => document.ref) : null,
+      });
+      await saveMessageAttachments(savedUserMessage.id, files);
+
+      const allDbMessages = await storage.getMessages(conversationId);
+      const conversationPath = buildConversationPath(allDbMessages, savedUserMessage.id);
+      const conversation = await storage.getConversation(conversationId);
+      const project = conversation?.projectId ? await storage.getProject(conversation.projectId) : undefined;
+      const appSettings = await storage.getSettings();
+      const apiKeyChoices = [conversation?.apiKeyId, project?.apiKeyId];
+      const params = mergeGenerationParams(appSettings.generationParams, project?.generationParams, requestParams);
+
+      const job = chatJobs.create(conversationId, savedUserMessage.id, null);
+      job.emit({ jobId: job.id, userMessageId: savedUserMessage.id, compare: modelIds });
+      job.pipe(res, 0);
+
+      // Stop ends every column at once
+      const abortController = new AbortController();
+      job.onAbort(() => abortController.abort());
+      const toolContext: ToolContext = { conversationId, projectId: conversation?.projectId ?? null };
+
+      const runModel = async (modelConfig: Model) => {
+        const emit = (payload: Record<string, unknown>) => job.emit({ model: modelConfig.id, ...payload });
+        const startedAt = Date.now();
+        const provider = getProvider(modelConfig);
+        // Each model pays with the first chosen key for its own provider
+        const { apiKeyId, apiKey } = await resolveApiKey(modelConfig, apiKeyChoices);
+        // Per model, since the budget and which file types fit depend on it
+        const projectContext = await buildProjectContext(project, modelConfig);
+        const systemText = await buildSystemText(systemPrompt, toolContext, projectContext?.instructions);
+        const request: LLMRequest = {
+          system: cacheSystemPrompt(systemText),
+          messages: [],
+          maxTokens: DEFAULT_MAX_TOKENS,
+          apiKey,
+        };
+        const appliedParams = applyGenerationParams(request, params, null, modelConfig);
+        if (provider.capabilities.tools) {
+          request.tools = toolRegistry.toAnthropicTools();
+        }
+
+        const historyBudget = modelConfig.contextWindow
+          - request.maxTokens
+          - estimateTokens(systemText)
+          - estimateTokens(JSON.stringify(request.tools ?? []))
+          - (projectContext?.tokens ?? 0)
+          - CONTEXT_SAFETY_MARGIN;
+        const claudeMessages = await buildPathMessages(conversationPath, modelConfig, {
+          id: savedUserMessage.id,
+          content: buildUserContent(userMessage, modelConfig, files, ledgerDocuments),
+        });
+        const { messages: fittedMessages, compaction } = await compactHistory(
+          claudeMessages,
+          historyBudget,
+          appSettings.compactionStrategy,
+          conversationId,
+          apiKeyChoices,
+        );
+
+        const ledgers = new LedgerCollector(emit, toolContext);
+        const reply = await generateReply({
+          provider,
+          model: modelConfig,
+          request,
+          messages: applyHistoryCacheBreakpoint(withProjectContext(fittedMessages, projectContext)),
+          toolContext: { ...toolContext, onLedgerVersion: (versionId) => ledgers.linkVersion(versionId) },
+          apiKeyId,
+          emit,
+          onText: (text) => ledgers.push(text),
+          signal: abortController.signal,
+        });
+        const { content: storedContent, versionIds: ledgerVersionIds } = await ledgers.finish();
+
+        if (!(reply.stopped || reply.failed) || reply.content || reply.thinking || reply.toolCalls.length > 0) {
+          const latencyMs = Date.now() - startedAt;
+          const savedAssistantMessage = await storage.createMessage({
+            conversationId,
+            parentMessageId: savedUserMessage.id,
+            role: "assistant",
+            content: storedContent,
+            model: modelConfig.id,
+            stopReason: reply.stopReason,
+            thinking: reply.thinking || null,
+            toolCalls: reply.toolCalls.length > 0 ? reply.toolCalls : null,
+            compaction,
+            projectContext: projectContext?.info ?? null,
+            generationParams: appliedParams,
+            costUsd: reply.costUsd,
+            latencyMs,
+            compareGroup: job.id,
+          }, ledgerVersionIds);
+          emit({ savedMessageId: savedAssistantMessage.id, stopped: reply.stopped, costUsd: reply.costUsd, latencyMs });
+        }
+      };
+
+      // A model that fails only ends its own column
+      Promise.all(modelConfigs.map((modelConfig) =>
+        runModel(modelConfig).catch((error) => {
+          console.error(`Error in compare job for ${modelConfig.id}:`, error);
+          job.emit({ model: modelConfig.id, error: error instanceof Error ? error.message : "An unknown error occurred" });
+        }),
+      )).finally(() => chatJobs.finish(job));
+    } catch (error) {
+      console.error("Error in compare endpoint:", error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid request data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to start comparison" });
+      }
+    }
+  });
+
+  // Reattach to a chat job's event stream, replaying everything after Last-Event-ID
+  app.get("/api/chat/jobs/:jobId/events", (req, res) => {
+    const job = chatJobs.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Chat job not found" });
+    }
+    const lastEventId = parseInt((req.header("Last-Event-ID") ?? req.query.lastEventId ?? "0") as string) || 0;
+    job.pipe(res, lastEventId);
+  });
+
+  // Stop an in-flight generation; the job persists the partial reply and closes its stream
+  app.post("/api/chat/jobs/:jobId/cancel", (req, res) => {
+    const job = chatJobs.get(req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Chat job not found" });
+    }
+    job.abort();
+    res.json({ success: true });
+  });
+
+  // Continue a reply that hit max_tokens or was stopped. The existing text is sent back as an
+  // assistant prefill so Claude picks up mid-sentence (or mid-ledger), and the continuation is
+  // appended to the same message rather than creating a new one.
+  app.post("/api/chat/continue", async (req, res) => {
+    try {
+      const { conversationId, messageId } = continueRequestSchema.parse(req.body);
+
+      const allDbMessages = await storage.getMessages(conversationId);
+      const target = allDbMessages.find(m => m.id === messageId);
+      if (!target || target.role !== "assistant" || target.parentMessageId == null) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+      if (target.isThreadMessage) {
+        return res.status(400).json({ error: "Thread replies cannot be continued" });
+      }
+      if (!CONTINUABLE_STOP_REASONS.includes(target.stopReason ?? "")) {
+        return res.status(400).json({ error: "Message is already complete" });
+      }
+      const modelConfig = target.model ? await storage.getModel(target.model) : undefined;
+      if (!modelConfig || !modelConfig.enabled) {
+        return res.status(400).json({ error: "Message model is unknown or disabled" });
+      }
+      const model = modelConfig.id;
+
+      const conversation = await storage.getConversation(conversationId);
+      const project = conversation?.projectId ? await storage.getProject(conversation.projectId) : undefined;
+      const appSettings = await storage.getSettings();
+      const apiKeyChoices = [conversation?.apiKeyId, project?.apiKeyId];
+      const { apiKeyId, apiKey } = await resolveApiKey(modelConfig, apiKeyChoices);
+
+      const conversationPath = buildConversationPath(allDbMessages, target.parentMessageId);
+      const claudeMessages = await buildPathMessages(conversationPath, modelConfig);
+      // The API rejects a prefill that ends in whitespace
+      const prefix = target.content.trimEnd();
+
+      const provider = getProvider(modelConfig);
+      const projectContext = await buildProjectContext(project, modelConfig);
+      const systemText = await buildSystemText(
+        conversation?.systemPrompt,
+        { conversationId: target.conversationId, projectId: conversation?.projectId ?? null },
+        projectContext?.instructions,
+      );
+      const request: LLMRequest = {
+        system: cacheSystemPrompt(systemText),
+        messages: [],
+        maxTokens: DEFAULT_MAX_TOKENS,
+        apiKey,
+      };
+      // Prefill can't be combined with extended thinking, so continuations always run without it
+      applyGenerationParams(request, target.generationParams ?? {}, null, modelConfig);
+
+      const historyBudget = modelConfig.contextWindow
+        - request.maxTokens
+        - estimateTokens(systemText)
+        - estimateTokens(prefix)
+        - (projectContext?.tokens ?? 0)
+        - CONTEXT_SAFETY_MARGIN;
+
+      const job = chatJobs.create(conversationId, target.parentMessageId, null, target.id);
+      // prefix lets the client render (and ledger-parse) the existing text plus the continuation
+      job.emit({ jobId: job.id, userMessageId: target.parentMessageId, continuesMessageId: target.id, prefix });
+      job.pipe(res, 0);
+
+      const runContinuation = async () => {
+        const { messages: fittedMessages } = await compactHistory(
+          claudeMessages,
+          historyBudget,
+          appSettings.compactionStrategy,
+          conversationId,
+          apiKeyChoices,
+        );
+        request.messages = applyHistoryCacheBreakpoint(withProjectContext(fittedMessages, projectContext));
+        if (prefix) {
+          request.messages.push({ role: "assistant", content: prefix });
+          // Providers that treat a trailing assistant turn as finished need to be asked explicitly
+          if (!provider.capabilities.assistantPrefill) {
+            request.messages.push({
+              role: "user",
+              content: "Continue your previous reply exactly where it stopped. Do not repeat any of it or add a preamble.",
+            });
+          }
+        }
+
+        let continuation = "";
+        const abortController = new AbortController();
+        job.onAbort(() => abortController.abort());
+        // A ledger block left open by the cut-off reply closes in the continuation
+        const ledgers = new LedgerCollector(
+          (payload) => job.emit(payload),
+          { conversationId, projectId: conversation?.projectId ?? null },
+          target.id,
+          prefix,
+        );
+
+        const result = await provider.stream(modelConfig, request, {
+          onText: (text) => {
+            continuation += text;
+            job.emit({ content: text });
+            ledgers.push(text);
+          },
+        }, abortController.signal);
+        const { content: storedContent } = await ledgers.finish();
+        const wasStopped = result.stopped;
+
+        if (result.usage) {
+          await recordChatUsage(model, conversationId, apiKeyId, {
+            inputTokens: result.usage.inputTokens,
+            outputTokens: wasStopped
+              ? Math.max(result.usage.outputTokens, estimateTokens(continuation))
+              : result.usage.outputTokens,
+            thinkingTokens: 0,
+            cacheWriteTokens: result.usage.cacheWriteTokens,
+            cacheReadTokens: result.usage.cacheReadTokens,
+          }, wasStopped);
+        }
+
+        if (result.error) {
+          console.error("Stream error:", result.error);
+          job.emit({ error: result.error.message });
+        }
+
+        // A failed continuation keeps what it added, so continuing again picks up after it
+        if (continuation) {
+          await storage.updateMessageContent(target.id, storedContent);
+        }
+        // A stopped or failed continuation stays continuable; otherwise record why this round ended
+        await storage.updateMessageStopReason(target.id, result.error ? "error" : wasStopped ? "stopped" : result.stopReason);
+
+        job.emit({ savedMessageId: target.id, stopped: wasStopped });
+      };
+
+      runContinuation()
+        .catch((error) => {
+          console.error("Error in continuation job:", error);
+          job.emit({ error: error instanceof Error ? error.message : "An unknown error occurred" });
+        })
+        .finally(() => chatJobs.finish(job));
+    } catch (error) {
+      console.error("Error in continue endpoint:", error);
+
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ error: "Invalid request data", details: error.errors });
+      } else {
+        res.status(500).json({ error: "Failed to continue message" });
+      }
+    }
+  });
+
+  // Helper function to store a user message's attachments so history and rebuilt requests can re-attach them
+  async function saveMessageAttachments(messageId: number, files?: FileAttachment[]): Promise<void> {
+    if (!files || files.length === 0) return;
+    for (const file of files) {
+      const isImage = isImageFile(file.mimeType);
+      const isPdf = isPdfFile(file.mimeType);
+      const isText = isTextFile(file.mimeType);
+
+      await storage.createMessageFile({
+        messageId,
+        filename: file.filename,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        size: file.size,
+        fileData: (isImage || isPdf) ? file.data : undefined,
+        textContent: isText ? Buffer.from(file.data, 'base64').toString('utf-8') : undefined,
+      });
+    }
+  }
+
+  interface LedgerDocument {
+    ref: MessageLedgerRef;
+    // Null when the version no longer exists
+    content: string | null;
+  }
+
+  // Versions attached to a new message; null if any of them doesn't exist
+  async function resolveLedgerAttachments(attachments: LedgerAttachment[] = []): Promise<LedgerDocument[] | null> {
+    const documents = await Promise.all(attachments.map(async ({ ledgerId, versionNumber }) => {
+      const [ledger, version] = await Promise.all([
+        storage.getLedger(ledgerId),
+        storage.getLedgerVersion(ledgerId, versionNumber),
+      ]);
+      if (!ledger || !version) return null;
+      return { ref: { ledgerId, versionNumber, title: ledger.title, type: ledger.type }, content: version.content };
+    }));
+    return documents.every((document) => document !== null) ? documents as LedgerDocument[] : null;
+  }
+
+  // Re-reads the versions a stored message referenced, so the same content is sent on every rebuild
+  async function loadLedgerDocuments(refs: MessageLedgerRef[]): Promise<LedgerDocument[]> {
+    return Promise.all(refs.map(async (ref) => {
+      const version = await storage.getLedgerVersion(ref.ledgerId, ref.versionNumber);
+      return { ref, content: version?.content ?? null };
+    }));
+  }
+
   // Helper function to build user content with files for Claude API
+  // Attachments the model can't read (e.g. images in history after switching models) become placeholders
   function buildUserContent(
     text: string,
-    files?: FileAttachment[]
+    model: Pick<Model, "supportsVision" | "supportsPdf">,
+    files?: FileAttachment[],
+    ledgerDocuments: LedgerDocument[] = [],
   ): string | Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam | Anthropic.DocumentBlockParam> {
-    if (!files || files.length === 0) {
+    if ((!files || files.length === 0) && ledgerDocuments.length === 0) {
       return text;
     }
 
     const contentBlocks: Array<Anthropic.TextBlockParam | Anthropic.ImageBlockParam | Anthropic.DocumentBlockParam> = [];
 
-    // Add files first
-    for (const file of files) {
-      if (isImageFile(file.mimeType)) {
+    // Attached ledgers go first as titled plain-text documents
+    for (const { ref, content } of ledgerDocuments) {
+      const label = `${ref.title} (v${ref.versionNumber})`;
+      contentBlocks.push(content === null
+        ? { type: "text", text: `[Ledger ${label} is no longer available]` }
+        : {
+            type: "document",
+            source: { type: "text", media_type: "text/plain", data: content },
+            title: label,
+            context: `Ledger id ${ref.ledgerId}, type ${ref.type}, version ${ref.versionNumber}, attached by the user`,
+          });
+    }
+
+    // Then files
+    for (const file of files ?? []) {
+      if ((isImageFile(file.mimeType) && !model.supportsVision) || (isPdfFile(file.mimeType) && !model.supportsPdf)) {
+        contentBlocks.push({
+          type: "text",
+          text: `[Attachment ${file.originalName} omitted: not supported by this model]`,
+        });
+      } else if (isImageFile(file.mimeType)) {
         contentBlocks.push({
           type: "image",
           source: {
@@ -787,6 +1707,14 @@ TYPE must be one of: code, report, plan, note, draft. TITLE should be a short de
       }
     }
 
+    // Cache through the last large file so re-sending it (edits, regenerations) hits the cache
+    const lastLargeFileIndex = contentBlocks.findLastIndex((block) =>
+      block.type !== "text" || estimateTokens(block.text) >= MIN_CACHEABLE_TOKENS
+    );
+    if (lastLargeFileIndex !== -1) {
+      contentBlocks[lastLargeFileIndex].cache_control = EPHEMERAL_CACHE;
+    }
+
     // Add user text message
     contentBlocks.push({
       type: "text",
@@ -796,6 +1724,54 @@ TYPE must be one of: code, report, plan, note, draft. TITLE should be a short de
     return contentBlocks;
   }
 
+  // Helper function to turn a main-chat path into Claude messages, re-attaching stored files
+  // to historical user messages. `current` supplies content built from the live request instead.
+  async function buildPathMessages(
+    conversationPath: any[],
+    model: Model,
+    current?: { id: number; content: ReturnType<typeof buildUserContent> },
+  ): Promise<Anthropic.MessageParam[]> {
+    const result: Anthropic.MessageParam[] = [];
+
+    // Get all file attachments for messages in this path
+    const pathMessageIds = conversationPath.map(m => m.id);
+    const allMessageFiles = await storage.getMessageFilesForMessages(pathMessageIds);
+    const filesByMessageId = new Map<number, typeof allMessageFiles>();
+    for (const file of allMessageFiles) {
+      if (!filesByMessageId.has(file.messageId)) {
+        filesByMessageId.set(file.messageId, []);
+      }
+      filesByMessageId.get(file.messageId)!.push(file);
+    }
+
+    for (const msg of conversationPath) {
+      const msgFiles = filesByMessageId.get(msg.id);
+      if (current && msg.id === current.id) {
+        result.push({ role: "user", content: current.content });
+      } else if (msg.role === "user" && ((msgFiles && msgFiles.length > 0) || msg.attachedLedgers?.length > 0)) {
+        // Historical user message with files or attached ledgers
+        const reconstructedFiles: FileAttachment[] = (msgFiles ?? []).map(f => ({
+          filename: f.filename,
+          originalName: f.originalName,
+          mimeType: f.mimeType,
+          size: f.size,
+          data: f.fileData || (f.textContent ? Buffer.from(f.textContent).toString('base64') : ''),
+        }));
+        result.push({
+          role: "user",
+          content: buildUserContent(msg.content, model, reconstructedFiles, await loadLedgerDocuments(msg.attachedLedgers ?? [])),
+        });
+      } else {
+        result.push({
+          role: msg.role as "user" | "assistant",
+          content: msg.content,
+        });
+      }
+    }
+
+    return result;
+  }
+
   // Helper function to get thread chain messages
   function getThreadChain(messages: any[], rootId: number): any[] {
     const result: any[] = [];
@@ -847,10 +1823,11 @@ TYPE must be one of: code, report, plan, note, draft. TITLE should be a short de
   }
 
   // Ledgers
-  app.get("/api/ledgers", async (_req, res) => {
+  app.get("/api/ledgers", async (req, res) => {
     try {
-      const all = await storage.getLedgers();
-      res.json(all);
+      const filter = parseLedgerListQuery(req.query);
+      if (!filter) return res.status(400).json({ error: "Invalid filter" });
+      res.json(await storage.getLedgers(filter));
     } catch (e) {
       res.status(500).json({ error: "Failed to fetch ledgers" });
     }
@@ -869,15 +1846,88 @@ TYPE must be one of: code, report, plan, note, draft. TITLE should be a short de
     }
   });
 
+  // Rename, retype, pin or archive
+  app.patch("/api/ledgers/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const parsed = updateLedgerSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+      const ledger = await storage.updateLedger(id, parsed.data);
+      if (!ledger) return res.status(404).json({ error: "Ledger not found" });
+      res.json(ledger);
+    } catch (e) {
+      res.status(500).json({ error: "Failed to update ledger" });
+    }
+  });
+
+  // Sentinels in messages become tombstone chips; promoted apps keep their snapshot
+  app.delete("/api/ledgers/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const ledger = await storage.getLedger(id);
+      if (!ledger) return res.status(404).json({ error: "Ledger not found" });
+      await storage.deleteLedger(id);
+      res.json({ success: true });
+    } catch (e) {
+      res.status(500).json({ error: "Failed to delete ledger" });
+    }
+  });
+
+  app.get("/api/ledgers/:id/versions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      const ledger = await storage.getLedger(id);
+      if (!ledger) return res.status(404).json({ error: "Ledger not found" });
+      res.json(await storage.getLedgerVersions(id));
+    } catch (e) {
+      res.status(500).json({ error: "Failed to fetch ledger versions" });
+    }
+  });
+
+  app.get("/api/ledgers/:id/versions/:versionNumber", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versionNumber = parseInt(req.params.versionNumber);
+      if (isNaN(id) || isNaN(versionNumber)) return res.status(400).json({ error: "Invalid id" });
+      const version = await storage.getLedgerVersion(id, versionNumber);
+      if (!version) return res.status(404).json({ error: "Ledger version not found" });
+      res.json(version);
+    } catch (e) {
+      res.status(500).json({ error: "Failed to fetch ledger version" });
+    }
+  });
+
+  // Restoring never rewrites history: the old content is appended as the newest version
+  app.post("/api/ledgers/:id/versions/:versionNumber/restore", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versionNumber = parseInt(req.params.versionNumber);
+      if (isNaN(id) || isNaN(versionNumber)) return res.status(400).json({ error: "Invalid id" });
+      const source = await storage.getLedgerVersion(id, versionNumber);
+      if (!source) return res.status(404).json({ error: "Ledger version not found" });
+      const version = await storage.addLedgerVersion(id, source.content, null, {
+        restoredFrom: versionNumber,
+        ...(source.metadataJson.code ? { code: source.metadataJson.code } : {}),
+      });
+      res.status(201).json(version);
+    } catch (e) {
+      res.status(500).json({ error: "Failed to restore ledger version" });
+    }
+  });
+
   app.post("/api/ledgers", async (req, res) => {
     try {
       const bodySchema = insertLedgerSchema.extend({
         initialContent: z.string().min(1, "Initial content is required"),
+        code: codeLedgerSpecSchema.optional(),
       });
       const parsed = bodySchema.safeParse(req.body);
       if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
-      const { initialContent, ...ledgerData } = parsed.data;
-      const result = await storage.createLedger(ledgerData, initialContent);
+      const { initialContent, code, ...ledgerData } = parsed.data;
+      const result = await storage.createLedger(ledgerData, initialContent, null, code && ledgerData.type === "code" ? { code } : {});
       res.status(201).json(result);
     } catch (e) {
       res.status(500).json({ error: "Failed to create ledger" });
@@ -893,16 +1943,155 @@ TYPE must be one of: code, report, plan, note, draft. TITLE should be a short de
       const bodySchema = z.object({
         content: z.string().min(1, "Content is required"),
         messageId: z.number().nullable().optional(),
+        note: z.string().trim().max(500).optional(),
+        // The version an edit started from; a newer one existing means someone else saved meanwhile
+        baseVersion: z.number().int().optional(),
+        code: codeLedgerSpecSchema.optional(),
       });
       const parsed = bodySchema.safeParse(req.body);
       if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
-      const version = await storage.addLedgerVersion(id, parsed.data.content, parsed.data.messageId);
+      const { content, messageId, note, baseVersion, code } = parsed.data;
+      const metadata = {
+        ...(note ? { note } : {}),
+        ...(code && ledger.type === "code" ? { code } : {}),
+      };
+      if (baseVersion !== undefined) {
+        const latestVersion = await storage.getLatestLedgerVersion(id);
+        // The insert itself only takes baseVersion + 1, so a save landing after this check still conflicts
+        const version = latestVersion && latestVersion.versionNumber !== baseVersion
+          ? null
+          : await storage.addLedgerVersionAfter(id, baseVersion, content, messageId, metadata);
+        if (!version) {
+          return res.status(409).json({ error: "Ledger has a newer version", latestVersion: await storage.getLatestLedgerVersion(id) });
+        }
+        return res.status(201).json(version);
+      }
+      const version = await storage.addLedgerVersion(id, content, messageId, metadata);
       res.status(201).json(version);
     } catch (e) {
       res.status(500).json({ error: "Failed to add ledger version" });
     }
   });
 
+  // Apps: code ledger versions promoted to standalone pages with their own key-value store
+  app.get("/api/apps", async (req, res) => {
+    try {
+      res.json(await storage.getApps());
+    } catch (e) {
+      res.status(500).json({ error: "Failed to fetch apps" });
+    }
+  });
+
+  app.get("/api/apps/slug/:slug", async (req, res) => {
+    try {
+      const found = await storage.getAppBySlug(req.params.slug);
+      if (!found) return res.status(404).json({ error: "App not found" });
+      res.json(found);
+    } catch (e) {
+      res.status(500).json({ error: "Failed to fetch app" });
+    }
+  });
+
+  // Snapshots the version's code, so later edits to the ledger don't change the app
+  app.post("/api/apps", async (req, res) => {
+    try {
+      const parsed = promoteAppSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+      const { ledgerId, versionNumber, name } = parsed.data;
+      const ledger = await storage.getLedger(ledgerId);
+      if (!ledger) return res.status(404).json({ error: "Ledger not found" });
+      if (ledger.type !== "code") return res.status(400).json({ error: "Only code ledgers can be promoted" });
+      const version = await storage.getLedgerVersion(ledgerId, versionNumber);
+      if (!version) return res.status(404).json({ error: "Ledger version not found" });
+      const appName = name ?? ledger.title;
+      const created = await storage.createApp({
+        slug: slugify(appName),
+        name: appName,
+        ledgerId,
+        versionNumber,
+        // Versions without a declared setup are a single React component
+        code: version.metadataJson.code ?? buildCodeSpec({}, version.content),
+      });
+      res.status(201).json(created);
+    } catch (e) {
+      res.status(500).json({ error: "Failed to promote ledger" });
+    }
+  });
+
+  app.delete("/api/apps/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      await storage.deleteApp(id);
+      res.json({ success: true });
+    } catch (e) {
+      res.status(500).json({ error: "Failed to delete app" });
+    }
+  });
+
+  // Loaded into the app's preview as an external resource; defines window.appKv
+  app.get("/api/apps/:id/kv-client.js", async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+    res.type("application/javascript").send(buildAppKvClientScript(id));
+  });
+
+  const kvKeySchema = z.string().min(1).max(APP_KV_KEY_MAX_LENGTH);
+  const kvValueSchema = z.unknown()
+    .refine((value) => value !== undefined && value !== null, "Value is required; delete the key to clear it")
+    .refine((value) => Buffer.byteLength(JSON.stringify(value), "utf8") <= APP_KV_VALUE_MAX_BYTES, `Value must be at most ${APP_KV_VALUE_MAX_BYTES} bytes of JSON`);
+
+  app.get("/api/apps/:id/kv", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      if (!await storage.getApp(id)) return res.status(404).json({ error: "App not found" });
+      const entries = await storage.getAppKvEntries(id);
+      res.json(entries.map(({ key, value, updatedAt }) => ({ key, value, updatedAt })));
+    } catch (e) {
+      res.status(500).json({ error: "Failed to fetch app data" });
+    }
+  });
+
+  app.get("/api/apps/:id/kv/:key", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      if (!await storage.getApp(id)) return res.status(404).json({ error: "App not found" });
+      const entry = await storage.getAppKvEntry(id, req.params.key);
+      if (!entry) return res.status(404).json({ error: "Key not found" });
+      res.json({ key: entry.key, value: entry.value, updatedAt: entry.updatedAt });
+    } catch (e) {
+      res.status(500).json({ error: "Failed to fetch app data" });
+    }
+  });
+
+  app.put("/api/apps/:id/kv/:key", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      if (!await storage.getApp(id)) return res.status(404).json({ error: "App not found" });
+      const parsed = z.object({ key: kvKeySchema, value: kvValueSchema }).safeParse({ key: req.params.key, value: req.body?.value });
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.flatten() });
+      const entry = await storage.setAppKvValue(id, parsed.data.key, parsed.data.value);
+      res.json({ key: entry.key, value: entry.value, updatedAt: entry.updatedAt });
+    } catch (e) {
+      res.status(500).json({ error: "Failed to save app data" });
+    }
+  });
+
+  app.delete("/api/apps/:id/kv/:key", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) return res.status(400).json({ error: "Invalid id" });
+      if (!await storage.getApp(id)) return res.status(404).json({ error: "App not found" });
+      await storage.deleteAppKvValue(id, req.params.key);
+      res.json({ success: true });
+    } catch (e) {
+      res.status(500).json({ error: "Failed to delete app data" });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -7,7 +7,10 @@ import {
   type Project,
   type InsertProject,
   type ProjectFile,
+  type LedgerScope,
+  type ProjectFileSummary,
   type InsertProjectFile,
+  type FileBlob,
   type MessageFile,
   type InsertMessageFile,
   type Settings,
@@ -17,17 +20,111 @@ import {
   type Ledger,
   type InsertLedger,
   type LedgerVersion,
+  type LedgerVersionMetadata,
+  type LedgerVersionWithSource,
+  type LedgerType,
+  type Model,
+  type InsertModel,
+  type ApiKey,
+  type StoredApiKey,
+  type App,
+  type InsertApp,
+  type AppKvEntry,
+  DEFAULT_MODELS,
   conversations, 
   messages,
   projects,
   projectFiles,
+  fileBlobs,
   messageFiles,
   settings,
   apiUsage,
   ledgers,
   ledgerVersions,
+  models,
+  apiKeys,
+  apps,
+  appKv,
 } from "@shared/schema";
-import { eq, desc, isNull, inArray, gte, and, sql, max } from "drizzle-orm";
+import { eq, desc, isNull, isNotNull, inArray, gte, and, or, sql, max, ilike, like, getTableColumns, type SQL } from "drizzle-orm";
+import { tombstoneLedgerRefs } from "@shared/ledgerParser";
+
+// Every api_keys column except the ciphertext, which only the key vault reads
+const { encryptedKey: _encryptedKey, ...apiKeyColumns } = getTableColumns(apiKeys);
+
+// Every project_files column except the extracted text, which can run to megabytes
+const { extractedText: _extractedText, ...projectFileSummaryColumns } = getTableColumns(projectFiles);
+
+export type ProjectFileContent = Pick<ProjectFile, "mimeType" | "contentHash" | "extractedText" | "extractionError" | "thumbnail">;
+
+// Live ledgers of the conversation, and of its project when it is in one
+function ledgerScopeCondition(scope: LedgerScope): SQL {
+  const owners = [
+    ...(scope.conversationId != null ? [eq(ledgers.conversationId, scope.conversationId)] : []),
+    ...(scope.projectId != null ? [eq(ledgers.projectId, scope.projectId)] : []),
+  ];
+  return and(owners.length > 0 ? or(...owners) : sql`false`, isNull(ledgers.archivedAt))!;
+}
+
+// A LIKE pattern matching the text anywhere, with its wildcards escaped so it is matched literally
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+// Concurrent revisions of one ledger that pick the same number are retried this many times
+const LEDGER_VERSION_ATTEMPTS = 3;
+
+// Inserts a version numbered by versionNumber unless that number is taken, in which case the
+// unique (ledger_id, version_number) constraint turns the insert into a no-op and undefined comes back
+async function insertLedgerVersion(
+  ledgerId: number,
+  versionNumber: number | SQL<number>,
+  content: string,
+  messageId: number | null | undefined,
+  metadata: LedgerVersionMetadata,
+): Promise<LedgerVersion | undefined> {
+  // A skipped insert still draws an id, so currval never points at someone else's row
+  const [, [version]] = await db.batch([
+    db.insert(ledgerVersions).values({
+      ledgerId,
+      versionNumber,
+      content,
+      metadataJson: metadata,
+      // Omitted when null (Neon HTTP null integer bug)
+      ...(messageId != null ? { createdFromMessageId: messageId } : {}),
+    }).onConflictDoNothing({ target: [ledgerVersions.ledgerId, ledgerVersions.versionNumber] }),
+    db.select().from(ledgerVersions).where(eq(ledgerVersions.id, sql<number>`currval(pg_get_serial_sequence('ledger_versions', 'id'))`)),
+  ]);
+  if (version) {
+    await db.update(ledgers).set({ updatedAt: new Date() }).where(eq(ledgers.id, ledgerId));
+  }
+  return version;
+}
+
+// Drops blobs no project file points at any more
+function pruneFileBlobs() {
+  return db.delete(fileBlobs).where(sql`not exists (select 1 from ${projectFiles} where ${projectFiles.contentHash} = ${fileBlobs.contentHash})`);
+}
+
+export interface LedgerListFilter {
+  conversationId?: number;
+  projectId?: number;
+  // Full-text search over the title and latest-version content
+  query?: string;
+  types?: LedgerType[];
+  updatedSince?: Date;
+  // Lists archived ledgers instead of active ones
+  archived?: boolean;
+}
+
+export interface LedgerUpdates {
+  title?: string;
+  type?: LedgerType;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+type ApiKeyUpdates = Partial<Pick<StoredApiKey, "label" | "encryptedKey" | "keyHint" | "lastTestedAt" | "lastTestError">>;
 
 export interface IStorage {
   // Projects
@@ -47,16 +144,23 @@ export interface IStorage {
   
   // Messages
   getMessages(conversationId: number): Promise<Message[]>;
-  createMessage(message: InsertMessage): Promise<Message>;
+  createMessage(message: InsertMessage, ledgerVersionIds?: number[]): Promise<Message>;
   deleteMessage(id: number): Promise<void>;
   updateMessageContent(id: number, content: string): Promise<void>;
+  updateMessageStopReason(id: number, stopReason: string | null): Promise<void>;
   updateMessageThreadDraft(id: number, threadDraft: string | null): Promise<void>;
+  searchMessages(query: string, limit: number): Promise<Array<{ message: Message; conversationTitle: string }>>;
   
   // Project Files
   getProjectFiles(projectId: number): Promise<ProjectFile[]>;
+  getProjectFileSummaries(projectId: number): Promise<ProjectFileSummary[]>;
   getProjectFile(id: number): Promise<ProjectFile | undefined>;
-  createProjectFile(file: InsertProjectFile): Promise<ProjectFile>;
+  getProjectFilesByHash(contentHash: string): Promise<ProjectFile[]>;
+  createProjectFile(file: InsertProjectFile, data: string): Promise<{ file: ProjectFile; duplicate: boolean }>;
   deleteProjectFile(id: number): Promise<void>;
+  getFileBlob(contentHash: string): Promise<FileBlob | undefined>;
+  getUnstoredProjectFiles(): Promise<ProjectFile[]>;
+  storeProjectFileContent(id: number, content: ProjectFileContent, data: string, size: number): Promise<void>;
   
   // Message Files
   getMessageFiles(messageId: number): Promise<MessageFile[]>;
@@ -68,6 +172,22 @@ export interface IStorage {
   getSettings(): Promise<Settings>;
   updateSettings(updates: InsertSettings): Promise<Settings>;
   
+  // Models
+  getModels(): Promise<Model[]>;
+  seedDefaultModels(): Promise<void>;
+  getModel(id: string): Promise<Model | undefined>;
+  createModel(model: InsertModel): Promise<Model>;
+  updateModel(id: string, updates: Partial<InsertModel>): Promise<Model | undefined>;
+  deleteModel(id: string): Promise<void>;
+  
+  // API Keys
+  getApiKeys(): Promise<ApiKey[]>;
+  getApiKey(id: number): Promise<ApiKey | undefined>;
+  getStoredApiKey(id: number): Promise<StoredApiKey | undefined>;
+  createApiKey(key: Pick<StoredApiKey, "label" | "provider" | "encryptedKey" | "keyHint">): Promise<ApiKey>;
+  updateApiKey(id: number, updates: ApiKeyUpdates): Promise<ApiKey | undefined>;
+  revokeApiKey(id: number): Promise<ApiKey | undefined>;
+  
   // API Usage
   recordApiUsage(usage: InsertApiUsage): Promise<ApiUsage>;
   getUsageToday(): Promise<number>;
@@ -76,14 +196,34 @@ export interface IStorage {
   getDailyUsage(days: number): Promise<{ date: string; cost: number }[]>;
   getUsageByModel(startDate: Date): Promise<{ model: string; cost: number }[]>;
   getActiveDaysUsage(numDays: number): Promise<number[]>;
+  getCacheUsageByModel(startDate: Date): Promise<{ model: string; cacheWriteTokens: number; cacheReadTokens: number }[]>;
+  getUsageByApiKey(startDate: Date): Promise<{ apiKeyId: number | null; cost: number }[]>;
   
   // Ledgers
-  getLedgers(): Promise<Ledger[]>;
+  getLedgers(filter?: LedgerListFilter): Promise<Ledger[]>;
   getLedger(id: number): Promise<Ledger | undefined>;
-  createLedger(ledger: InsertLedger, initialContent: string): Promise<{ ledger: Ledger; version: LedgerVersion }>;
-  addLedgerVersion(ledgerId: number, content: string, messageId?: number | null): Promise<LedgerVersion>;
-  getLedgerVersions(ledgerId: number): Promise<LedgerVersion[]>;
+  createLedger(ledger: InsertLedger, initialContent: string, messageId?: number | null, metadata?: LedgerVersionMetadata): Promise<{ ledger: Ledger; version: LedgerVersion }>;
+  addLedgerVersion(ledgerId: number, content: string, messageId?: number | null, metadata?: LedgerVersionMetadata): Promise<LedgerVersion>;
+  addLedgerVersionAfter(ledgerId: number, baseVersion: number, content: string, messageId?: number | null, metadata?: LedgerVersionMetadata): Promise<LedgerVersion | null>;
+  getLedgerVersions(ledgerId: number): Promise<LedgerVersionWithSource[]>;
   getLatestLedgerVersion(ledgerId: number): Promise<LedgerVersion | undefined>;
+  getLedgerVersion(ledgerId: number, versionNumber: number): Promise<LedgerVersion | undefined>;
+  updateLedger(id: number, updates: LedgerUpdates): Promise<Ledger | undefined>;
+  deleteLedger(id: number): Promise<void>;
+  getScopedLedgers(scope: LedgerScope): Promise<Array<Ledger & { latestVersion: number }>>;
+  getScopedLedger(id: number, scope: LedgerScope): Promise<Ledger | undefined>;
+  backfillLedgerScopes(): Promise<void>;
+
+  // Apps
+  getApps(): Promise<App[]>;
+  getApp(id: number): Promise<App | undefined>;
+  getAppBySlug(slug: string): Promise<App | undefined>;
+  createApp(app: InsertApp): Promise<App>;
+  deleteApp(id: number): Promise<void>;
+  getAppKvEntries(appId: number): Promise<AppKvEntry[]>;
+  getAppKvEntry(appId: number, key: string): Promise<AppKvEntry | undefined>;
+  setAppKvValue(appId: number, key: string, value: unknown): Promise<AppKvEntry>;
+  deleteAppKvValue(appId: number, key: string): Promise<void>;
 
   // Bulk operations
   deleteAllConversations(): Promise<void>;
@@ -121,7 +261,10 @@ export class DbStorage implements IStorage {
   }
 
   async deleteProject(id: number): Promise<void> {
-    await db.delete(projects).where(eq(projects.id, id));
+    await db.batch([
+      db.delete(projects).where(eq(projects.id, id)),
+      pruneFileBlobs(),
+    ]);
   }
 
   async touchProject(id: number): Promise<void> {
@@ -180,6 +323,11 @@ export class DbStorage implements IStorage {
     if (updated?.projectId) {
       await this.touchProject(updated.projectId);
     }
+
+    // A chat's ledgers move with it between projects
+    if (updated && oldConv && oldConv.projectId !== updated.projectId) {
+      await db.update(ledgers).set({ projectId: updated.projectId }).where(eq(ledgers.conversationId, id));
+    }
     
     return updated;
   }
@@ -197,20 +345,31 @@ export class DbStorage implements IStorage {
     }
   }
 
-  async createMessage(message: InsertMessage): Promise<Message> {
+  // ledgerVersionIds are versions written while the reply streamed; they are linked to it in the same transaction
+  async createMessage(message: InsertMessage, ledgerVersionIds: number[] = []): Promise<Message> {
     // Neon HTTP driver bug: null integers serialize as "" causing DB errors.
-    // Omit parentMessageId entirely when null so PostgreSQL uses its default (NULL).
+    // Omit nullable integers entirely when null so PostgreSQL uses its default (NULL).
     const values: Record<string, unknown> = { ...message };
     if (values.parentMessageId == null) {
       delete values.parentMessageId;
     }
-    await db.insert(messages).values(values as typeof message);
-    const [newMessage] = await db
-      .select()
-      .from(messages)
-      .where(eq(messages.conversationId, message.conversationId))
-      .orderBy(desc(messages.id))
-      .limit(1);
+    if (values.latencyMs == null) {
+      delete values.latencyMs;
+    }
+    // A batch runs as one transaction, so currval is the id just assigned to this message,
+    // even while other replies to the same conversation are being saved
+    const insertedId = sql<number>`currval(pg_get_serial_sequence('messages', 'id'))`;
+    const insertMessage = db.insert(messages).values(values as typeof message);
+    const selectMessage = db.select().from(messages).where(eq(messages.id, insertedId));
+    const [newMessage] = ledgerVersionIds.length > 0
+      ? (await db.batch([
+          insertMessage,
+          db.update(ledgerVersions)
+            .set({ createdFromMessageId: insertedId })
+            .where(inArray(ledgerVersions.id, ledgerVersionIds)),
+          selectMessage,
+        ]))[2]
+      : (await db.batch([insertMessage, selectMessage]))[1];
     if (!newMessage) throw new Error("Failed to retrieve created message");
     
     const conversation = await this.getConversation(message.conversationId);
@@ -229,29 +388,89 @@ export class DbStorage implements IStorage {
     await db.update(messages).set({ content }).where(eq(messages.id, id));
   }
 
+  async updateMessageStopReason(id: number, stopReason: string | null): Promise<void> {
+    await db.update(messages).set({ stopReason }).where(eq(messages.id, id));
+  }
+
   async updateMessageThreadDraft(id: number, threadDraft: string | null): Promise<void> {
     await db.update(messages).set({ threadDraft }).where(eq(messages.id, id));
   }
 
+  async searchMessages(query: string, limit: number): Promise<Array<{ message: Message; conversationTitle: string }>> {
+    const pattern = containsPattern(query);
+    try {
+      return await db
+        .select({ message: messages, conversationTitle: conversations.title })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(ilike(messages.content, pattern))
+        .orderBy(desc(messages.createdAt))
+        .limit(limit);
+    } catch {
+      return [];
+    }
+  }
+
   // Project Files
   async getProjectFiles(projectId: number): Promise<ProjectFile[]> {
     return await db.select().from(projectFiles).where(eq(projectFiles.projectId, projectId)).orderBy(projectFiles.createdAt);
   }
 
+  async getProjectFileSummaries(projectId: number): Promise<ProjectFileSummary[]> {
+    return await db
+      .select({
+        ...projectFileSummaryColumns,
+        extractedChars: sql<number | null>`char_length(${projectFiles.extractedText})`.mapWith((value) => value === null ? null : Number(value)),
+      })
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, projectId))
+      .orderBy(projectFiles.createdAt);
+  }
+
   async getProjectFile(id: number): Promise<ProjectFile | undefined> {
     const result = await db.select().from(projectFiles).where(eq(projectFiles.id, id)).limit(1);
     return result[0];
   }
 
-  async createProjectFile(file: InsertProjectFile): Promise<ProjectFile> {
-    await db.insert(projectFiles).values(file);
-    const [newFile] = await db.select().from(projectFiles).where(eq(projectFiles.projectId, file.projectId)).orderBy(desc(projectFiles.id)).limit(1);
-    if (!newFile) throw new Error("Failed to retrieve created project file");
-    return newFile;
+  async getProjectFilesByHash(contentHash: string): Promise<ProjectFile[]> {
+    return await db.select().from(projectFiles).where(eq(projectFiles.contentHash, contentHash)).orderBy(projectFiles.id);
+  }
+
+  // The bytes are stored once per content hash, so a second project uploading the same file adds only its row.
+  // Content the project already has leaves the existing row in place and returns it as a duplicate.
+  async createProjectFile(file: InsertProjectFile, data: string): Promise<{ file: ProjectFile; duplicate: boolean }> {
+    const [, inserted, [storedFile]] = await db.batch([
+      db.insert(fileBlobs).values({ contentHash: file.contentHash, data, size: file.size }).onConflictDoNothing(),
+      db.insert(projectFiles).values(file).onConflictDoNothing({ target: [projectFiles.projectId, projectFiles.contentHash] }),
+      db.select().from(projectFiles).where(and(eq(projectFiles.projectId, file.projectId), eq(projectFiles.contentHash, file.contentHash))),
+    ]);
+    if (!storedFile) throw new Error("Failed to retrieve created project file");
+    return { file: storedFile, duplicate: inserted.rowCount === 0 };
   }
 
   async deleteProjectFile(id: number): Promise<void> {
-    await db.delete(projectFiles).where(eq(projectFiles.id, id));
+    await db.batch([
+      db.delete(projectFiles).where(eq(projectFiles.id, id)),
+      pruneFileBlobs(),
+    ]);
+  }
+
+  async getFileBlob(contentHash: string): Promise<FileBlob | undefined> {
+    const result = await db.select().from(fileBlobs).where(eq(fileBlobs.contentHash, contentHash)).limit(1);
+    return result[0];
+  }
+
+  // Uploads from before files were stored in the database, whose bytes are still in uploads/
+  async getUnstoredProjectFiles(): Promise<ProjectFile[]> {
+    return await db.select().from(projectFiles).where(isNull(projectFiles.contentHash)).orderBy(projectFiles.id);
+  }
+
+  async storeProjectFileContent(id: number, content: ProjectFileContent, data: string, size: number): Promise<void> {
+    if (!content.contentHash) throw new Error("Stored project file content needs a hash");
+    await db.batch([
+      db.insert(fileBlobs).values({ contentHash: content.contentHash, data, size }).onConflictDoNothing(),
+      db.update(projectFiles).set({ ...content, filename: content.contentHash, size }).where(eq(projectFiles.id, id)),
+    ]);
   }
 
   // Message Files
@@ -305,6 +524,105 @@ export class DbStorage implements IStorage {
     return this.getSettings();
   }
 
+  // Models
+  async getModels(): Promise<Model[]> {
+    try {
+      return await db.select().from(models).orderBy(models.sortOrder, models.label);
+    } catch {
+      return [];
+    }
+  }
+
+  // Fills an empty registry with the defaults once per database; an existing registry is left as it is
+  async seedDefaultModels(): Promise<void> {
+    const current = await this.getSettings();
+    if (current.modelsSeeded) return;
+    const [existing] = await db.select({ id: models.id }).from(models).limit(1);
+    await db.batch([
+      db.update(settings).set({ modelsSeeded: true }).where(eq(settings.id, current.id)),
+      ...(existing ? [] : DEFAULT_MODELS.map((model) => db.insert(models).values(withCachePricing(model)).onConflictDoNothing())),
+    ]);
+  }
+
+  async getModel(id: string): Promise<Model | undefined> {
+    const all = await this.getModels();
+    return all.find(m => m.id === id);
+  }
+
+  async createModel(model: InsertModel): Promise<Model> {
+    await db.insert(models).values(withCachePricing(model));
+    const [newModel] = await db.select().from(models).where(eq(models.id, model.id)).limit(1);
+    if (!newModel) throw new Error("Failed to retrieve created model");
+    return newModel;
+  }
+
+  async updateModel(id: string, updates: Partial<InsertModel>): Promise<Model | undefined> {
+    await db
+      .update(models)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(models.id, id));
+    try {
+      const result = await db.select().from(models).where(eq(models.id, id)).limit(1);
+      return result[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  async deleteModel(id: string): Promise<void> {
+    await db.delete(models).where(eq(models.id, id));
+  }
+
+  // API Keys
+  async getApiKeys(): Promise<ApiKey[]> {
+    try {
+      return await db.select(apiKeyColumns).from(apiKeys).orderBy(desc(apiKeys.createdAt));
+    } catch {
+      return [];
+    }
+  }
+
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    try {
+      const result = await db.select(apiKeyColumns).from(apiKeys).where(eq(apiKeys.id, id)).limit(1);
+      return result[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  async getStoredApiKey(id: number): Promise<StoredApiKey | undefined> {
+    try {
+      const result = await db.select().from(apiKeys).where(eq(apiKeys.id, id)).limit(1);
+      return result[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  async createApiKey(key: Pick<StoredApiKey, "label" | "provider" | "encryptedKey" | "keyHint">): Promise<ApiKey> {
+    await db.insert(apiKeys).values(key);
+    const [newKey] = await db.select(apiKeyColumns).from(apiKeys).orderBy(desc(apiKeys.id)).limit(1);
+    if (!newKey) throw new Error("Failed to retrieve created api key");
+    return newKey;
+  }
+
+  async updateApiKey(id: number, updates: ApiKeyUpdates): Promise<ApiKey | undefined> {
+    await db
+      .update(apiKeys)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(apiKeys.id, id));
+    return this.getApiKey(id);
+  }
+
+  // Revoked keys keep their row for usage history; projects and conversations fall back to the next key
+  async revokeApiKey(id: number): Promise<ApiKey | undefined> {
+    await db.update(apiKeys).set({ revokedAt: new Date(), updatedAt: new Date() }).where(eq(apiKeys.id, id));
+    await db.update(projects).set({ apiKeyId: null }).where(eq(projects.apiKeyId, id));
+    await db.update(conversations).set({ apiKeyId: null }).where(eq(conversations.apiKeyId, id));
+    return this.getApiKey(id);
+  }
+
   // API Usage
   async recordApiUsage(usage: InsertApiUsage): Promise<ApiUsage> {
     await db.insert(apiUsage).values(usage);
@@ -388,10 +706,59 @@ export class DbStorage implements IStorage {
     return result.map(r => Number(r.cost));
   }
 
+  async getCacheUsageByModel(startDate: Date): Promise<{ model: string; cacheWriteTokens: number; cacheReadTokens: number }[]> {
+    const result = await db
+      .select({
+        model: apiUsage.model,
+        cacheWriteTokens: sql<number>`COALESCE(SUM(${apiUsage.cacheWriteTokens}), 0)`,
+        cacheReadTokens: sql<number>`COALESCE(SUM(${apiUsage.cacheReadTokens}), 0)`,
+      })
+      .from(apiUsage)
+      .where(gte(apiUsage.createdAt, startDate))
+      .groupBy(apiUsage.model);
+
+    return result.map(r => ({
+      model: r.model,
+      cacheWriteTokens: Number(r.cacheWriteTokens),
+      cacheReadTokens: Number(r.cacheReadTokens),
+    }));
+  }
+
+  async getUsageByApiKey(startDate: Date): Promise<{ apiKeyId: number | null; cost: number }[]> {
+    const result = await db
+      .select({
+        apiKeyId: apiUsage.apiKeyId,
+        cost: sql<number>`COALESCE(SUM(${apiUsage.costUsd}), 0)`
+      })
+      .from(apiUsage)
+      .where(gte(apiUsage.createdAt, startDate))
+      .groupBy(apiUsage.apiKeyId);
+
+    return result.map(r => ({ apiKeyId: r.apiKeyId, cost: Number(r.cost) }));
+  }
+
   // Ledgers
-  async getLedgers(): Promise<Ledger[]> {
+  async getLedgers(filter: LedgerListFilter = {}): Promise<Ledger[]> {
     try {
-      return await db.select().from(ledgers).orderBy(desc(ledgers.updatedAt));
+      const conditions = [];
+      if (filter.conversationId !== undefined) conditions.push(eq(ledgers.conversationId, filter.conversationId));
+      if (filter.projectId !== undefined) conditions.push(eq(ledgers.projectId, filter.projectId));
+      conditions.push(filter.archived ? isNotNull(ledgers.archivedAt) : isNull(ledgers.archivedAt));
+      if (filter.types?.length) conditions.push(inArray(ledgers.type, filter.types));
+      if (filter.updatedSince) conditions.push(gte(ledgers.updatedAt, filter.updatedSince));
+      if (filter.query) {
+        const latestContent = sql`coalesce((
+          select ${ledgerVersions.content} from ${ledgerVersions}
+          where ${ledgerVersions.ledgerId} = ${ledgers.id}
+          order by ${ledgerVersions.versionNumber} desc limit 1
+        ), '')`;
+        // websearch_to_tsquery never throws on user input; ilike still catches partial words in titles
+        conditions.push(or(
+          sql`to_tsvector('english', ${ledgers.title} || ' ' || ${latestContent}) @@ websearch_to_tsquery('english', ${filter.query})`,
+          ilike(ledgers.title, containsPattern(filter.query)),
+        ));
+      }
+      return await db.select().from(ledgers).where(and(...conditions)).orderBy(desc(ledgers.pinned), desc(ledgers.updatedAt));
     } catch {
       return [];
     }
@@ -406,60 +773,56 @@ export class DbStorage implements IStorage {
     }
   }
 
-  async createLedger(ledger: InsertLedger, initialContent: string): Promise<{ ledger: Ledger; version: LedgerVersion }> {
-    await db.insert(ledgers).values({
-      title: ledger.title,
-      type: ledger.type,
-      metadataJson: (ledger.metadataJson ?? {}) as Record<string, unknown>,
-    });
-    const [newLedger] = await db.select().from(ledgers).orderBy(desc(ledgers.id)).limit(1);
-    if (!newLedger) throw new Error("Failed to retrieve created ledger");
-
-    await db.insert(ledgerVersions).values({
-      ledgerId: newLedger.id,
-      versionNumber: 1,
-      content: initialContent,
-    });
-    const [version] = await db.select().from(ledgerVersions)
-      .where(eq(ledgerVersions.ledgerId, newLedger.id))
-      .orderBy(desc(ledgerVersions.id))
-      .limit(1);
+  async createLedger(ledger: InsertLedger, initialContent: string, messageId?: number | null, metadata: LedgerVersionMetadata = {}): Promise<{ ledger: Ledger; version: LedgerVersion }> {
+    // Ledger and first version are written in one transaction so a ledger never exists without content;
+    // currval is the id the first insert just assigned, whatever other ledgers are being created at the same time
+    const insertedId = sql<number>`currval(pg_get_serial_sequence('ledgers', 'id'))`;
+    const [, , [newLedger], [version]] = await db.batch([
+      db.insert(ledgers).values({
+        title: ledger.title,
+        type: ledger.type,
+        metadataJson: (ledger.metadataJson ?? {}) as Record<string, unknown>,
+        // Omitted when null (Neon HTTP null integer bug)
+        ...(ledger.conversationId != null ? { conversationId: ledger.conversationId } : {}),
+        ...(ledger.projectId != null ? { projectId: ledger.projectId } : {}),
+      }),
+      db.insert(ledgerVersions).values({
+        ledgerId: insertedId,
+        versionNumber: 1,
+        content: initialContent,
+        metadataJson: metadata,
+        // Omitted when null (Neon HTTP null integer bug)
+        ...(messageId != null ? { createdFromMessageId: messageId } : {}),
+      }),
+      db.select().from(ledgers).where(eq(ledgers.id, insertedId)),
+      db.select().from(ledgerVersions).where(eq(ledgerVersions.ledgerId, insertedId)),
+    ]);
+    if (!newLedger || !version) throw new Error("Failed to retrieve created ledger");
 
     return { ledger: newLedger, version };
   }
 
-  async addLedgerVersion(ledgerId: number, content: string, messageId?: number | null): Promise<LedgerVersion> {
-    const maxResult = await db
-      .select({ maxVersion: max(ledgerVersions.versionNumber) })
-      .from(ledgerVersions)
-      .where(eq(ledgerVersions.ledgerId, ledgerId));
-    const nextVersion = (maxResult[0]?.maxVersion ?? 0) + 1;
-
-    const versionValues: typeof ledgerVersions.$inferInsert = {
-      ledgerId,
-      versionNumber: nextVersion,
-      content,
-    };
-    if (messageId != null) {
-      versionValues.createdFromMessageId = messageId;
+  // The number is picked inside the insert; a revision saved at the same moment makes it try again
+  async addLedgerVersion(ledgerId: number, content: string, messageId?: number | null, metadata: LedgerVersionMetadata = {}): Promise<LedgerVersion> {
+    const nextVersion = sql<number>`(select coalesce(max(${ledgerVersions.versionNumber}), 0) + 1 from ${ledgerVersions} where ${ledgerVersions.ledgerId} = ${ledgerId})`;
+    for (let attempt = 0; attempt < LEDGER_VERSION_ATTEMPTS; attempt++) {
+      const version = await insertLedgerVersion(ledgerId, nextVersion, content, messageId, metadata);
+      if (version) return version;
     }
-    await db.insert(ledgerVersions).values(versionValues);
-
-    const [version] = await db.select().from(ledgerVersions)
-      .where(eq(ledgerVersions.ledgerId, ledgerId))
-      .orderBy(desc(ledgerVersions.id))
-      .limit(1);
-
-    await db.update(ledgers).set({ updatedAt: new Date() }).where(eq(ledgers.id, ledgerId));
+    throw new Error(`Failed to add a version to ledger ${ledgerId}`);
+  }
 
-    return version;
+  // Saves baseVersion + 1 only if that number is still free; null when another version got there first
+  async addLedgerVersionAfter(ledgerId: number, baseVersion: number, content: string, messageId?: number | null, metadata: LedgerVersionMetadata = {}): Promise<LedgerVersion | null> {
+    return await insertLedgerVersion(ledgerId, baseVersion + 1, content, messageId, metadata) ?? null;
   }
 
-  async getLedgerVersions(ledgerId: number): Promise<LedgerVersion[]> {
+  async getLedgerVersions(ledgerId: number): Promise<LedgerVersionWithSource[]> {
     try {
       return await db
-        .select()
+        .select({ ...getTableColumns(ledgerVersions), conversationId: messages.conversationId })
         .from(ledgerVersions)
+        .leftJoin(messages, eq(messages.id, ledgerVersions.createdFromMessageId))
         .where(eq(ledgerVersions.ledgerId, ledgerId))
         .orderBy(desc(ledgerVersions.versionNumber));
     } catch {
@@ -481,10 +844,180 @@ export class DbStorage implements IStorage {
     }
   }
 
+  async getLedgerVersion(ledgerId: number, versionNumber: number): Promise<LedgerVersion | undefined> {
+    try {
+      const result = await db
+        .select()
+        .from(ledgerVersions)
+        .where(and(eq(ledgerVersions.ledgerId, ledgerId), eq(ledgerVersions.versionNumber, versionNumber)))
+        .limit(1);
+      return result[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  async updateLedger(id: number, updates: LedgerUpdates): Promise<Ledger | undefined> {
+    const { archived, ...fields } = updates;
+    const values: Partial<typeof ledgers.$inferInsert> = { ...fields };
+    if (archived !== undefined) values.archivedAt = archived ? new Date() : null;
+    // Renames and retyping count as an update; pinning and archiving keep the list order stable
+    if (fields.title !== undefined || fields.type !== undefined) values.updatedAt = new Date();
+    if (Object.keys(values).length > 0) {
+      await db.update(ledgers).set(values).where(eq(ledgers.id, id));
+    }
+    return this.getLedger(id);
+  }
+
+  // Versions go with the ledger (cascade); messages keep a tombstone chip in place of each sentinel
+  async deleteLedger(id: number): Promise<void> {
+    const referencing = await db
+      .select({ id: messages.id, content: messages.content })
+      .from(messages)
+      .where(like(messages.content, `%<ledger-ref id="${id}" %`));
+
+    await db.batch([
+      db.delete(ledgers).where(eq(ledgers.id, id)),
+      ...referencing.map((message) =>
+        db.update(messages)
+          .set({ content: tombstoneLedgerRefs(message.content, id) })
+          .where(eq(messages.id, message.id))
+      ),
+    ]);
+  }
+
+  // The ledgers a reply is told about, and the only ones its <ledger id> blocks and tools may touch
+  async getScopedLedgers(scope: LedgerScope): Promise<Array<Ledger & { latestVersion: number }>> {
+    try {
+      const result = await db
+        .select({ ...getTableColumns(ledgers), latestVersion: max(ledgerVersions.versionNumber) })
+        .from(ledgers)
+        .innerJoin(ledgerVersions, eq(ledgerVersions.ledgerId, ledgers.id))
+        .where(ledgerScopeCondition(scope))
+        .groupBy(ledgers.id)
+        .orderBy(desc(ledgers.updatedAt));
+
+      return result.map(r => ({ ...r, latestVersion: r.latestVersion ?? 1 }));
+    } catch {
+      return [];
+    }
+  }
+
+  async getScopedLedger(id: number, scope: LedgerScope): Promise<Ledger | undefined> {
+    try {
+      const result = await db.select().from(ledgers).where(and(eq(ledgers.id, id), ledgerScopeCondition(scope))).limit(1);
+      return result[0];
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Ledgers from before scoping get the chat of the message that wrote their first version;
+  // safe to run on every start since only unscoped ledgers are touched
+  async backfillLedgerScopes(): Promise<void> {
+    const firstSources = db
+      .selectDistinctOn([ledgerVersions.ledgerId], {
+        ledgerId: ledgerVersions.ledgerId,
+        conversationId: messages.conversationId,
+        projectId: conversations.projectId,
+      })
+      .from(ledgerVersions)
+      .innerJoin(messages, eq(messages.id, ledgerVersions.createdFromMessageId))
+      .innerJoin(conversations, eq(conversations.id, messages.conversationId))
+      .orderBy(ledgerVersions.ledgerId, ledgerVersions.versionNumber)
+      .as("first_sources");
+
+    await db
+      .update(ledgers)
+      .set({
+        conversationId: sql`${firstSources.conversationId}`,
+        projectId: sql`${firstSources.projectId}`,
+      })
+      .from(firstSources)
+      .where(and(eq(ledgers.id, firstSources.ledgerId), isNull(ledgers.conversationId)));
+  }
+
+  // Apps
+  async getApps(): Promise<App[]> {
+    try {
+      return await db.select().from(apps).orderBy(desc(apps.createdAt));
+    } catch {
+      return [];
+    }
+  }
+
+  async getApp(id: number): Promise<App | undefined> {
+    const result = await db.select().from(apps).where(eq(apps.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getAppBySlug(slug: string): Promise<App | undefined> {
+    const result = await db.select().from(apps).where(eq(apps.slug, slug)).limit(1);
+    return result[0];
+  }
+
+  // The slug gets a numeric suffix when another app already has it
+  async createApp(app: InsertApp): Promise<App> {
+    const taken = new Set(
+      (await db.select({ slug: apps.slug }).from(apps).where(like(apps.slug, `${app.slug}%`))).map((row) => row.slug),
+    );
+    let slug = app.slug;
+    for (let n = 2; taken.has(slug); n++) {
+      slug = `${app.slug}-${n}`;
+    }
+
+    const { ledgerId, ...values } = app;
+    await db.insert(apps).values({
+      ...values,
+      slug,
+      // Omitted when null (Neon HTTP null integer bug)
+      ...(ledgerId != null ? { ledgerId } : {}),
+    });
+    const created = await this.getAppBySlug(slug);
+    if (!created) throw new Error("Failed to retrieve created app");
+    return created;
+  }
+
+  async deleteApp(id: number): Promise<void> {
+    await db.delete(apps).where(eq(apps.id, id));
+  }
+
+  async getAppKvEntries(appId: number): Promise<AppKvEntry[]> {
+    return await db.select().from(appKv).where(eq(appKv.appId, appId)).orderBy(appKv.key);
+  }
+
+  async getAppKvEntry(appId: number, key: string): Promise<AppKvEntry | undefined> {
+    const result = await db.select().from(appKv).where(and(eq(appKv.appId, appId), eq(appKv.key, key))).limit(1);
+    return result[0];
+  }
+
+  async setAppKvValue(appId: number, key: string, value: unknown): Promise<AppKvEntry> {
+    await db
+      .insert(appKv)
+      .values({ appId, key, value })
+      .onConflictDoUpdate({ target: [appKv.appId, appKv.key], set: { value, updatedAt: new Date() } });
+    const entry = await this.getAppKvEntry(appId, key);
+    if (!entry) throw new Error("Failed to retrieve saved value");
+    return entry;
+  }
+
+  async deleteAppKvValue(appId: number, key: string): Promise<void> {
+    await db.delete(appKv).where(and(eq(appKv.appId, appId), eq(appKv.key, key)));
+  }
+
   // Bulk operations
   async deleteAllConversations(): Promise<void> {
     await db.delete(conversations);
   }
 }
 
+// Anthropic prices cache writes at 1.25x and cache reads at 0.1x the input rate
+function withCachePricing(model: InsertModel): InsertModel {
+  return {
+    ...model,
+    cacheWritePer1M: model.cacheWritePer1M ?? model.inputPer1M * 1.25,
+    cacheReadPer1M: model.cacheReadPer1M ?? model.inputPer1M * 0.1,
+  };
+}
+
 export const storage = new DbStorage();
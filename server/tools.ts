@@ -0,0 +1,266 @@
+import type Anthropic from "@anthropic-ai/sdk";
+import { CODE_TEMPLATES, LEDGER_TYPES, type Ledger, type LedgerType, type LedgerVersionMetadata } from "@shared/schema";
+import { buildCodeSpec, serializeCodeFiles } from "@shared/ledgerParser";
+import { storage } from "./storage";
+
+// Tool results are sent back to Claude verbatim; keep them well inside the context window
+const MAX_TOOL_RESULT_CHARS = 20000;
+
+export interface ToolContext {
+  conversationId: number;
+  projectId: number | null;
+  // Told about every ledger version a tool writes, so it can be linked to the reply once that is saved
+  onLedgerVersion?: (versionId: number) => void;
+}
+
+export interface ChatTool {
+  name: string;
+  description: string;
+  inputSchema: Anthropic.Tool.InputSchema;
+  handler: (input: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
+
+export interface ToolExecutionResult {
+  content: string;
+  isError: boolean;
+}
+
+/**
+ * Tools Claude may call during a chat reply. Register a ChatTool to expose it;
+ * /api/chat sends every registered tool and runs the handlers when Claude asks for them.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, ChatTool>();
+
+  register(tool: ChatTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  list(): ChatTool[] {
+    return Array.from(this.tools.values());
+  }
+
+  toAnthropicTools(): Anthropic.Tool[] {
+    return this.list().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.inputSchema,
+    }));
+  }
+
+  // Never throws: failures become error results so Claude can see them and recover
+  async execute(name: string, input: unknown, context: ToolContext): Promise<ToolExecutionResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { content: `Unknown tool: ${name}`, isError: true };
+    }
+    try {
+      const result = await tool.handler((input ?? {}) as Record<string, unknown>, context);
+      const content = typeof result === "string" ? result : JSON.stringify(result, null, 2);
+      return {
+        content: content.length > MAX_TOOL_RESULT_CHARS
+          ? `${content.slice(0, MAX_TOOL_RESULT_CHARS)}\n[truncated]`
+          : content,
+        isError: false,
+      };
+    } catch (error) {
+      return { content: error instanceof Error ? error.message : String(error), isError: true };
+    }
+  }
+}
+
+export const toolRegistry = new ToolRegistry();
+
+function requireString(input: Record<string, unknown>, key: string): string {
+  const value = input[key];
+  if (typeof value !== "string" || !value.trim()) {
+    throw new Error(`"${key}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function requireInteger(input: Record<string, unknown>, key: string): number {
+  const value = input[key];
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    throw new Error(`"${key}" must be an integer`);
+  }
+  return value;
+}
+
+function optionalString(input: Record<string, unknown>, key: string): string | undefined {
+  return input[key] === undefined ? undefined : requireString(input, key);
+}
+
+function optionalStringRecord(input: Record<string, unknown>, key: string): Record<string, string> | undefined {
+  const value = input[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "object" || value === null || Array.isArray(value)
+    || Object.values(value).some((item) => typeof item !== "string")) {
+    throw new Error(`"${key}" must be an object of strings`);
+  }
+  return value as Record<string, string>;
+}
+
+// Same scope as list_ledgers, so the model can't reach ledgers of other chats or projects by guessing ids
+async function requireScopedLedger(id: number, context: ToolContext): Promise<Ledger> {
+  const ledger = await storage.getScopedLedger(id, context);
+  if (!ledger) throw new Error(`Ledger ${id} not found`);
+  return ledger;
+}
+
+// Content and version metadata for write_ledger; code setup fields only apply to code ledgers
+function readLedgerContent(input: Record<string, unknown>, type: string): { content: string; metadata: LedgerVersionMetadata } {
+  const files = optionalStringRecord(input, "files");
+  const dependencies = optionalStringRecord(input, "dependencies");
+  const template = optionalString(input, "template");
+  const entry = optionalString(input, "entry");
+  if (type !== "code" || (!files && !dependencies && template === undefined && entry === undefined)) {
+    return { content: requireString(input, "content"), metadata: {} };
+  }
+  if (template !== undefined && !(CODE_TEMPLATES as readonly string[]).includes(template)) {
+    throw new Error(`"template" must be one of: ${CODE_TEMPLATES.join(", ")}`);
+  }
+  if (files && Object.keys(files).length === 0) {
+    throw new Error(`"files" must not be empty`);
+  }
+  const code = buildCodeSpec({ template, entry, dependencies }, files ?? requireString(input, "content"));
+  return { content: serializeCodeFiles(code.files), metadata: { code } };
+}
+
+toolRegistry.register({
+  name: "list_ledgers",
+  description: "List saved ledgers (artifacts such as code, reports, plans, notes and drafts) with their ids, types and titles. Covers the current project, or just this conversation when it isn't in one.",
+  inputSchema: { type: "object", properties: {} },
+  handler: async (_input, context) => {
+    const scopedLedgers = await storage.getScopedLedgers(context);
+    return scopedLedgers.map((ledger) => ({
+      id: ledger.id,
+      type: ledger.type,
+      title: ledger.title,
+      updatedAt: ledger.updatedAt,
+    }));
+  },
+});
+
+toolRegistry.register({
+  name: "read_ledger",
+  description: "Read the latest version of a ledger by id.",
+  inputSchema: {
+    type: "object",
+    properties: { id: { type: "integer", description: "Ledger id" } },
+    required: ["id"],
+  },
+  handler: async (input, context) => {
+    const id = requireInteger(input, "id");
+    const ledger = await requireScopedLedger(id, context);
+    const version = await storage.getLatestLedgerVersion(id);
+    return {
+      id: ledger.id,
+      type: ledger.type,
+      title: ledger.title,
+      version: version?.versionNumber ?? null,
+      content: version?.content ?? "",
+      // Files are already in content as <file> elements
+      ...(version?.metadataJson.code ? {
+        template: version.metadataJson.code.template,
+        entry: version.metadataJson.code.entry,
+        dependencies: version.metadataJson.code.dependencies,
+      } : {}),
+    };
+  },
+});
+
+toolRegistry.register({
+  name: "write_ledger",
+  description: "Create a new ledger, or save a new version of an existing ledger when id is given. The content replaces the previous version in full.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: { type: "integer", description: "Existing ledger id to revise; omit to create a new ledger" },
+      type: { type: "string", enum: [...LEDGER_TYPES], description: "Ledger type (required when creating)" },
+      title: { type: "string", description: "Short descriptive title (required when creating)" },
+      content: { type: "string", description: "Full ledger content (not needed when files is given)" },
+      template: { type: "string", enum: [...CODE_TEMPLATES], description: "Code ledgers: sandbox template to run in (default react)" },
+      files: {
+        type: "object",
+        additionalProperties: { type: "string" },
+        description: "Code ledgers: every file as path → source, e.g. {\"/index.html\": \"...\", \"/src/index.js\": \"...\"}",
+      },
+      entry: { type: "string", description: "Code ledgers: path of the file shown first" },
+      dependencies: {
+        type: "object",
+        additionalProperties: { type: "string" },
+        description: "Code ledgers: npm packages as name → version range",
+      },
+    },
+  },
+  handler: async (input, context) => {
+    if (input.id !== undefined) {
+      const id = requireInteger(input, "id");
+      const ledger = await requireScopedLedger(id, context);
+      const { content, metadata } = readLedgerContent(input, ledger.type);
+      const version = await storage.addLedgerVersion(id, content, null, metadata);
+      context.onLedgerVersion?.(version.id);
+      return { id, title: ledger.title, version: version.versionNumber };
+    }
+    const type = requireString(input, "type");
+    if (!(LEDGER_TYPES as readonly string[]).includes(type)) {
+      throw new Error(`"type" must be one of: ${LEDGER_TYPES.join(", ")}`);
+    }
+    const { content, metadata } = readLedgerContent(input, type);
+    const { ledger, version } = await storage.createLedger(
+      { title: requireString(input, "title"), type: type as LedgerType, conversationId: context.conversationId, projectId: context.projectId },
+      content,
+      null,
+      metadata,
+    );
+    context.onLedgerVersion?.(version.id);
+    return { id: ledger.id, title: ledger.title, version: version.versionNumber };
+  },
+});
+
+toolRegistry.register({
+  name: "list_project_files",
+  description: "List the files attached to the project this conversation belongs to.",
+  inputSchema: { type: "object", properties: {} },
+  handler: async (_input, context) => {
+    if (!context.projectId) return "This conversation is not part of a project.";
+    const files = await storage.getProjectFileSummaries(context.projectId);
+    return files.map((file) => ({
+      id: file.id,
+      name: file.originalName,
+      mimeType: file.mimeType,
+      size: file.size,
+      extractedChars: file.extractedChars,
+    }));
+  },
+});
+
+toolRegistry.register({
+  name: "search_conversations",
+  description: "Search past conversation messages for text. Returns matching snippets with their conversation titles.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: { type: "string", description: "Text to search for (case-insensitive)" },
+      limit: { type: "integer", description: "Maximum results (default 10, max 25)" },
+    },
+    required: ["query"],
+  },
+  handler: async (input) => {
+    const query = requireString(input, "query");
+    const limit = typeof input.limit === "number" ? Math.min(Math.max(Math.floor(input.limit), 1), 25) : 10;
+    const results = await storage.searchMessages(query, limit);
+    return results.map(({ message, conversationTitle }) => {
+      const index = message.content.toLowerCase().indexOf(query.toLowerCase());
+      const start = Math.max(0, index - 150);
+      return {
+        conversationId: message.conversationId,
+        conversationTitle,
+        messageId: message.id,
+        role: message.role,
+        snippet: message.content.slice(start, start + 400),
+      };
+    });
+  },
+});
@@ -0,0 +1,226 @@
+import { CODE_TEMPLATES, CODE_TEMPLATE_ENTRIES, type CodeLedgerSpec, type CodeTemplate } from "./schema";
+
+export interface ParsedLedger {
+  type: string;
+  title: string;
+  content: string;
+  // Set when the block revises an existing ledger; type and title may then be omitted
+  id?: number;
+  // Set when the block declares a template, entry, dependencies or files
+  code?: CodeLedgerSpec;
+}
+
+interface LedgerAttributes {
+  type?: string;
+  title?: string;
+  id?: string;
+  version?: string;
+  template?: string;
+  entry?: string;
+  dependencies?: string;
+  path?: string;
+  deleted?: string;
+}
+
+function extractAttributes(attrStr: string): LedgerAttributes {
+  // \b keeps a name from matching inside a longer attribute name
+  const read = (name: string) => attrStr.match(new RegExp(`\\b${name}="([^"]+)"`))?.[1];
+  return {
+    type: read("type"),
+    title: read("title"),
+    id: read("id"),
+    version: read("version"),
+    template: read("template"),
+    entry: read("entry"),
+    dependencies: read("dependencies"),
+    path: read("path"),
+    deleted: read("deleted"),
+  };
+}
+
+function parseId(value?: string): number | undefined {
+  const id = value ? parseInt(value, 10) : NaN;
+  return isNaN(id) ? undefined : id;
+}
+
+export function parseLedgerBlocks(text: string): {
+  visibleText: string;
+  completeLedgers: ParsedLedger[];
+} {
+  const completeLedgers: ParsedLedger[] = [];
+
+  const afterComplete = text.replace(
+    /<ledger\s([^>]+)>([\s\S]*?)<\/ledger>/g,
+    (_match, attrs, content) => {
+      const { type, title, id } = extractAttributes(attrs);
+      const ledgerId = parseId(id);
+      if (ledgerId !== undefined || (type && title)) {
+        completeLedgers.push({
+          type: type ?? "",
+          title: title ?? "",
+          content: content.trim(),
+          id: ledgerId,
+          code: parseCodeSpec(attrs, content),
+        });
+      }
+      return "";
+    }
+  );
+
+  // Sentinels from an earlier save appear when a stored reply is continued
+  const afterRefs = afterComplete.replace(/<ledger-ref\s[^/]+\/>/g, "");
+  const afterPartial = afterRefs.replace(/<ledger[\s\S]*$/, "");
+  const visibleText = afterPartial.replace(/\n{3,}/g, "\n\n").trim();
+
+  return { visibleText, completeLedgers };
+}
+
+const FILE_PATTERN = /<file\s+path="([^"]+)"\s*>([\s\S]*?)<\/file>/g;
+
+function normalizePath(path: string): string {
+  return path.startsWith("/") ? path : `/${path}`;
+}
+
+// "lodash@^4.17.0 @scope/pkg@2, dayjs" → { lodash: "^4.17.0", "@scope/pkg": "2", dayjs: "latest" }
+function parseDependencies(value?: string): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+  for (const spec of (value ?? "").split(/[\s,]+/).filter(Boolean)) {
+    // Past index 0 so a scoped package's leading @ isn't taken as the version separator
+    const at = spec.lastIndexOf("@");
+    if (at > 0) {
+      dependencies[spec.slice(0, at)] = spec.slice(at + 1) || "latest";
+    } else {
+      dependencies[spec] = "latest";
+    }
+  }
+  return dependencies;
+}
+
+export interface CodeSpecOptions {
+  template?: string;
+  entry?: string;
+  // Where a single file goes; defaults to the entry
+  path?: string;
+  dependencies?: Record<string, string>;
+}
+
+/**
+ * A complete code setup from whatever was declared. `files` is either a path → source map or the
+ * source of a single file; unknown templates fall back to react, and the entry defaults to the
+ * template's own entry when that file exists, else the first file.
+ */
+export function buildCodeSpec(options: CodeSpecOptions, files: Record<string, string> | string): CodeLedgerSpec {
+  const template: CodeTemplate = (CODE_TEMPLATES as readonly string[]).includes(options.template ?? "")
+    ? options.template as CodeTemplate
+    : "react";
+  const defaultEntry = CODE_TEMPLATE_ENTRIES[template];
+  const fileMap: Record<string, string> = typeof files === "string"
+    ? { [normalizePath(options.path ?? options.entry ?? defaultEntry)]: files }
+    : Object.fromEntries(Object.entries(files).map(([path, source]) => [normalizePath(path), source]));
+  const entry = options.entry
+    ? normalizePath(options.entry)
+    : defaultEntry in fileMap ? defaultEntry : Object.keys(fileMap)[0];
+
+  return { template, entry, files: fileMap, dependencies: options.dependencies ?? {} };
+}
+
+/**
+ * The runnable setup a code block declares: `template`, `entry` and `dependencies` attributes,
+ * and either nested `<file path="...">` elements or a single file named by `path`. Returns
+ * undefined when the block declares none of these, which keeps the plain React /App.js.
+ */
+export function parseCodeSpec(attrStr: string, content: string): CodeLedgerSpec | undefined {
+  const attrs = extractAttributes(attrStr);
+  const files: Record<string, string> = {};
+  for (const [, path, source] of Array.from(content.matchAll(FILE_PATTERN))) {
+    // Drop the newline after the opening tag but keep the code's indentation
+    files[path] = source.replace(/^\r?\n/, "").trimEnd();
+  }
+  const hasFiles = Object.keys(files).length > 0;
+  if (!hasFiles && !attrs.template && !attrs.entry && !attrs.dependencies && !attrs.path) return undefined;
+
+  return buildCodeSpec(
+    { ...attrs, dependencies: parseDependencies(attrs.dependencies) },
+    hasFiles ? files : content.trim(),
+  );
+}
+
+/** Version content for a files map: the source itself for one file, `<file>` elements for several. */
+export function serializeCodeFiles(files: Record<string, string>): string {
+  const entries = Object.entries(files);
+  if (entries.length === 1) return entries[0][1];
+  return entries.map(([path, source]) => `<file path="${path}">\n${source}\n</file>`).join("\n\n");
+}
+
+export interface LedgerChipInfo {
+  id: number;
+  title: string;
+  type: string;
+  // Version the reply wrote; older sentinels don't record it
+  version?: number;
+  // The ledger was deleted; the chip stays as a tombstone
+  deleted?: boolean;
+}
+
+export function buildSentinelContent(
+  rawContent: string,
+  ledgerSlots: Array<LedgerChipInfo | null>
+): string {
+  let slotIdx = 0;
+  // Replace each <ledger> block in order, using the corresponding slot by position.
+  // If a slot is null (save failed), keep the original XML so it degrades to a legacy chip.
+  return rawContent.replace(/<ledger\s[^>]*>[\s\S]*?<\/ledger>/g, (match) => {
+    const slot = ledgerSlots[slotIdx++] ?? null;
+    if (!slot) return match;
+    const version = slot.version !== undefined ? ` version="${slot.version}"` : "";
+    return `<ledger-ref id="${slot.id}" type="${slot.type}" title="${slot.title}"${version}/>`;
+  });
+}
+
+// Marks every sentinel pointing at a deleted ledger, keeping its title for the tombstone chip
+export function tombstoneLedgerRefs(content: string, ledgerId: number): string {
+  return content.replace(/<ledger-ref\s([^/]+)\/>/g, (match, attrs) => {
+    const { id, deleted } = extractAttributes(attrs);
+    if (parseId(id) !== ledgerId || deleted) return match;
+    return `<ledger-ref ${attrs.trim()} deleted="true"/>`;
+  });
+}
+
+export function extractLedgerChips(content: string): {
+  chips: LedgerChipInfo[];
+  cleanContent: string;
+} {
+  const chips: LedgerChipInfo[] = [];
+
+  let cleanContent = content.replace(
+    /<ledger-ref\s([^/]+)\/>/g,
+    (_match, attrs) => {
+      const { id, type, title, version, deleted } = extractAttributes(attrs);
+      const numId = parseId(id);
+      if (numId !== undefined && type && title) {
+        chips.push({ id: numId, type, title, version: parseId(version), deleted: deleted === "true" });
+      }
+      return "";
+    }
+  );
+
+  cleanContent = cleanContent.replace(
+    /<ledger\s([^>]+)>([\s\S]*?)<\/ledger>/g,
+    (_match, attrs) => {
+      const { type, title, id } = extractAttributes(attrs);
+      const ledgerId = parseId(id);
+      if (ledgerId !== undefined) {
+        // An unsaved revision still points at the ledger it meant to revise
+        chips.push({ id: ledgerId, type: type ?? "", title: title ?? `Ledger #${ledgerId}` });
+      } else if (type && title) {
+        chips.push({ id: -1, type, title });
+      }
+      return "";
+    }
+  );
+
+  return {
+    chips,
+    cleanContent: cleanContent.replace(/\n{3,}/g, "\n\n").trim(),
+  };
+}
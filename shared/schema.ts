@@ -1,4 +1,4 @@
-import { pgTable, text, varchar, timestamp, integer, boolean, AnyPgColumn, real, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, AnyPgColumn, real, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,6 +6,9 @@ export const projects = pgTable("projects", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   name: varchar("name", { length: 255 }).notNull(),
   instructions: text("instructions"),
+  generationParams: jsonb("generation_params").$type<GenerationParams>(),
+  // Key that pays for this project's conversations unless a conversation picks its own
+  apiKeyId: integer("api_key_id").references((): AnyPgColumn => apiKeys.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -16,10 +19,102 @@ export const conversations = pgTable("conversations", {
   systemPrompt: text("system_prompt"),
   projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
   draft: text("draft"),
+  model: varchar("model", { length: 100 }),
+  generationParams: jsonb("generation_params").$type<GenerationParams>(),
+  apiKeyId: integer("api_key_id").references((): AnyPgColumn => apiKeys.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
+export const DEFAULT_MAX_TOKENS = 4096;
+export const MAX_OUTPUT_TOKENS = 64000;
+
+// Sampling overrides. An unset field inherits from the next level: request/conversation → project → global settings.
+export const generationParamsSchema = z.object({
+  temperature: z.number().min(0).max(1).optional(),
+  topP: z.number().min(0).max(1).optional(),
+  topK: z.number().int().min(1).max(500).optional(),
+  maxTokens: z.number().int().min(1).max(MAX_OUTPUT_TOKENS).optional(),
+  stopSequences: z.array(z.string().min(1)).max(8).optional(),
+});
+
+export type GenerationParams = z.infer<typeof generationParamsSchema>;
+
+// Later layers win; unset fields fall through to earlier ones
+export function mergeGenerationParams(...layers: Array<GenerationParams | null | undefined>): GenerationParams {
+  const merged: GenerationParams = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+  return merged;
+}
+
+export const toolCallRecordSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  input: z.unknown(),
+  result: z.string().optional(),
+  isError: z.boolean().optional(),
+});
+
+export type ToolCallRecord = z.infer<typeof toolCallRecordSchema>;
+
+export const COMPACTION_STRATEGIES = ["drop", "summarize", "strip-attachments"] as const;
+export type CompactionStrategy = typeof COMPACTION_STRATEGIES[number];
+
+// What the server removed from the history so a reply fit the model's context window
+export const compactionInfoSchema = z.object({
+  strategy: z.enum(COMPACTION_STRATEGIES),
+  droppedMessages: z.number(),
+  strippedAttachments: z.number(),
+  summary: z.string().optional(),
+  tokensBefore: z.number(),
+  tokensAfter: z.number(),
+});
+
+export type CompactionInfo = z.infer<typeof compactionInfoSchema>;
+
+// Which of the project's instructions and files went into a reply's request
+export const projectContextInfoSchema = z.object({
+  projectId: z.number(),
+  projectName: z.string(),
+  instructions: z.boolean(),
+  files: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    // Estimated tokens actually sent; 0 when omitted
+    tokens: z.number(),
+    status: z.enum(["included", "truncated", "omitted"]),
+    reason: z.string().optional(),
+  })),
+  budgetTokens: z.number(),
+  usedTokens: z.number(),
+});
+
+export type ProjectContextInfo = z.infer<typeof projectContextInfoSchema>;
+
+// A ledger version attached to a user message as context
+export const ledgerAttachmentSchema = z.object({
+  ledgerId: z.number().int(),
+  versionNumber: z.number().int(),
+});
+
+// Stored on the message with the title and type at send time, so the chip still reads right after a rename
+export const messageLedgerRefSchema = ledgerAttachmentSchema.extend({
+  title: z.string(),
+  type: z.string(),
+});
+
+export type LedgerAttachment = z.infer<typeof ledgerAttachmentSchema>;
+export type MessageLedgerRef = z.infer<typeof messageLedgerRefSchema>;
+
+export const MAX_ATTACHED_LEDGERS = 10;
+
 export const messages = pgTable("messages", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   conversationId: integer("conversation_id").notNull().references(() => conversations.id, { onDelete: "cascade" }),
@@ -27,20 +122,52 @@ export const messages = pgTable("messages", {
   role: varchar("role", { length: 20 }).notNull(),
   content: text("content").notNull(),
   model: varchar("model", { length: 100 }),
+  stopReason: varchar("stop_reason", { length: 30 }),
+  thinking: text("thinking"),
+  toolCalls: jsonb("tool_calls").$type<ToolCallRecord[]>(),
+  compaction: jsonb("compaction").$type<CompactionInfo>(),
+  projectContext: jsonb("project_context").$type<ProjectContextInfo>(),
+  generationParams: jsonb("generation_params").$type<GenerationParams>(),
+  // What the reply cost and how long it took to generate, shown on compare columns
+  costUsd: real("cost_usd"),
+  latencyMs: integer("latency_ms"),
+  // Shared by the sibling replies of one compare send, so they render side by side
+  compareGroup: varchar("compare_group", { length: 36 }),
+  // Ledger versions sent with a user message; their content is re-read whenever the path is rebuilt
+  attachedLedgers: jsonb("attached_ledgers").$type<MessageLedgerRef[]>(),
   isThreadMessage: boolean("is_thread_message").notNull().default(false),
   threadDraft: text("thread_draft"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Uploaded bytes, stored once per distinct content however many projects hold the file
+export const fileBlobs = pgTable("file_blobs", {
+  // SHA-256 of the bytes, hex
+  contentHash: varchar("content_hash", { length: 64 }).primaryKey(),
+  // Base64, like message_files.file_data
+  data: text("data").notNull(),
+  size: integer("size").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const projectFiles = pgTable("project_files", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  // Name under which the content is stored: the content hash, or multer's name for files still on disk
   filename: varchar("filename", { length: 255 }).notNull(),
   originalName: varchar("original_name", { length: 255 }).notNull(),
   mimeType: varchar("mime_type", { length: 100 }).notNull(),
   size: integer("size").notNull(),
+  // Null only for uploads from before files were stored in the database, until they are backfilled
+  contentHash: varchar("content_hash", { length: 64 }).references(() => fileBlobs.contentHash),
+  // Text read out at upload (PDF, DOCX, markdown, code, CSV, JSON); this is what Claude gets for non-PDF documents
+  extractedText: text("extracted_text"),
+  // Why extraction failed, when it did
+  extractionError: text("extraction_error"),
+  // Small WebP data URL for images
+  thumbnail: text("thumbnail"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+}, (table) => [unique().on(table.projectId, table.contentHash)]);
 
 export const messageFiles = pgTable("message_files", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
@@ -57,6 +184,8 @@ export const messageFiles = pgTable("message_files", {
 export const insertProjectSchema = z.object({
   name: z.string().min(1, "Project name is required"),
   instructions: z.string().optional(),
+  generationParams: generationParamsSchema.nullable().optional(),
+  apiKeyId: z.number().nullable().optional(),
 });
 
 export const insertConversationSchema = z.object({
@@ -64,6 +193,9 @@ export const insertConversationSchema = z.object({
   systemPrompt: z.string().optional(),
   projectId: z.number().optional(),
   draft: z.string().nullable().optional(),
+  model: z.string().nullable().optional(),
+  generationParams: generationParamsSchema.nullable().optional(),
+  apiKeyId: z.number().nullable().optional(),
 });
 
 export const insertMessageSchema = z.object({
@@ -72,6 +204,16 @@ export const insertMessageSchema = z.object({
   role: z.string().min(1),
   content: z.string().min(1),
   model: z.string().optional(),
+  stopReason: z.string().nullable().optional(),
+  thinking: z.string().nullable().optional(),
+  toolCalls: z.array(toolCallRecordSchema).nullable().optional(),
+  compaction: compactionInfoSchema.nullable().optional(),
+  projectContext: projectContextInfoSchema.nullable().optional(),
+  generationParams: generationParamsSchema.nullable().optional(),
+  costUsd: z.number().nullable().optional(),
+  latencyMs: z.number().int().nullable().optional(),
+  compareGroup: z.string().nullable().optional(),
+  attachedLedgers: z.array(messageLedgerRefSchema).nullable().optional(),
   isThreadMessage: z.boolean().optional(),
   threadDraft: z.string().nullable().optional(),
 });
@@ -82,6 +224,10 @@ export const insertProjectFileSchema = z.object({
   originalName: z.string().min(1),
   mimeType: z.string().min(1),
   size: z.number(),
+  contentHash: z.string().length(64),
+  extractedText: z.string().nullable().optional(),
+  extractionError: z.string().nullable().optional(),
+  thumbnail: z.string().nullable().optional(),
 });
 
 export const insertMessageFileSchema = z.object({
@@ -101,7 +247,10 @@ export type Conversation = typeof conversations.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
 export type InsertProjectFile = z.infer<typeof insertProjectFileSchema>;
+export type FileBlob = typeof fileBlobs.$inferSelect;
 export type ProjectFile = typeof projectFiles.$inferSelect;
+// What the file list returns: the extracted text is fetched on its own when previewed
+export type ProjectFileSummary = Omit<ProjectFile, "extractedText"> & { extractedChars: number | null; duplicate?: boolean };
 export type InsertMessageFile = z.infer<typeof insertMessageFileSchema>;
 export type MessageFile = typeof messageFiles.$inferSelect;
 
@@ -115,33 +264,158 @@ export const fileAttachmentSchema = z.object({
 
 export type FileAttachment = z.infer<typeof fileAttachmentSchema>;
 
+// Anthropic requires at least 1,024 thinking tokens; the cap keeps a single reply's cost bounded
+export const MIN_THINKING_BUDGET = 1024;
+export const MAX_THINKING_BUDGET = 32000;
+export const DEFAULT_THINKING_BUDGET = 4096;
+
 export const chatRequestSchema = z.object({
   message: z.string().min(1, "Message cannot be empty"),
-  model: z.enum(["claude-opus-4-20250514", "claude-sonnet-4-5", "claude-haiku-4-5"]),
+  // Checked against the models table by the route
+  model: z.string().min(1),
   conversationId: z.number().optional(),
   systemPrompt: z.string().optional(),
   parentMessageId: z.number().nullable().optional(),
   threadContext: z.boolean().optional(),
   threadRootId: z.number().optional(),
   files: z.array(fileAttachmentSchema).optional(),
+  ledgers: z.array(ledgerAttachmentSchema).max(MAX_ATTACHED_LEDGERS).optional(),
+  thinking: z.boolean().optional(),
+  thinkingBudget: z.number().int().min(MIN_THINKING_BUDGET).max(MAX_THINKING_BUDGET).optional(),
+  generationParams: generationParamsSchema.optional(),
 });
 
 export type ChatRequest = z.infer<typeof chatRequestSchema>;
 
-export const modelOptions = [
-  { label: "Claude 4.5 Opus", value: "claude-opus-4-20250514" },
-  { label: "Claude 4.5 Sonnet", value: "claude-sonnet-4-5" },
-  { label: "Claude 4.5 Haiku", value: "claude-haiku-4-5" },
-] as const;
+export const MIN_COMPARE_MODELS = 2;
+export const MAX_COMPARE_MODELS = 4;
+
+// One user message answered by several models at once; each reply becomes a sibling branch
+export const compareRequestSchema = z.object({
+  message: z.string().min(1, "Message cannot be empty"),
+  models: z.array(z.string().min(1)).min(MIN_COMPARE_MODELS).max(MAX_COMPARE_MODELS)
+    .refine((ids) => new Set(ids).size === ids.length, "Pick each model only once"),
+  conversationId: z.number(),
+  systemPrompt: z.string().optional(),
+  parentMessageId: z.number().nullable().optional(),
+  files: z.array(fileAttachmentSchema).optional(),
+  ledgers: z.array(ledgerAttachmentSchema).max(MAX_ATTACHED_LEDGERS).optional(),
+  generationParams: generationParamsSchema.optional(),
+});
+
+export type CompareRequest = z.infer<typeof compareRequestSchema>;
+
+// Stop reasons after which an assistant reply can be continued in place; "error" marks a reply
+// whose stream failed partway
+export const CONTINUABLE_STOP_REASONS = ["max_tokens", "stopped", "error"];
+
+export const continueRequestSchema = z.object({
+  conversationId: z.number(),
+  messageId: z.number(),
+});
+
+// "openai" covers any OpenAI-compatible chat completions endpoint (OpenAI, llama.cpp, Ollama, vLLM...)
+export const MODEL_PROVIDERS = ["anthropic", "openai"] as const;
+export type ModelProvider = typeof MODEL_PROVIDERS[number];
+
+// Registry of selectable models. `id` is the id sent to the provider's API.
+export const models = pgTable("models", {
+  id: varchar("id", { length: 100 }).primaryKey(),
+  label: varchar("label", { length: 100 }).notNull(),
+  provider: varchar("provider", { length: 50 }).notNull().default("anthropic").$type<ModelProvider>(),
+  // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1; null uses the provider default
+  baseUrl: varchar("base_url", { length: 255 }),
+  // Total tokens (input + output) the model accepts per request
+  contextWindow: integer("context_window").notNull().default(200_000),
+  maxOutputTokens: integer("max_output_tokens").notNull().default(MAX_OUTPUT_TOKENS),
+  inputPer1M: real("input_per_1m").notNull().default(0),
+  outputPer1M: real("output_per_1m").notNull().default(0),
+  cacheWritePer1M: real("cache_write_per_1m").notNull().default(0),
+  cacheReadPer1M: real("cache_read_per_1m").notNull().default(0),
+  supportsVision: boolean("supports_vision").notNull().default(true),
+  supportsPdf: boolean("supports_pdf").notNull().default(true),
+  supportsThinking: boolean("supports_thinking").notNull().default(true),
+  enabled: boolean("enabled").notNull().default(true),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertModelSchema = z.object({
+  id: z.string().min(1, "Model id is required").max(100).regex(/^[A-Za-z0-9._:\/-]+$/, "Model id may not contain spaces"),
+  label: z.string().min(1, "Label is required").max(100),
+  provider: z.enum(MODEL_PROVIDERS).optional(),
+  baseUrl: z.string().url().max(255).nullable().optional(),
+  contextWindow: z.number().int().min(1024),
+  maxOutputTokens: z.number().int().min(1).max(MAX_OUTPUT_TOKENS),
+  inputPer1M: z.number().min(0),
+  outputPer1M: z.number().min(0),
+  cacheWritePer1M: z.number().min(0).optional(),
+  cacheReadPer1M: z.number().min(0).optional(),
+  supportsVision: z.boolean().optional(),
+  supportsPdf: z.boolean().optional(),
+  supportsThinking: z.boolean().optional(),
+  enabled: z.boolean().optional(),
+  sortOrder: z.number().int().optional(),
+});
+
+// The id is the primary key and is referenced by stored messages and usage, so it can't be renamed
+export const updateModelSchema = insertModelSchema.omit({ id: true }).partial();
+
+export type InsertModel = z.infer<typeof insertModelSchema>;
+export type Model = typeof models.$inferSelect;
+export type ModelPricing = Pick<Model, "inputPer1M" | "outputPer1M" | "cacheWritePer1M" | "cacheReadPer1M">;
+
+export const DEFAULT_MODEL_ID = "claude-sonnet-4-5";
+
+// Seeded into an empty models table. Cache writes cost 1.25x the input rate; cache reads cost 0.1x.
+export const DEFAULT_MODELS: InsertModel[] = [
+  { id: "claude-opus-4-20250514", label: "Claude 4.5 Opus", contextWindow: 200_000, maxOutputTokens: 32_000, inputPer1M: 15, outputPer1M: 75, cacheWritePer1M: 18.75, cacheReadPer1M: 1.5, sortOrder: 0 },
+  { id: "claude-sonnet-4-5", label: "Claude 4.5 Sonnet", contextWindow: 200_000, maxOutputTokens: 64_000, inputPer1M: 3, outputPer1M: 15, cacheWritePer1M: 3.75, cacheReadPer1M: 0.3, sortOrder: 1 },
+  { id: "claude-haiku-4-5", label: "Claude 4.5 Haiku", contextWindow: 200_000, maxOutputTokens: 64_000, inputPer1M: 1, outputPer1M: 5, cacheWritePer1M: 1.25, cacheReadPer1M: 0.1, sortOrder: 2 },
+];
+
+// Bring-your-own provider keys. The secret is AES-256-GCM encrypted with API_KEY_MASTER_SECRET
+// and never sent back to the client; revoked keys stay so past usage can still be attributed.
+export const apiKeys = pgTable("api_keys", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  label: varchar("label", { length: 100 }).notNull(),
+  provider: varchar("provider", { length: 50 }).notNull().default("anthropic").$type<ModelProvider>(),
+  encryptedKey: text("encrypted_key").notNull(),
+  // Last characters of the key, e.g. "…x7Qa", so keys can be told apart
+  keyHint: varchar("key_hint", { length: 20 }).notNull(),
+  lastTestedAt: timestamp("last_tested_at"),
+  // Null when the last test passed
+  lastTestError: text("last_test_error"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertApiKeySchema = z.object({
+  label: z.string().min(1, "Label is required").max(100),
+  provider: z.enum(MODEL_PROVIDERS),
+  key: z.string().trim().min(8, "Key is too short").max(500),
+});
 
-export type ModelValue = typeof modelOptions[number]["value"];
+// Rotating replaces the secret in place; the provider is fixed because projects and usage point at the key
+export const updateApiKeySchema = insertApiKeySchema.omit({ provider: true }).partial();
+
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type StoredApiKey = typeof apiKeys.$inferSelect;
+// What the API returns: everything except the ciphertext
+export type ApiKey = Omit<StoredApiKey, "encryptedKey">;
 
 export const settings = pgTable("settings", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
-  defaultModel: varchar("default_model", { length: 100 }).notNull().default("claude-sonnet-4-5"),
+  defaultModel: varchar("default_model", { length: 100 }).notNull().default(DEFAULT_MODEL_ID),
   theme: varchar("theme", { length: 20 }).notNull().default("system"),
   autoTitle: boolean("auto_title").notNull().default(true),
   fontSize: varchar("font_size", { length: 20 }).notNull().default("medium"),
+  compactionStrategy: varchar("compaction_strategy", { length: 30 }).notNull().default("summarize").$type<CompactionStrategy>(),
+  generationParams: jsonb("generation_params").notNull().default({}).$type<GenerationParams>(),
+  // Set once DEFAULT_MODELS have been offered, so models the user deletes stay deleted
+  modelsSeeded: boolean("models_seeded").notNull().default(false),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
@@ -150,16 +424,24 @@ export const apiUsage = pgTable("api_usage", {
   model: varchar("model", { length: 100 }).notNull(),
   inputTokens: integer("input_tokens").notNull(),
   outputTokens: integer("output_tokens").notNull(),
+  thinkingTokens: integer("thinking_tokens").notNull().default(0),
+  cacheWriteTokens: integer("cache_write_tokens").notNull().default(0),
+  cacheReadTokens: integer("cache_read_tokens").notNull().default(0),
   costUsd: real("cost_usd").notNull(),
   conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  // Null when the call was paid by the provider's environment key
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "set null" }),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertSettingsSchema = z.object({
-  defaultModel: z.enum(["claude-opus-4-20250514", "claude-sonnet-4-5", "claude-haiku-4-5"]).optional(),
+  // Checked against the models table by the route
+  defaultModel: z.string().min(1).optional(),
   theme: z.enum(["system", "light", "dark"]).optional(),
   autoTitle: z.boolean().optional(),
   fontSize: z.enum(["small", "medium", "large"]).optional(),
+  compactionStrategy: z.enum(COMPACTION_STRATEGIES).optional(),
+  generationParams: generationParamsSchema.optional(),
 });
 
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
@@ -169,28 +451,46 @@ export const insertApiUsageSchema = z.object({
   model: z.string().min(1),
   inputTokens: z.number(),
   outputTokens: z.number(),
+  thinkingTokens: z.number().optional(),
+  cacheWriteTokens: z.number().optional(),
+  cacheReadTokens: z.number().optional(),
   costUsd: z.number(),
   conversationId: z.number().optional(),
+  apiKeyId: z.number().nullable().optional(),
 });
 
 export type InsertApiUsage = z.infer<typeof insertApiUsageSchema>;
 export type ApiUsage = typeof apiUsage.$inferSelect;
 
-export const MODEL_PRICING = {
-  "claude-opus-4-20250514": { inputPer1M: 15, outputPer1M: 75 },
-  "claude-sonnet-4-5": { inputPer1M: 3, outputPer1M: 15 },
-  "claude-haiku-4-5": { inputPer1M: 1, outputPer1M: 5 },
-} as const;
-
-export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
-  const pricing = MODEL_PRICING[model as keyof typeof MODEL_PRICING];
+// Pricing comes from the model's registry row; unknown models cost 0.
+// Thinking tokens are billed at the output rate but tracked as their own line item.
+// inputTokens excludes cached tokens, matching Anthropic's usage report
+export function calculateCost(
+  pricing: ModelPricing | null | undefined,
+  inputTokens: number,
+  outputTokens: number,
+  thinkingTokens: number = 0,
+  cacheWriteTokens: number = 0,
+  cacheReadTokens: number = 0,
+): number {
   if (!pricing) return 0;
   const inputCost = (inputTokens / 1_000_000) * pricing.inputPer1M;
   const outputCost = (outputTokens / 1_000_000) * pricing.outputPer1M;
-  return inputCost + outputCost;
+  const thinkingCost = (thinkingTokens / 1_000_000) * pricing.outputPer1M;
+  const cacheWriteCost = (cacheWriteTokens / 1_000_000) * pricing.cacheWritePer1M;
+  const cacheReadCost = (cacheReadTokens / 1_000_000) * pricing.cacheReadPer1M;
+  return inputCost + outputCost + thinkingCost + cacheWriteCost + cacheReadCost;
+}
+
+// Net saving versus sending the same tokens uncached: read discounts minus the write premium
+export function calculateCacheSavings(pricing: ModelPricing | null | undefined, cacheWriteTokens: number, cacheReadTokens: number): number {
+  if (!pricing) return 0;
+  const readSavings = (cacheReadTokens / 1_000_000) * (pricing.inputPer1M - pricing.cacheReadPer1M);
+  const writePremium = (cacheWriteTokens / 1_000_000) * (pricing.cacheWritePer1M - pricing.inputPer1M);
+  return readSavings - writePremium;
 }
 
-export const LEDGER_TYPES = ["report", "plan", "code", "note", "draft"] as const;
+export const LEDGER_TYPES = ["report", "plan", "code", "note", "draft", "diagram", "table", "html", "chart"] as const;
 export type LedgerType = typeof LEDGER_TYPES[number];
 
 export const ledgers = pgTable("ledgers", {
@@ -200,8 +500,72 @@ export const ledgers = pgTable("ledgers", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   metadataJson: jsonb("metadata_json").notNull().default({}),
+  // The chat the ledger was created in; projectId follows that chat when it moves between projects
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "set null" }),
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+  // Pinned ledgers list first
+  pinned: boolean("pinned").notNull().default(false),
+  // Archived ledgers are hidden from lists and the prompt but keep their history
+  archivedAt: timestamp("archived_at"),
+});
+
+// Sandpack templates a code ledger can run in; "react" is what ledgers without a template use
+export const CODE_TEMPLATES = ["static", "vanilla", "vanilla-ts", "react", "react-ts", "vue", "node"] as const;
+export type CodeTemplate = typeof CODE_TEMPLATES[number];
+
+// File a single-file block is saved as, and the one opened first, for each template
+export const CODE_TEMPLATE_ENTRIES: Record<CodeTemplate, string> = {
+  static: "/index.html",
+  vanilla: "/index.js",
+  "vanilla-ts": "/index.ts",
+  react: "/App.js",
+  "react-ts": "/App.tsx",
+  vue: "/src/App.vue",
+  node: "/index.js",
+};
+
+export const codeLedgerSpecSchema = z.object({
+  template: z.enum(CODE_TEMPLATES),
+  // Path opened first in the viewer
+  entry: z.string().min(1),
+  // Path → source; paths start with "/"
+  files: z.record(z.string()),
+  // npm package → version range
+  dependencies: z.record(z.string()),
 });
 
+export type CodeLedgerSpec = z.infer<typeof codeLedgerSpecSchema>;
+
+export const CHART_KINDS = ["bar", "line", "area", "pie"] as const;
+
+// Content of a chart ledger, as JSON. Pie charts use xKey for slice names and the first series for values.
+export const chartLedgerSpecSchema = z.object({
+  kind: z.enum(CHART_KINDS),
+  title: z.string().optional(),
+  data: z.array(z.record(z.union([z.string(), z.number(), z.null()]))).min(1),
+  // Field of each data row used as the category axis
+  xKey: z.string().min(1),
+  series: z.array(z.object({
+    key: z.string().min(1),
+    label: z.string().optional(),
+    // Any CSS color; defaults to the theme's chart palette
+    color: z.string().optional(),
+  })).min(1),
+  stacked: z.boolean().optional(),
+});
+
+export type ChartLedgerSpec = z.infer<typeof chartLedgerSpecSchema>;
+
+// Where a version came from when it wasn't written by a reply
+export interface LedgerVersionMetadata {
+  // Version whose content was copied forward by a restore
+  restoredFrom?: number;
+  // Optional description of a manual edit
+  note?: string;
+  // How a code version runs; versions without it are a single React /App.js (the content)
+  code?: CodeLedgerSpec;
+}
+
 export const ledgerVersions = pgTable("ledger_versions", {
   id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
   ledgerId: integer("ledger_id").notNull().references(() => ledgers.id, { onDelete: "cascade" }),
@@ -209,12 +573,15 @@ export const ledgerVersions = pgTable("ledger_versions", {
   content: text("content").notNull(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   createdFromMessageId: integer("created_from_message_id").references(() => messages.id, { onDelete: "set null" }),
-});
+  metadataJson: jsonb("metadata_json").$type<LedgerVersionMetadata>().notNull().default({}),
+}, (table) => [unique().on(table.ledgerId, table.versionNumber)]);
 
 export const insertLedgerSchema = z.object({
   title: z.string().min(1, "Title is required"),
   type: z.enum(LEDGER_TYPES),
   metadataJson: z.record(z.unknown()).optional(),
+  conversationId: z.number().nullable().optional(),
+  projectId: z.number().nullable().optional(),
 });
 
 export const insertLedgerVersionSchema = z.object({
@@ -224,7 +591,72 @@ export const insertLedgerVersionSchema = z.object({
   createdFromMessageId: z.number().nullable().optional(),
 });
 
+export const updateLedgerSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200).optional(),
+  type: z.enum(LEDGER_TYPES).optional(),
+  pinned: z.boolean().optional(),
+  archived: z.boolean().optional(),
+});
+
+// Query string of the ledger list routes
+export const ledgerListQuerySchema = z.object({
+  // Full-text search over titles and latest-version content
+  q: z.string().trim().max(200).optional(),
+  // Comma-separated, e.g. "code,plan"
+  types: z.string().optional().transform((value) =>
+    value ? value.split(",").filter((type): type is LedgerType => (LEDGER_TYPES as readonly string[]).includes(type)) : undefined),
+  // ISO date; only ledgers updated since then
+  since: z.coerce.date().optional(),
+  // "true" lists archived ledgers instead of active ones
+  archived: z.enum(["true", "false"]).optional().transform((value) => value === "true"),
+});
+
 export type InsertLedger = z.infer<typeof insertLedgerSchema>;
+export type UpdateLedger = z.infer<typeof updateLedgerSchema>;
+export type LedgerScope = Pick<InsertLedger, "conversationId" | "projectId">;
 export type Ledger = typeof ledgers.$inferSelect;
 export type InsertLedgerVersion = z.infer<typeof insertLedgerVersionSchema>;
 export type LedgerVersion = typeof ledgerVersions.$inferSelect;
+// A version plus the conversation of the message that wrote it, for linking back from history
+export type LedgerVersionWithSource = LedgerVersion & { conversationId: number | null };
+
+// A code ledger version promoted to a standalone app, served full-screen at /apps/:slug
+export const apps = pgTable("apps", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  slug: varchar("slug", { length: 80 }).notNull().unique(),
+  name: text("name").notNull(),
+  // Where the snapshot came from; the app keeps running if the ledger is deleted
+  ledgerId: integer("ledger_id").references(() => ledgers.id, { onDelete: "set null" }),
+  versionNumber: integer("version_number").notNull(),
+  // Frozen copy of the version's code, so later ledger edits don't change the app
+  code: jsonb("code").$type<CodeLedgerSpec>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Each app's own key-value store, reached from the app through the injected `appKv` client
+export const appKv = pgTable("app_kv", {
+  id: integer("id").primaryKey().generatedAlwaysAsIdentity(),
+  appId: integer("app_id").notNull().references(() => apps.id, { onDelete: "cascade" }),
+  key: varchar("key", { length: 200 }).notNull(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.appId, table.key)]);
+
+export const promoteAppSchema = z.object({
+  ledgerId: z.number().int(),
+  versionNumber: z.number().int(),
+  name: z.string().trim().min(1, "Name is required").max(100).optional(),
+});
+
+export const APP_KV_KEY_MAX_LENGTH = 200;
+// Serialized JSON per value; keeps a PUT under express.json()'s 100kb body limit
+export const APP_KV_VALUE_MAX_BYTES = 64_000;
+
+// postMessage types between an app's preview and the page hosting it
+export const APP_KV_REQUEST = "app-kv:request";
+export const APP_KV_RESPONSE = "app-kv:response";
+
+export type PromoteApp = z.infer<typeof promoteAppSchema>;
+export type App = typeof apps.$inferSelect;
+export type InsertApp = typeof apps.$inferInsert;
+export type AppKvEntry = typeof appKv.$inferSelect;